@@ -0,0 +1,73 @@
+import { updateConfig, type CliConfig } from "./config";
+
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Thin wrapper over the NoteTimes HTTP API. Authenticates with the API token when one is
+// configured; otherwise it behaves like the web client and keeps the session token the server
+// hands out in the config file.
+export class ApiClient {
+  constructor(private config: CliConfig) {}
+
+  async request(method: string, path: string, body?: unknown, retried = false): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (body !== undefined) headers["Content-Type"] = "application/json";
+    if (this.config.token) {
+      headers["Authorization"] = `Bearer ${this.config.token}`;
+    } else if (this.config.session) {
+      headers["x-session-id"] = this.config.session;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(new URL(path, this.config.server), {
+        method,
+        headers,
+        body: body === undefined ? undefined : JSON.stringify(body),
+      });
+    } catch (error) {
+      throw new Error(`Could not reach ${this.config.server}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    if (!this.config.token) {
+      // The server refuses expired sessions; start over with a new one, like the web client does
+      if (response.status === 401 && response.headers.get("x-session-invalid") && this.config.session && !retried) {
+        console.error("notetimes: session expired, starting a new anonymous session");
+        this.config.session = undefined;
+        await updateConfig({ session: undefined });
+        return this.request(method, path, body, true);
+      }
+
+      const session = response.headers.get("x-session-id");
+      if (session && session !== this.config.session) {
+        this.config.session = session;
+        await updateConfig({ session });
+      }
+    }
+
+    if (!response.ok) {
+      const text = await response.text();
+      let message = text || response.statusText;
+      try {
+        message = JSON.parse(text).message || message;
+      } catch {
+        // Not JSON; use the text as is
+      }
+      throw new ApiError(response.status, message);
+    }
+    return response;
+  }
+
+  async json<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await this.request(method, path, body);
+    return await response.json() as T;
+  }
+
+  async text(method: string, path: string): Promise<string> {
+    const response = await this.request(method, path);
+    return await response.text();
+  }
+}
@@ -0,0 +1,138 @@
+import { writeFile } from "node:fs/promises";
+import type { Note, NotePage, NoteSearchResult, Variable } from "@shared/schema";
+import { parseNoteText, tokensToTags } from "@shared/tokens";
+import { normalizeFolderPath } from "@shared/folders";
+import { parseTimePrefix } from "@shared/time-prefix";
+import { activeVariableValues } from "@shared/variables";
+import type { ApiClient } from "./client";
+
+const LIST_PAGE_SIZE = 100;
+
+export type ExportFormat = "md" | "json" | "txt";
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+// Local time, e.g. 2026-10-19 14:30
+function formatTimestamp(value: Date | string): string {
+  const date = new Date(value);
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+function formatNote(note: Note): string {
+  const folder = note.folder && note.folder !== "General" ? `  [${note.folder}]` : "";
+  return `${formatTimestamp(note.occurredAt)}${folder}  ${note.content}`;
+}
+
+function print(lines: string[]): void {
+  if (lines.length > 0) console.log(lines.join("\n"));
+}
+
+export async function addNote(client: ApiClient, input: string, folder?: string): Promise<void> {
+  // The server resolves /variables; "@when" prefixes and tags are handled the same way the web client does
+  const timePrefix = parseTimePrefix(input);
+  const text = timePrefix ? timePrefix.text : input;
+  const tags = Array.from(new Set(tokensToTags(parseNoteText(text, []))));
+  const note = await client.json<Note>("POST", "/api/notes", {
+    content: text,
+    originalContent: text,
+    tags,
+    folder: folder ? normalizeFolderPath(folder) || "General" : "General",
+    occurredAt: timePrefix?.occurredAt,
+    timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+  });
+  print([formatNote(note)]);
+}
+
+export interface ListOptions {
+  tag?: string;
+  folder?: string;
+  since?: Date;
+  limit?: number;
+  json?: boolean;
+}
+
+// Walks the timeline newest first until `limit` notes match, or notes get older than `since`
+export async function listNotes(client: ApiClient, options: ListOptions): Promise<void> {
+  const base = options.folder
+    ? `/api/notes/folder/${encodeURIComponent(normalizeFolderPath(options.folder))}?descendants=true&`
+    : "/api/notes?";
+  const tag = options.tag?.replace(/^#/, "").toLowerCase();
+  const limit = options.limit ?? (options.since ? Infinity : 20);
+
+  const matches: Note[] = [];
+  let cursor: string | null = null;
+  paging: do {
+    const page: NotePage = await client.json<NotePage>("GET", `${base}limit=${LIST_PAGE_SIZE}${cursor ? `&before=${encodeURIComponent(cursor)}` : ""}`);
+    for (const note of page.notes) {
+      if (options.since && new Date(note.occurredAt) < options.since) break paging;
+      if (tag && !(note.tags || []).some(noteTag => noteTag.toLowerCase() === tag)) continue;
+      matches.push(note);
+      if (matches.length >= limit) break paging;
+    }
+    cursor = page.nextCursor;
+  } while (cursor);
+
+  if (options.json) {
+    console.log(JSON.stringify(matches, null, 2));
+  } else {
+    // Oldest first reads naturally in a terminal, with the newest note just above the prompt
+    print(matches.reverse().map(formatNote));
+  }
+}
+
+export async function searchNotes(client: ApiClient, query: string, json?: boolean): Promise<void> {
+  const results = await client.json<NoteSearchResult[]>("GET", `/api/notes/search?q=${encodeURIComponent(query)}`);
+  if (json) {
+    console.log(JSON.stringify(results, null, 2));
+    return;
+  }
+  print(results.map(result => formatNote(result.note)));
+}
+
+function toMarkdown(notes: Note[]): string {
+  const sorted = [...notes].sort((a, b) => new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime());
+  const sections = sorted.map(note => {
+    const details = [`**Date:** ${formatTimestamp(note.occurredAt)}`];
+    if (note.folder) details.push(`**Folder:** ${note.folder}`);
+    if (note.tags && note.tags.length > 0) details.push(`**Tags:** ${note.tags.map(tag => `#${tag}`).join(", ")}`);
+    return `${details.join("  \n")}\n\n${note.content}\n`;
+  });
+  return `# All Notes\n\n*Exported on ${formatTimestamp(new Date())}*\n\n${sections.join("\n---\n\n")}`;
+}
+
+// txt and json are the server's own exports; markdown is rendered here from the JSON export
+export async function exportNotes(client: ApiClient, format: ExportFormat, output?: string): Promise<void> {
+  let content: string;
+  if (format === "txt") {
+    content = await client.text("GET", "/api/export/text");
+  } else {
+    const exported = await client.json<{ notes: Note[] }>("GET", "/api/export/json");
+    content = format === "json" ? JSON.stringify(exported, null, 2) + "\n" : toMarkdown(exported.notes);
+  }
+
+  if (output) {
+    await writeFile(output, content);
+    console.error(`notetimes: wrote ${output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+export async function listVariables(client: ApiClient, json?: boolean): Promise<void> {
+  const variables = await client.json<Variable[]>("GET", "/api/variables");
+  if (json) {
+    console.log(JSON.stringify(variables, null, 2));
+    return;
+  }
+  print(variables.map(variable =>
+    variable.expression
+      ? `/${variable.name} = ${variable.expression}`
+      : `/${variable.name}  ${activeVariableValues(variable).join(", ")}  (${variable.selectionPolicy})`
+  ));
+}
+
+export async function listFolders(client: ApiClient): Promise<void> {
+  print(await client.json<string[]>("GET", "/api/folders"));
+}
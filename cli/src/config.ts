@@ -0,0 +1,46 @@
+import { readFile, writeFile, mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import path from "node:path";
+
+export interface CliConfig {
+  server: string;
+  token?: string; // Personal API token (nt_…), preferred when set
+  session?: string; // Signed session token the server handed out, used when there is no API token
+}
+
+const DEFAULT_SERVER = "http://localhost:3001";
+
+// $NOTETIMES_CONFIG, else $XDG_CONFIG_HOME/notetimes/config.json, else ~/.config/notetimes/config.json
+export function getConfigPath(): string {
+  if (process.env.NOTETIMES_CONFIG) return process.env.NOTETIMES_CONFIG;
+  const configHome = process.env.XDG_CONFIG_HOME || path.join(homedir(), ".config");
+  return path.join(configHome, "notetimes", "config.json");
+}
+
+async function readStoredConfig(): Promise<Partial<CliConfig>> {
+  try {
+    return JSON.parse(await readFile(getConfigPath(), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return {};
+    throw new Error(`Could not read ${getConfigPath()}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+// The stored config with NOTETIMES_SERVER and NOTETIMES_TOKEN taking precedence, e.g. in CI
+export async function loadConfig(): Promise<CliConfig> {
+  const stored = await readStoredConfig();
+  return {
+    ...stored,
+    server: process.env.NOTETIMES_SERVER || stored.server || DEFAULT_SERVER,
+    token: process.env.NOTETIMES_TOKEN || stored.token,
+  };
+}
+
+// Merges changes into the stored config; environment overrides are never written back. The file
+// holds credentials, so it's only readable by the current user.
+export async function updateConfig(changes: Partial<CliConfig>): Promise<void> {
+  const configPath = getConfigPath();
+  const updated = { ...(await readStoredConfig()), ...changes };
+  await mkdir(path.dirname(configPath), { recursive: true, mode: 0o700 });
+  await writeFile(configPath, JSON.stringify(updated, null, 2) + "\n", { mode: 0o600 });
+}
@@ -0,0 +1,151 @@
+import { parseArgs } from "node:util";
+import { loadConfig, updateConfig, getConfigPath } from "./config";
+import { ApiClient } from "./client";
+import { addNote, listNotes, searchNotes, exportNotes, listVariables, listFolders, type ExportFormat } from "./commands";
+
+const USAGE = `Usage: notetimes <command> [options]
+
+Commands:
+  add <text> [--folder <path>]          Add a note; #tags, /variables and "@14:30" or
+                                        "@yesterday 9am" prefixes work as in the app
+  ls [--tag <tag>] [--folder <path>]    List recent notes, oldest first
+     [--since <date>] [--limit <n>] [--json]
+  search <query> [--json]               Full-text search
+  export [--format md|json|txt] [-o <file>]
+  vars [--json]                         List variables
+  folders                               List folders
+  config [--server <url>] [--token <token>] [--clear-token]
+
+Credentials are kept in ${getConfigPath()}.
+NOTETIMES_SERVER and NOTETIMES_TOKEN override the stored server and API token.`;
+
+class UsageError extends Error {}
+
+function parseDate(value: string): Date {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new UsageError(`Invalid date "${value}"; use e.g. 2026-10-19 or 2026-10-19T09:00`);
+  return date;
+}
+
+function parseLimit(value: string): number {
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) throw new UsageError(`Invalid limit "${value}"`);
+  return limit;
+}
+
+// Tokens are secrets, so only their prefix is ever printed
+function maskToken(token: string): string {
+  return `${token.slice(0, 9)}…`;
+}
+
+async function main(argv: string[]): Promise<void> {
+  const [command, ...rest] = argv;
+  if (!command || command === "help" || command === "--help" || command === "-h") {
+    console.log(USAGE);
+    return;
+  }
+
+  if (command === "config") {
+    const { values } = parseArgs({
+      args: rest,
+      options: {
+        server: { type: "string" },
+        token: { type: "string" },
+        "clear-token": { type: "boolean" },
+      },
+    });
+    if (values.server || values.token || values["clear-token"]) {
+      // A new server or credentials means the old anonymous session no longer applies
+      await updateConfig({
+        ...(values.server && { server: values.server.replace(/\/+$/, ""), session: undefined }),
+        ...(values.token && { token: values.token }),
+        ...(values["clear-token"] && { token: undefined }),
+      });
+    }
+    const config = await loadConfig();
+    console.log(`server: ${config.server}`);
+    console.log(`auth:   ${config.token ? `API token ${maskToken(config.token)}` : config.session ? "anonymous session" : "none yet"}`);
+    return;
+  }
+
+  const client = new ApiClient(await loadConfig());
+
+  switch (command) {
+    case "add": {
+      const { values, positionals } = parseArgs({
+        args: rest,
+        allowPositionals: true,
+        options: { folder: { type: "string", short: "f" } },
+      });
+      const text = positionals.join(" ").trim();
+      if (!text) throw new UsageError("add needs the note text, e.g. notetimes add \"Deployed v2 #release\"");
+      return addNote(client, text, values.folder);
+    }
+
+    case "ls": {
+      const { values } = parseArgs({
+        args: rest,
+        options: {
+          tag: { type: "string", short: "t" },
+          folder: { type: "string", short: "f" },
+          since: { type: "string", short: "s" },
+          limit: { type: "string", short: "n" },
+          json: { type: "boolean" },
+        },
+      });
+      return listNotes(client, {
+        tag: values.tag,
+        folder: values.folder,
+        since: values.since ? parseDate(values.since) : undefined,
+        limit: values.limit ? parseLimit(values.limit) : undefined,
+        json: values.json,
+      });
+    }
+
+    case "search": {
+      const { values, positionals } = parseArgs({
+        args: rest,
+        allowPositionals: true,
+        options: { json: { type: "boolean" } },
+      });
+      const query = positionals.join(" ").trim();
+      if (!query) throw new UsageError("search needs a query");
+      return searchNotes(client, query, values.json);
+    }
+
+    case "export": {
+      const { values } = parseArgs({
+        args: rest,
+        options: {
+          format: { type: "string", default: "md" },
+          output: { type: "string", short: "o" },
+        },
+      });
+      const format = values.format as ExportFormat;
+      if (!["md", "json", "txt"].includes(format)) throw new UsageError(`Unknown export format "${format}"; use md, json or txt`);
+      return exportNotes(client, format, values.output);
+    }
+
+    case "vars": {
+      const { values } = parseArgs({ args: rest, options: { json: { type: "boolean" } } });
+      return listVariables(client, values.json);
+    }
+
+    case "folders":
+      parseArgs({ args: rest });
+      return listFolders(client);
+
+    default:
+      throw new UsageError(`Unknown command "${command}"`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  console.error(`notetimes: ${error instanceof Error ? error.message : error}`);
+  if (error instanceof UsageError || (error as NodeJS.ErrnoException).code?.startsWith("ERR_PARSE_ARGS")) {
+    console.error(`Run "notetimes help" for usage.`);
+    process.exitCode = 2;
+  } else {
+    process.exitCode = 1;
+  }
+});
@@ -1,28 +1,36 @@
+import { useState } from "react";
 import { Switch, Route } from "wouter";
 import { queryClient } from "./lib/queryClient";
+import { sessionManager } from "./lib/session";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { ThemeProvider } from "@/components/theme-provider";
 import Home from "@/pages/home";
+import VariableMentionsPage from "@/pages/variable-mentions";
 import NotFound from "@/pages/not-found";
+import StarterTemplatePicker from "@/components/starter-template-picker";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/variables/:name" component={VariableMentionsPage} />
       <Route component={NotFound} />
     </Switch>
   );
 }
 
 function App() {
+  // A device without a session yet picks a starter template before anything loads
+  const [hasSession, setHasSession] = useState(() => sessionManager.getSessionId() !== null);
+
   return (
     <QueryClientProvider client={queryClient}>
       <ThemeProvider>
         <TooltipProvider>
           <Toaster />
-          <Router />
+          {hasSession ? <Router /> : <StarterTemplatePicker onStarted={() => setHasSession(true)} />}
         </TooltipProvider>
       </ThemeProvider>
     </QueryClientProvider>
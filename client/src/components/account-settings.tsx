@@ -0,0 +1,209 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { LogIn, LogOut, UserPlus, Merge } from "lucide-react";
+import { apiRequest } from "@/lib/queryClient";
+import { sessionManager } from "@/lib/session";
+import { useToast } from "@/hooks/use-toast";
+import type { Credentials, PublicUser } from "@shared/schema";
+
+// Sign-in state of this device; shown as the Account section of SettingsModal
+export default function AccountSettings() {
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+  const [keepNotes, setKeepNotes] = useState(true);
+  const [claimToken, setClaimToken] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data } = useQuery<{ user: PublicUser | null }>({
+    queryKey: ["/api/auth/me"],
+  });
+  const user = data?.user;
+
+  // Everything on screen belongs to the previous session after signing in or out
+  const onSessionChanged = () => {
+    setUsername("");
+    setPassword("");
+    queryClient.invalidateQueries();
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({
+      title,
+      description: error.message,
+      variant: "destructive",
+    });
+  };
+
+  const signInMutation = useMutation({
+    mutationFn: async ({ mode, credentials }: { mode: "login" | "register"; credentials: Credentials }) => {
+      const response = await apiRequest("POST", `/api/auth/${mode}`, credentials);
+      return response.json() as Promise<{ user: PublicUser }>;
+    },
+    onSuccess: ({ user }, { mode }) => {
+      onSessionChanged();
+      toast({
+        title: mode === "register" ? "Account created" : "Signed in",
+        description: `You're signed in as ${user.username}.`,
+      });
+    },
+    onError: showError("Couldn't sign in"),
+  });
+
+  const signOutMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/auth/logout");
+    },
+    onSuccess: () => {
+      sessionManager.clearSession();
+      onSessionChanged();
+      toast({
+        title: "Signed out",
+        description: "This device now has a new anonymous session.",
+      });
+    },
+    onError: showError("Couldn't sign out"),
+  });
+
+  const claimMutation = useMutation({
+    mutationFn: async (sessionToken: string) => {
+      await apiRequest("POST", "/api/auth/claim", { sessionToken });
+    },
+    onSuccess: () => {
+      setClaimToken("");
+      queryClient.invalidateQueries();
+      toast({
+        title: "Session claimed",
+        description: "Its notes, variables and folders are now part of your account.",
+      });
+    },
+    onError: showError("Couldn't claim session"),
+  });
+
+  const handleSubmit = (mode: "login" | "register") => {
+    if (!username.trim() || !password) {
+      toast({
+        title: "Invalid input",
+        description: "Both username and password are required.",
+        variant: "destructive",
+      });
+      return;
+    }
+    signInMutation.mutate({ mode, credentials: { username, password, claimSession: keepNotes } });
+  };
+
+  if (user) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm">
+            Signed in as <span className="font-medium" data-testid="text-account-username">{user.username}</span>
+          </p>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => signOutMutation.mutate()}
+            disabled={signOutMutation.isPending}
+            data-testid="button-sign-out"
+          >
+            <LogOut className="w-4 h-4 mr-2" />
+            Sign out
+          </Button>
+        </div>
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">
+            Claim an anonymous session
+          </Label>
+          <div className="flex items-center space-x-2 mt-1">
+            <Input
+              placeholder="Session token from another device"
+              value={claimToken}
+              onChange={(e) => setClaimToken(e.target.value)}
+              className="flex-1 font-mono"
+              data-testid="input-claim-session"
+            />
+            <Button
+              variant="secondary"
+              onClick={() => claimMutation.mutate(claimToken.trim())}
+              disabled={!claimToken.trim() || claimMutation.isPending}
+              data-testid="button-claim-session"
+            >
+              <Merge className="w-4 h-4 mr-2" />
+              Claim
+            </Button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Your notes are stored in an anonymous session on this device. Sign in to use them on other
+        devices, or claim this session from a signed-in device with its token:{" "}
+        <code className="bg-muted px-1 rounded break-all" data-testid="text-session-token">{sessionManager.getSessionId()}</code>
+      </p>
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">Username</Label>
+          <Input
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            className="mt-1"
+            data-testid="input-account-username"
+          />
+        </div>
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">Password</Label>
+          <Input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSubmit("login")}
+            autoComplete="current-password"
+            className="mt-1"
+            data-testid="input-account-password"
+          />
+        </div>
+      </div>
+      <div className="flex items-center space-x-2">
+        <Checkbox
+          id="account-keep-notes"
+          checked={keepNotes}
+          onCheckedChange={(checked) => setKeepNotes(checked === true)}
+          data-testid="checkbox-account-keep-notes"
+        />
+        <Label htmlFor="account-keep-notes" className="text-sm font-normal">
+          Bring this device's notes, variables and folders into the account
+        </Label>
+      </div>
+      <div className="flex space-x-2">
+        <Button
+          onClick={() => handleSubmit("login")}
+          disabled={signInMutation.isPending}
+          className="flex-1"
+          data-testid="button-sign-in"
+        >
+          <LogIn className="w-4 h-4 mr-2" />
+          Sign in
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => handleSubmit("register")}
+          disabled={signInMutation.isPending}
+          className="flex-1"
+          data-testid="button-register"
+        >
+          <UserPlus className="w-4 h-4 mr-2" />
+          Create account
+        </Button>
+      </div>
+    </div>
+  );
+}
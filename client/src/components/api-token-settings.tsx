@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Plus, Trash2, Copy } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { apiTokenScopes, type ApiTokenScope, type PublicApiToken } from "@shared/schema";
+
+const SCOPE_LABELS: Record<ApiTokenScope, string> = {
+  read: "Read notes, folders and variables",
+  write: "Create, edit and delete",
+  export: "Export all notes",
+};
+
+// Personal API tokens for scripts; shown as the API Tokens section of SettingsModal
+export default function ApiTokenSettings() {
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>(["read", "write"]);
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: tokens = [] } = useQuery<PublicApiToken[]>({
+    queryKey: ["/api/tokens"],
+  });
+
+  const createTokenMutation = useMutation({
+    mutationFn: async (data: { name: string; scopes: ApiTokenScope[] }) => {
+      const response = await apiRequest("POST", "/api/tokens", data);
+      return response.json() as Promise<{ token: PublicApiToken; secret: string }>;
+    },
+    onSuccess: ({ secret }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      setName("");
+      setCreatedSecret(secret);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to create token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const revokeTokenMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/tokens/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tokens"] });
+      toast({
+        title: "Token revoked",
+        description: "Scripts using it will no longer be able to sign in.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to revoke token. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes(current => checked ? [...current, scope] : current.filter(s => s !== scope));
+  };
+
+  const handleCreate = () => {
+    if (!name.trim() || scopes.length === 0) {
+      toast({
+        title: "Invalid input",
+        description: "A token needs a name and at least one scope.",
+        variant: "destructive",
+      });
+      return;
+    }
+    createTokenMutation.mutate({ name: name.trim(), scopes });
+  };
+
+  const handleCopy = async () => {
+    if (!createdSecret) return;
+    await navigator.clipboard.writeText(createdSecret);
+    toast({
+      title: "Copied",
+      description: "The token is on your clipboard.",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Tokens let scripts use the API as you, e.g.{" "}
+        <code className="bg-muted px-1 rounded">Authorization: Bearer nt_…</code>
+      </p>
+
+      {/* The secret can't be shown again once this is dismissed */}
+      {createdSecret && (
+        <div className="p-3 rounded-lg border border-primary/40 bg-primary/5 space-y-2" data-testid="api-token-created">
+          <p className="text-sm font-medium">Copy your new token now; it won't be shown again.</p>
+          <div className="flex items-center space-x-2">
+            <Input value={createdSecret} readOnly className="flex-1 font-mono text-xs" data-testid="input-api-token-secret" />
+            <Button variant="secondary" size="sm" onClick={handleCopy} data-testid="button-copy-api-token">
+              <Copy className="w-3 h-3" />
+            </Button>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => setCreatedSecret(null)} data-testid="button-dismiss-api-token">
+            Done
+          </Button>
+        </div>
+      )}
+
+      {tokens.length > 0 && (
+        <div className="space-y-2">
+          {tokens.map(token => (
+            <div
+              key={token.id}
+              className="flex items-center justify-between p-3 bg-accent/30 dark:bg-accent/20 rounded-lg"
+              data-testid={`api-token-${token.id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <KeyRound className="w-3 h-3 text-muted-foreground" />
+                  <span className="text-sm font-medium truncate">{token.name}</span>
+                  <code className="text-xs text-muted-foreground">{token.prefix}…</code>
+                </div>
+                <div className="flex items-center flex-wrap gap-1 mt-1">
+                  {token.scopes.map(scope => (
+                    <Badge key={scope} variant="secondary" className="text-xs">{scope}</Badge>
+                  ))}
+                  <span className="text-xs text-muted-foreground ml-1">
+                    {token.lastUsedAt
+                      ? `last used ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                      : "never used"}
+                  </span>
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  if (window.confirm(`Revoke "${token.name}"? Scripts using it will stop working.`)) {
+                    revokeTokenMutation.mutate(token.id);
+                  }
+                }}
+                className="text-muted-foreground hover:text-destructive ml-3"
+                data-testid={`button-revoke-api-token-${token.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 border-2 border-dashed border-border dark:border-border rounded-lg space-y-3">
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">Token Name</Label>
+          <Input
+            placeholder="e.g., CI notes"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            className="mt-1"
+            data-testid="input-api-token-name"
+          />
+        </div>
+        <div className="space-y-2">
+          {apiTokenScopes.map(scope => (
+            <div key={scope} className="flex items-center space-x-2">
+              <Checkbox
+                id={`api-token-scope-${scope}`}
+                checked={scopes.includes(scope)}
+                onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                data-testid={`checkbox-api-token-scope-${scope}`}
+              />
+              <Label htmlFor={`api-token-scope-${scope}`} className="text-sm font-normal">
+                <span className="font-medium">{scope}</span> · {SCOPE_LABELS[scope]}
+              </Label>
+            </div>
+          ))}
+        </div>
+        <Button
+          onClick={handleCreate}
+          disabled={createTokenMutation.isPending}
+          className="w-full"
+          data-testid="button-create-api-token"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {createTokenMutation.isPending ? 'Creating...' : 'Create Token'}
+        </Button>
+      </div>
+    </div>
+  );
+}
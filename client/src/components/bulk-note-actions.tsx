@@ -0,0 +1,195 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Folder, Tag, Trash2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import NoteDownload from "./note-download";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useTrashUndo, invalidateTrashQueries } from "@/hooks/use-trash";
+import { isValidTagName } from "@shared/tags";
+import type { Note } from "@shared/schema";
+
+interface BulkNoteActionsProps {
+  notes: Note[];
+  folderName?: string;
+  onDone: () => void;
+}
+
+const plural = (count: number) => `${count} note${count === 1 ? '' : 's'}`;
+
+// Actions on the notes selected in the timeline; NotesArea shows this bar while in select mode
+export default function BulkNoteActions({ notes, folderName, onDone }: BulkNoteActionsProps) {
+  const [tag, setTag] = useState("");
+  const [showTagPopover, setShowTagPopover] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { showUndoToast } = useTrashUndo();
+  const noteIds = notes.map(note => note.id);
+
+  const { data: folders = [] } = useQuery<string[]>({
+    queryKey: ["/api/folders"],
+  });
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  const trashNotesMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notes/trash", { noteIds });
+      return response.json() as Promise<{ noteIds: string[] }>;
+    },
+    onSuccess: ({ noteIds: trashed }) => {
+      invalidateTrashQueries(queryClient);
+      showUndoToast(`${plural(trashed.length)} moved to the trash`, trashed);
+      onDone();
+    },
+    onError: showError("delete notes"),
+  });
+
+  const moveNotesMutation = useMutation({
+    mutationFn: async (folder: string) => {
+      const response = await apiRequest("POST", "/api/notes/move", { noteIds, folder });
+      return response.json() as Promise<Note[]>;
+    },
+    onSuccess: (moved, folder) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      toast({ title: "Notes moved", description: `${plural(moved.length)} moved to ${folder}.` });
+    },
+    onError: showError("move notes"),
+  });
+
+  const retagNotesMutation = useMutation({
+    mutationFn: async (change: { add?: string[]; remove?: string[] }) => {
+      const response = await apiRequest("POST", "/api/notes/tags", { noteIds, ...change });
+      return response.json() as Promise<Note[]>;
+    },
+    onSuccess: (_notes, change) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setTag("");
+      setShowTagPopover(false);
+      toast({
+        title: "Tags updated",
+        description: change.add
+          ? `Added #${change.add[0]} to ${plural(noteIds.length)}.`
+          : `Removed #${change.remove![0]} from ${plural(noteIds.length)}.`,
+      });
+    },
+    onError: showError("update tags"),
+  });
+
+  // Tags on the selection, offered for removal
+  const selectedTags = Array.from(new Set(notes.flatMap(note => note.tags ?? []))).sort();
+  const tagName = tag.trim().replace(/^#/, "");
+  const isValidTag = isValidTagName(tagName);
+  const none = notes.length === 0;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 px-4 py-2 border-b border-border bg-accent/20" data-testid="bulk-note-actions">
+      <span className="text-sm font-medium" data-testid="text-selected-count">{notes.length} selected</span>
+
+      <Select value="" onValueChange={(folder) => moveNotesMutation.mutate(folder)} disabled={none || moveNotesMutation.isPending}>
+        <SelectTrigger className="h-8 w-auto text-xs" data-testid="select-bulk-move">
+          <Folder className="w-3 h-3 mr-1" />
+          <SelectValue placeholder="Move to..." />
+        </SelectTrigger>
+        <SelectContent>
+          {folders.map(folder => (
+            <SelectItem key={folder} value={folder}>{folder}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={showTagPopover} onOpenChange={setShowTagPopover}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" className="h-8 px-3 text-xs" disabled={none} data-testid="button-bulk-tag">
+            <Tag className="w-3 h-3 mr-1" />
+            Tag
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="start" className="w-72 space-y-3">
+          <div>
+            <Label htmlFor="bulk-tag">Tag</Label>
+            <Input
+              id="bulk-tag"
+              value={tag}
+              onChange={(e) => setTag(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && isValidTag) {
+                  retagNotesMutation.mutate({ add: [tagName] });
+                }
+              }}
+              placeholder="#tag"
+              className="mt-1"
+              data-testid="input-bulk-tag"
+            />
+          </div>
+          <div className="flex space-x-2">
+            <Button
+              size="sm"
+              className="flex-1"
+              onClick={() => retagNotesMutation.mutate({ add: [tagName] })}
+              disabled={!isValidTag || retagNotesMutation.isPending}
+              data-testid="button-bulk-add-tag"
+            >
+              Add
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              className="flex-1"
+              onClick={() => retagNotesMutation.mutate({ remove: [tagName] })}
+              disabled={!isValidTag || retagNotesMutation.isPending}
+              data-testid="button-bulk-remove-tag"
+            >
+              Remove
+            </Button>
+          </div>
+          {selectedTags.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {selectedTags.map(selectedTag => (
+                <button
+                  key={selectedTag}
+                  onClick={() => setTag(selectedTag)}
+                  className="px-2 py-0.5 rounded-full text-xs bg-accent text-accent-foreground hover:bg-accent/70"
+                  data-testid={`button-bulk-pick-tag-${selectedTag}`}
+                >
+                  #{selectedTag}
+                </button>
+              ))}
+            </div>
+          )}
+        </PopoverContent>
+      </Popover>
+
+      {!none && <NoteDownload notes={notes} folderName={folderName} />}
+
+      <Button
+        variant="destructive"
+        size="sm"
+        className="h-8 px-3 text-xs"
+        onClick={() => trashNotesMutation.mutate()}
+        disabled={none || trashNotesMutation.isPending}
+        data-testid="button-bulk-delete"
+      >
+        <Trash2 className="w-3 h-3 mr-1" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" className="h-8 px-2 text-xs ml-auto" onClick={onDone} data-testid="button-exit-select">
+        <X className="w-3 h-3 mr-1" />
+        Done
+      </Button>
+    </div>
+  );
+}
@@ -0,0 +1,100 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { formatTimestamp } from "@shared/datetime";
+import type { DisplayPreferences } from "@shared/schema";
+
+// Locales offered besides the browser's own; any valid tag is accepted by the API
+const LOCALES = ["en-US", "en-GB", "en-AU", "en-CA", "en-IN", "de-DE", "es-ES", "fr-FR", "it-IT", "ja-JP", "ko-KR", "nl-NL", "pl-PL", "pt-BR", "sv-SE", "zh-CN"];
+
+const DEVICE = "device";
+
+// Time zone, locale and clock used for every date shown; the Date & Time section of SettingsModal
+export default function DateTimeSettings() {
+  const { preferences, resolved, device } = useDisplayPreferences();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const timeZones = Intl.supportedValuesOf("timeZone");
+  const locales = Array.from(new Set([device.locale, ...LOCALES]));
+  const localeNames = new Intl.DisplayNames([resolved.locale], { type: "language" });
+
+  const updatePreferencesMutation = useMutation({
+    mutationFn: async (change: DisplayPreferences) => {
+      const response = await apiRequest("PUT", "/api/preferences", change);
+      return response.json() as Promise<DisplayPreferences>;
+    },
+    onSuccess: (updated) => {
+      queryClient.setQueryData(["/api/preferences"], updated);
+      // Computed variables like /today depend on the zone
+      queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save preferences: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const update = (field: keyof DisplayPreferences, value: string) => {
+    updatePreferencesMutation.mutate({ [field]: value === DEVICE ? null : value });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-medium">Time Zone</Label>
+        <Select value={preferences.timeZone ?? DEVICE} onValueChange={(value) => update("timeZone", value)}>
+          <SelectTrigger className="mt-1" data-testid="select-time-zone">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={DEVICE}>This device ({device.timeZone})</SelectItem>
+            {timeZones.map(zone => (
+              <SelectItem key={zone} value={zone}>{zone.replace(/_/g, " ")}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <Label className="text-sm font-medium">Date Format</Label>
+          <Select value={preferences.locale ?? DEVICE} onValueChange={(value) => update("locale", value)}>
+            <SelectTrigger className="mt-1" data-testid="select-locale">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEVICE}>This device ({device.locale})</SelectItem>
+              {locales.map(locale => (
+                <SelectItem key={locale} value={locale}>{localeNames.of(locale) ?? locale}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-sm font-medium">Clock</Label>
+          <Select value={preferences.hourCycle ?? DEVICE} onValueChange={(value) => update("hourCycle", value)}>
+            <SelectTrigger className="mt-1" data-testid="select-hour-cycle">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEVICE}>This device ({device.hourCycle}-hour)</SelectItem>
+              <SelectItem value="12">12-hour</SelectItem>
+              <SelectItem value="24">24-hour</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground" data-testid="text-date-time-example">
+        Dates will look like {formatTimestamp(new Date(), resolved, "dateTime")}. Shared by every device signed in to your account.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,142 @@
+import { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { ChevronDown, ChevronRight, Folder, FolderOpen, FolderPlus, Pencil, Trash2 } from "lucide-react";
+import { buildFolderTree, ancestorFolderPaths, type FolderNode } from "@shared/folders";
+
+interface FolderTreeProps {
+  folders: string[];
+  noteCounts: Record<string, number>; // Notes directly in each folder, as /api/notes/folder-counts returns them
+  selectedFolder?: string | null;
+  onFolderSelect?: (folder: string | null) => void;
+  onCreateSubfolder?: (parent: string) => void;
+  onRename?: (folder: string) => void;
+  onDelete?: (folder: string, noteCount: number) => void;
+  testIdPrefix?: string;
+}
+
+export default function FolderTree({
+  folders,
+  noteCounts,
+  selectedFolder,
+  onFolderSelect,
+  onCreateSubfolder,
+  onRename,
+  onDelete,
+  testIdPrefix = "folder",
+}: FolderTreeProps) {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set());
+
+  const tree = useMemo(() => buildFolderTree(["General", ...folders]), [folders]);
+
+  // Count notes per folder, then roll the counts up so each folder shows its whole subtree
+  const subtreeCounts = useMemo(() => {
+    const counts: Record<string, number> = { ...noteCounts };
+
+    const total = (node: FolderNode): number => {
+      counts[node.path] = (counts[node.path] || 0) + node.children.reduce((sum, child) => sum + total(child), 0);
+      return counts[node.path];
+    };
+    tree.forEach(total);
+    return counts;
+  }, [noteCounts, tree]);
+
+  // Keep the selected folder visible, e.g. after a rename or when it's chosen elsewhere
+  useEffect(() => {
+    if (!selectedFolder) return;
+    const ancestors = ancestorFolderPaths(selectedFolder);
+    if (ancestors.every(path => expanded.has(path))) return;
+    setExpanded(prev => new Set([...Array.from(prev), ...ancestors]));
+  }, [selectedFolder]);
+
+  const toggle = (path: string) => {
+    setExpanded(prev => {
+      const next = new Set(Array.from(prev));
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: FolderNode, depth: number) => {
+    const isExpanded = expanded.has(node.path);
+    const isSelected = selectedFolder === node.path;
+    const count = subtreeCounts[node.path] || 0;
+    const hasActions = node.path !== "General" && (onCreateSubfolder || onRename || onDelete);
+
+    return (
+      <div key={node.path}>
+        <div className="group relative">
+          <Button
+            variant={isSelected ? "secondary" : "ghost"}
+            size="sm"
+            className="w-full justify-between text-left"
+            style={{ paddingLeft: `${0.5 + depth * 0.75}rem` }}
+            onClick={() => onFolderSelect?.(node.path)}
+            data-testid={`${testIdPrefix}-${node.path}`}
+          >
+            <span className="flex items-center min-w-0">
+              {node.children.length > 0 ? (
+                <span
+                  role="button"
+                  className="mr-1 text-muted-foreground hover:text-foreground"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    toggle(node.path);
+                  }}
+                  data-testid={`button-toggle-${testIdPrefix}-${node.path}`}
+                >
+                  {isExpanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+                </span>
+              ) : (
+                <span className="w-3 mr-1" />
+              )}
+              {isSelected ? <FolderOpen className="w-3 h-3 mr-2 shrink-0" /> : <Folder className="w-3 h-3 mr-2 shrink-0" />}
+              <span className="truncate">{node.name}</span>
+            </span>
+            <span className="text-xs text-muted-foreground">{count}</span>
+          </Button>
+          {hasActions && (
+            <div className="absolute right-8 top-1/2 -translate-y-1/2 hidden group-hover:flex items-center">
+              {onCreateSubfolder && (
+                <button
+                  onClick={() => onCreateSubfolder(node.path)}
+                  className="p-1 text-muted-foreground hover:text-foreground"
+                  title="New subfolder"
+                  data-testid={`button-add-subfolder-${node.path}`}
+                >
+                  <FolderPlus className="w-3 h-3" />
+                </button>
+              )}
+              {onRename && (
+                <button
+                  onClick={() => onRename(node.path)}
+                  className="p-1 text-muted-foreground hover:text-foreground"
+                  title="Rename folder"
+                  data-testid={`button-rename-folder-${node.path}`}
+                >
+                  <Pencil className="w-3 h-3" />
+                </button>
+              )}
+              {onDelete && (
+                <button
+                  onClick={() => onDelete(node.path, count)}
+                  className="p-1 text-muted-foreground hover:text-red-500"
+                  title="Delete folder"
+                  data-testid={`button-delete-folder-${node.path}`}
+                >
+                  <Trash2 className="w-3 h-3" />
+                </button>
+              )}
+            </div>
+          )}
+        </div>
+        {isExpanded && node.children.map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  return <div className="space-y-1">{tree.map(node => renderNode(node, 0))}</div>;
+}
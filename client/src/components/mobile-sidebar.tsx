@@ -1,9 +1,19 @@
+import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
+import { Link } from "wouter";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Settings, Download, Filter, Moon, Sun, Menu } from "lucide-react";
+import { Settings, Download, Filter, Moon, Sun, Tags, Menu, Trash2 } from "lucide-react";
 import { useThemeContext } from "./theme-provider";
-import type { Note, Variable } from "@shared/schema";
+import NoteSearch from "./note-search";
+import FolderTree from "./folder-tree";
+import TrashBin from "./trash-bin";
+import TagList from "./tag-list";
+import TagManager from "./tag-manager";
+import SavedSearchList from "./saved-search-list";
+import { useTags } from "@/hooks/use-tags";
+import type { SavedSearch, TrashContents, Variable } from "@shared/schema";
+import { activeVariableValues } from "@shared/variables";
 
 interface MobileSidebarProps {
   onSettingsClick: () => void;
@@ -11,12 +21,18 @@ interface MobileSidebarProps {
   onTagSelect: (tag: string | null) => void;
   selectedFolder?: string | null;
   onFolderSelect?: (folder: string | null) => void;
+  selectedQuery?: string | null;
+  onQuerySelect?: (query: string | null) => void;
 }
 
-export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelect, selectedFolder, onFolderSelect }: MobileSidebarProps) {
+export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelect, selectedFolder, onFolderSelect, selectedQuery, onQuerySelect }: MobileSidebarProps) {
   const { theme, toggleTheme } = useThemeContext();
-  const { data: notes = [] } = useQuery<Note[]>({
-    queryKey: ["/api/notes"],
+  const [showTrash, setShowTrash] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const { tags } = useTags();
+  // Under /api/notes so anything that changes notes refreshes the counts too
+  const { data: folderCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/notes", "folder-counts"],
   });
 
   const { data: variables = [] } = useQuery<Variable[]>({
@@ -27,13 +43,13 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
     queryKey: ["/api/folders"],
   });
 
-  // Get unique tags with counts
-  const tagCounts = notes.reduce((acc, note) => {
-    note.tags?.forEach(tag => {
-      acc[tag] = (acc[tag] || 0) + 1;
-    });
-    return acc;
-  }, {} as Record<string, number>);
+  const { data: trash } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+
+  const { data: savedSearches = [] } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
 
   const handleExport = async (format: 'text' | 'json') => {
     try {
@@ -57,15 +73,6 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
     }
   };
 
-  const tagColors = [
-    'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
-    'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300', 
-    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
-    'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
-    'bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300',
-    'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
-  ];
-
   return (
     <Sheet>
       <SheetTrigger asChild>
@@ -79,6 +86,16 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
         </SheetHeader>
         
         <div className="flex flex-col h-full mt-6">
+          {/* Search */}
+          <div className="mb-4">
+            <NoteSearch
+              onResultSelect={() => {
+                onTagSelect(null);
+                onFolderSelect?.(null);
+              }}
+            />
+          </div>
+
           {/* Quick Actions */}
           <div className="space-y-2">
             <Button
@@ -111,7 +128,7 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
               Export Notes
             </Button>
             <Button
-              variant={!selectedTag && !selectedFolder ? "secondary" : "ghost"}
+              variant={!selectedTag && !selectedFolder && !selectedQuery ? "secondary" : "ghost"}
               className="w-full justify-start"
               onClick={() => {
                 onTagSelect(null);
@@ -122,35 +139,56 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
               <Filter className="w-4 h-4 mr-3" />
               🏠 Home - All Notes
             </Button>
+            <Button
+              variant="ghost"
+              className="w-full justify-between"
+              onClick={() => setShowTrash(true)}
+              data-testid="button-mobile-trash"
+            >
+              <span className="flex items-center">
+                <Trash2 className="w-4 h-4 mr-3" />
+                Trash
+              </span>
+              {trash && trash.notes.length > 0 && (
+                <span className="text-xs text-muted-foreground">{trash.notes.length}</span>
+              )}
+            </Button>
           </div>
 
-          {/* Tags Filter */}
-          {Object.keys(tagCounts).length > 0 && (
+          {/* Saved Searches */}
+          {savedSearches.length > 0 && (
             <div className="mt-6">
               <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3">
-                Tags
+                Saved Searches
               </h3>
-              <div className="space-y-1">
-                {Object.entries(tagCounts).map(([tag, count], index) => (
-                  <Button
-                    key={tag}
-                    variant="ghost"
-                    className={`w-full justify-between text-sm ${
-                      selectedTag === tag ? 'bg-accent text-accent-foreground' : ''
-                    }`}
-                    onClick={() => onTagSelect(tag === selectedTag ? null : tag)}
-                    data-testid={`button-mobile-tag-${tag}`}
-                  >
-                    <span className="flex items-center">
-                      <span className={`w-2 h-2 rounded-full mr-2 ${
-                        tagColors[index % tagColors.length].split(' ')[0]
-                      }`} />
-                      {tag}
-                    </span>
-                    <span className="text-xs text-muted-foreground">{count}</span>
-                  </Button>
-                ))}
+              <SavedSearchList
+                searches={savedSearches}
+                selectedQuery={selectedQuery ?? null}
+                onQuerySelect={(query) => onQuerySelect?.(query)}
+                testIdPrefix="button-mobile-saved-search"
+              />
+            </div>
+          )}
+
+          {/* Tags Filter */}
+          {tags.some(tag => tag.count > 0) && (
+            <div className="mt-6">
+              <div className="flex items-center justify-between mb-3">
+                <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+                  Tags
+                </h3>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => setShowTagManager(true)}
+                  title="Manage tags"
+                  data-testid="button-mobile-manage-tags"
+                >
+                  <Tags className="h-3 w-3" />
+                </Button>
               </div>
+              <TagList tags={tags} selectedTag={selectedTag} onTagSelect={onTagSelect} testIdPrefix="button-mobile-tag" />
             </div>
           )}
 
@@ -159,27 +197,13 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
             <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3">
               Folders
             </h3>
-            <div className="space-y-1">
-              {["General", ...folders.filter(f => f !== "General")].map((folder) => {
-                const count = notes.filter(note => (note.folder || "General") === folder).length;
-                return (
-                  <Button
-                    key={folder}
-                    variant="ghost"
-                    className={`w-full justify-between text-sm ${
-                      selectedFolder === folder ? 'bg-accent text-accent-foreground' : ''
-                    }`}
-                    onClick={() => onFolderSelect?.(folder === selectedFolder ? null : folder)}
-                    data-testid={`button-mobile-folder-${folder}`}
-                  >
-                    <span className="flex items-center">
-                      📁 {folder}
-                    </span>
-                    <span className="text-xs text-muted-foreground">{count}</span>
-                  </Button>
-                );
-              })}
-            </div>
+            <FolderTree
+              folders={folders}
+              noteCounts={folderCounts}
+              selectedFolder={selectedFolder}
+              onFolderSelect={(folder) => onFolderSelect?.(folder === selectedFolder ? null : folder)}
+              testIdPrefix="button-mobile-folder"
+            />
           </div>
 
           {/* Variables Quick Reference */}
@@ -191,9 +215,11 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
               <div className="space-y-1 text-xs">
                 {variables.slice(0, 5).map((variable) => (
                   <div key={variable.id} className="flex items-center justify-between py-1">
-                    <code className="text-primary">/{variable.name}</code>
+                    <Link href={`/variables/${encodeURIComponent(variable.name)}`} className="hover:underline">
+                      <code className="text-primary">/{variable.name}</code>
+                    </Link>
                     <span className="text-muted-foreground truncate ml-2 max-w-[100px]">
-                      {variable.values && variable.values.length > 0 ? variable.values[0] : 'No values'}
+                      {variable.expression ? `= ${variable.expression}` : activeVariableValues(variable)[0] ?? 'No values'}
                     </span>
                   </div>
                 ))}
@@ -207,6 +233,9 @@ export default function MobileSidebar({ onSettingsClick, selectedTag, onTagSelec
           )}
         </div>
       </SheetContent>
+
+      <TrashBin open={showTrash} onOpenChange={setShowTrash} />
+      <TagManager open={showTagManager} onOpenChange={setShowTagManager} />
     </Sheet>
   );
 }
\ No newline at end of file
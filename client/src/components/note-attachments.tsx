@@ -0,0 +1,64 @@
+import { FileText } from "lucide-react";
+import type { Attachment } from "@shared/schema";
+
+interface NoteAttachmentsProps {
+  attachments: Attachment[];
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+export default function NoteAttachments({ attachments }: NoteAttachmentsProps) {
+  if (attachments.length === 0) return null;
+
+  const images = attachments.filter(a => a.contentType.startsWith('image/') && a.contentType !== 'image/svg+xml');
+  const files = attachments.filter(a => !images.includes(a));
+
+  return (
+    <div className="mt-2 space-y-2">
+      {/* Image thumbnails */}
+      {images.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {images.map((attachment) => (
+            <a
+              key={attachment.id}
+              href={`/api/attachments/${attachment.id}`}
+              target="_blank"
+              rel="noreferrer"
+              title={attachment.fileName}
+              data-testid={`attachment-${attachment.id}`}
+            >
+              <img
+                src={`/api/attachments/${attachment.id}`}
+                alt={attachment.fileName}
+                loading="lazy"
+                className="h-24 w-24 object-cover rounded-md border border-border hover:opacity-90 transition-opacity"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+
+      {/* Other files */}
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((attachment) => (
+            <a
+              key={attachment.id}
+              href={`/api/attachments/${attachment.id}?download`}
+              className="flex items-center space-x-2 bg-accent/50 dark:bg-accent/30 rounded-md px-2 py-1 text-xs hover:bg-accent transition-colors"
+              data-testid={`attachment-${attachment.id}`}
+            >
+              <FileText className="w-3 h-3" />
+              <span className="truncate max-w-40">{attachment.fileName}</span>
+              <span className="text-muted-foreground">{formatFileSize(attachment.size)}</span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,19 +1,29 @@
 import { Download, ChevronDown } from "lucide-react";
-import { format } from "date-fns";
 import { useToast } from "@/hooks/use-toast";
 import { useState, useEffect, useRef } from "react";
 import type { Note, Variable } from "@shared/schema";
 import { useQuery } from "@tanstack/react-query";
+import { getNoteTokens } from "@/lib/note-content";
+import { tokenText } from "@shared/tokens";
+import { dayKey, formatTimestamp } from "@shared/datetime";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
 
 interface NoteDownloadProps {
   notes: Note[];
+  // When notes is only what's loaded so far, fetches the complete set at download time
+  loadNotes?: () => Promise<Note[]>;
   folderName?: string;
 }
 
-export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
+export default function NoteDownload({ notes: loadedNotes, loadNotes, folderName }: NoteDownloadProps) {
   const { toast } = useToast();
   const [showDropdown, setShowDropdown] = useState(false);
   const dropdownRef = useRef<HTMLDivElement>(null);
+  const { resolved: displayPreferences } = useDisplayPreferences();
 
   const { data: variables = [] } = useQuery<Variable[]>({
     queryKey: ["/api/variables"],
@@ -31,9 +41,30 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
   }, []);
 
 
-  const downloadNotesAsHTML = () => {
+  const download = async (format: 'html' | 'markdown') => {
+    let notes = loadedNotes;
+    if (loadNotes) {
+      try {
+        notes = await loadNotes();
+      } catch (error) {
+        toast({
+          title: "Download failed",
+          description: `Failed to load the notes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+    if (format === 'html') {
+      downloadNotesAsHTML(notes);
+    } else {
+      downloadNotesAsMarkdown(notes);
+    }
+  };
+
+  const downloadNotesAsHTML = (notes: Note[]) => {
     const sortedNotes = [...notes].sort((a, b) => 
-      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()
     );
     
     const html = `<!DOCTYPE html>
@@ -41,7 +72,7 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
 <head>
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>${folderName ? `${folderName} Notes` : 'Notes'} - ${format(new Date(), 'MMM d, yyyy')}</title>
+    <title>${folderName ? `${folderName} Notes` : 'Notes'} - ${formatTimestamp(new Date(), displayPreferences, 'date')}</title>
     <style>
         body {
             font-family: Georgia, serif;
@@ -138,35 +169,24 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
 <body>
     <div class="header">
         <div class="title">${folderName ? `${folderName} Notes` : 'All Notes'}</div>
-        <div class="subtitle">Generated on ${format(new Date(), 'MMMM d, yyyy h:mm a')}</div>
+        <div class="subtitle">Generated on ${formatTimestamp(new Date(), displayPreferences, 'dateTime')}</div>
     </div>
     
     <div class="stats">
-        Total Notes: ${sortedNotes.length} | Date Range: ${format(new Date(sortedNotes[0]?.createdAt), 'MMM d, yyyy')} - ${format(new Date(sortedNotes[sortedNotes.length - 1]?.createdAt), 'MMM d, yyyy')}
+        Total Notes: ${sortedNotes.length} | Date Range: ${formatTimestamp(sortedNotes[0]?.occurredAt, displayPreferences, 'date')} - ${formatTimestamp(sortedNotes[sortedNotes.length - 1]?.occurredAt, displayPreferences, 'date')}
     </div>
     
     ${sortedNotes.map(note => {
-      // Start with the content that has both variables and resolved values
-      let content = note.content || note.originalContent;
-      
-      // Escape HTML to prevent issues
-      content = content.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-      
-      // Process resolved variable values first (text wrapped in zero-width spaces)
-      content = content.replace(/\u200B([^\u200B]+)\u200B/g, '<span class="variable">$1</span>');
-      
-      // Process variable references (like /user, /company, etc.)
-      if (variables.length > 0) {
-        variables.forEach(variable => {
-          const variablePattern = new RegExp(`\\/${variable.name}\\b`, 'g');
-          content = content.replace(variablePattern, '<span class="variable">/${variable.name}</span>');
-        });
-      }
+      // Highlight variables and resolved values; everything else is escaped text
+      const content = getNoteTokens(note, variables).map(token => {
+        const text = escapeHtml(tokenText(token));
+        return token.type === 'variable' || token.type === 'value' ? `<span class="variable">${text}</span>` : text;
+      }).join('');
       
       return `
     <div class="note">
         <div class="note-header">
-            <div class="timestamp">${format(new Date(note.createdAt), 'MMMM d, yyyy h:mm a')}</div>
+            <div class="timestamp">${formatTimestamp(note.occurredAt, displayPreferences, 'dateTime')}</div>
             ${note.tags && note.tags.length > 0 ? `
             <div class="tags">
                 ${note.tags.map(tag => `<span class="tag">#${tag}</span>`).join('')}
@@ -192,8 +212,8 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
     const a = document.createElement('a');
     a.href = url;
     const fileName = folderName 
-      ? `${folderName}-notes-${format(new Date(), 'yyyy-MM-dd')}.html`
-      : `all-notes-${format(new Date(), 'yyyy-MM-dd')}.html`;
+      ? `${folderName}-notes-${dayKey(new Date(), displayPreferences.timeZone)}.html`
+      : `all-notes-${dayKey(new Date(), displayPreferences.timeZone)}.html`;
     a.download = fileName;
     document.body.appendChild(a);
     a.click();
@@ -206,19 +226,19 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
     });
   };
 
-  const downloadNotesAsMarkdown = () => {
+  const downloadNotesAsMarkdown = (notes: Note[]) => {
     const sortedNotes = [...notes].sort((a, b) => 
-      new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime()
     );
 
     let markdownContent = `# ${folderName ? `${folderName} Notes` : 'All Notes'}\n\n`;
-    markdownContent += `*Generated on ${format(new Date(), 'MMMM d, yyyy h:mm a')}*\n\n`;
+    markdownContent += `*Generated on ${formatTimestamp(new Date(), displayPreferences, 'dateTime')}*\n\n`;
     markdownContent += `**Total Notes:** ${sortedNotes.length}  \n`;
-    markdownContent += `**Date Range:** ${format(new Date(sortedNotes[0]?.createdAt), 'MMM d, yyyy')} - ${format(new Date(sortedNotes[sortedNotes.length - 1]?.createdAt), 'MMM d, yyyy')}\n\n`;
+    markdownContent += `**Date Range:** ${formatTimestamp(sortedNotes[0]?.occurredAt, displayPreferences, 'date')} - ${formatTimestamp(sortedNotes[sortedNotes.length - 1]?.occurredAt, displayPreferences, 'date')}\n\n`;
 
     sortedNotes.forEach((note, index) => {
       markdownContent += `## Note ${index + 1}\n\n`;
-      markdownContent += `**Date:** ${format(new Date(note.createdAt), 'MMMM d, yyyy h:mm a')}\n\n`;
+      markdownContent += `**Date:** ${formatTimestamp(note.occurredAt, displayPreferences, 'dateTime')}\n\n`;
       
       if (note.tags && note.tags.length > 0) {
         markdownContent += `**Tags:** ${note.tags.map(tag => `#${tag}`).join(', ')}\n\n`;
@@ -228,19 +248,10 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
         markdownContent += `**Folder:** ${note.folder}\n\n`;
       }
       
-      // Process content for markdown with backticks
-      let content = note.content || note.originalContent;
-      
-      // Process resolved variable values first (text wrapped in zero-width spaces)
-      content = content.replace(/\u200B([^\u200B]+)\u200B/g, '`$1`');
-      
-      // Process variable references (like /user, /company, etc.)
-      if (variables.length > 0) {
-        variables.forEach(variable => {
-          const variablePattern = new RegExp(`\\/${variable.name}\\b`, 'g');
-          content = content.replace(variablePattern, `\`/${variable.name}\``);
-        });
-      }
+      // Process content for markdown with backticks around variables and resolved values
+      const content = getNoteTokens(note, variables).map(token =>
+        token.type === 'variable' || token.type === 'value' ? `\`${tokenText(token)}\`` : tokenText(token)
+      ).join('');
       
       markdownContent += `${content}\n\n`;
       
@@ -254,8 +265,8 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
     const a = document.createElement('a');
     a.href = url;
     const fileName = folderName 
-      ? `${folderName}-notes-${format(new Date(), 'yyyy-MM-dd')}.md`
-      : `all-notes-${format(new Date(), 'yyyy-MM-dd')}.md`;
+      ? `${folderName}-notes-${dayKey(new Date(), displayPreferences.timeZone)}.md`
+      : `all-notes-${dayKey(new Date(), displayPreferences.timeZone)}.md`;
     a.download = fileName;
     document.body.appendChild(a);
     a.click();
@@ -273,7 +284,7 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
       <button
         onClick={() => setShowDropdown(!showDropdown)}
         className="flex items-center space-x-1 px-2 py-1 text-xs bg-blue-500 hover:bg-blue-600 text-white rounded transition-colors duration-200"
-        title={`Download ${notes.length} notes`}
+        title={loadNotes ? 'Download all matching notes' : `Download ${loadedNotes.length} notes`}
       >
         <Download className="w-3 h-3" />
         <span>Download</span>
@@ -284,7 +295,7 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
         <div className="absolute right-0 mt-1 bg-white border border-gray-200 rounded-md shadow-lg z-10 min-w-[120px]">
           <button
             onClick={() => {
-              downloadNotesAsHTML();
+              download('html');
               setShowDropdown(false);
             }}
             className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-50 text-gray-700"
@@ -293,7 +304,7 @@ export default function NoteDownload({ notes, folderName }: NoteDownloadProps) {
           </button>
           <button
             onClick={() => {
-              downloadNotesAsMarkdown();
+              download('markdown');
               setShowDropdown(false);
             }}
             className="block w-full px-3 py-2 text-left text-sm hover:bg-gray-50 text-gray-700"
@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Eye, Upload, AlertTriangle } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { apiUpload } from '@/lib/queryClient';
+import { useDisplayPreferences } from '@/hooks/use-display-preferences';
+import { formatTimestamp } from '@shared/datetime';
+import type { CsvColumnMapping, NoteImportFormat, NoteImportPreview } from '@shared/schema';
+
+interface NoteImporterProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const FORMAT_LABELS: Record<NoteImportFormat, string> = {
+  json: 'NoteTimes JSON export',
+  markdown: 'Markdown',
+  text: 'Plain text',
+  csv: 'CSV',
+};
+
+const MAPPING_FIELDS: Array<{ field: keyof CsvColumnMapping; label: string }> = [
+  { field: 'content', label: 'Note text' },
+  { field: 'occurredAt', label: 'Date' },
+  { field: 'tags', label: 'Tags' },
+  { field: 'folder', label: 'Folder' },
+];
+
+// Notes shown in the preview; the summary counts still cover the whole file
+const PREVIEW_LIMIT = 100;
+
+// Previews an import with a dry run, then imports the same file with the same options
+export default function NoteImporter({ open, onOpenChange }: NoteImporterProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [importFormat, setImportFormat] = useState<NoteImportFormat | 'auto'>('auto');
+  const [mapping, setMapping] = useState<Partial<CsvColumnMapping>>({});
+  const [columns, setColumns] = useState<string[] | null>(null);
+  const [includeDuplicates, setIncludeDuplicates] = useState(false);
+  const [preview, setPreview] = useState<NoteImportPreview | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { resolved: displayPreferences } = useDisplayPreferences();
+
+  const reset = () => {
+    setFile(null);
+    setImportFormat('auto');
+    setMapping({});
+    setColumns(null);
+    setIncludeDuplicates(false);
+    setPreview(null);
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (dryRun: boolean) => {
+      const formData = new FormData();
+      formData.append('file', file!);
+      if (importFormat !== 'auto') formData.append('format', importFormat);
+      if (mapping.content) formData.append('mapping', JSON.stringify(mapping));
+      formData.append('dryRun', String(dryRun));
+      formData.append('skipDuplicates', String(!includeDuplicates));
+      const response = await apiUpload('/api/import', formData);
+      return response.json() as Promise<NoteImportPreview>;
+    },
+    onSuccess: (result) => {
+      setPreview(result);
+      // Keep the guessed CSV mapping so it can be adjusted from there
+      if (result.columns) setColumns(result.columns);
+      if (result.mapping) setMapping(result.mapping);
+      if (!result.imported) return;
+
+      queryClient.invalidateQueries({ queryKey: ['/api/notes'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/tags'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/folders'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/variables'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/variables/computed'] });
+      toast({
+        title: 'Notes imported',
+        description: `Imported ${result.imported.notes} notes and ${result.imported.variables} variables.`,
+      });
+      reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: 'Import failed',
+        description: `Failed to import notes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: 'destructive',
+      });
+    },
+  });
+
+  // Any change to what would be imported makes the current preview stale
+  const changeOptions = (change: () => void) => {
+    change();
+    setPreview(null);
+  };
+
+  const newNotes = preview?.notes.filter(note => !note.duplicate).length ?? 0;
+  const duplicateNotes = (preview?.notes.length ?? 0) - newNotes;
+  const notesToImport = includeDuplicates ? preview?.notes.length ?? 0 : newNotes;
+  const changedVariables = preview?.variables.filter(variable => variable.status !== 'unchanged') ?? [];
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) reset(); onOpenChange(isOpen); }}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Notes</DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>File</Label>
+              <Input
+                type="file"
+                accept=".json,.md,.markdown,.txt,.csv,.tsv"
+                onChange={(e) => changeOptions(() => {
+                  setFile(e.target.files?.[0] ?? null);
+                  setMapping({});
+                  setColumns(null);
+                })}
+                className="mt-1"
+                data-testid="input-import-notes-file"
+              />
+            </div>
+            <div>
+              <Label>Format</Label>
+              <Select
+                value={importFormat}
+                onValueChange={(value) => changeOptions(() => setImportFormat(value as NoteImportFormat | 'auto'))}
+              >
+                <SelectTrigger className="mt-1" data-testid="select-import-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect from file name</SelectItem>
+                  {(Object.keys(FORMAT_LABELS) as NoteImportFormat[]).map(key => (
+                    <SelectItem key={key} value={key}>{FORMAT_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            Markdown and text files need timestamp headings such as "## 2026-10-19 14:30", or a date
+            heading followed by lines starting with a time. Nothing is imported until you confirm the preview.
+          </p>
+
+          {/* CSV column mapping, once the header row is known */}
+          {columns && (
+            <div className="grid grid-cols-2 gap-3" data-testid="import-column-mapping">
+              {MAPPING_FIELDS.map(({ field, label }) => (
+                <div key={field}>
+                  <Label>{label} column</Label>
+                  <Select
+                    value={mapping[field] ?? 'none'}
+                    onValueChange={(value) => changeOptions(() => setMapping({ ...mapping, [field]: value === 'none' ? undefined : value }))}
+                  >
+                    <SelectTrigger className="mt-1" data-testid={`select-import-column-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">{field === 'content' ? 'Choose a column' : 'Not imported'}</SelectItem>
+                      {columns.filter(Boolean).map(column => (
+                        <SelectItem key={column} value={column}>{column}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="import-duplicates"
+              checked={includeDuplicates}
+              onCheckedChange={(checked) => setIncludeDuplicates(checked === true)}
+              data-testid="checkbox-import-duplicates"
+            />
+            <Label htmlFor="import-duplicates" className="text-sm font-normal">
+              Import duplicates too
+            </Label>
+          </div>
+
+          {preview && (
+            <div className="space-y-3" data-testid="import-preview">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{newNotes} new notes</Badge>
+                <Badge variant="outline">{duplicateNotes} duplicates</Badge>
+                <Badge variant="outline">{changedVariables.length} variables to add or update</Badge>
+                {preview.errors.length > 0 && (
+                  <Badge variant="destructive">{preview.errors.length} problems</Badge>
+                )}
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="rounded border border-destructive/40 p-2 text-xs space-y-1 max-h-32 overflow-y-auto">
+                  {preview.errors.map((issue, index) => (
+                    <div key={index} className="flex items-start gap-1">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 text-destructive shrink-0" />
+                      <span><span className="font-medium">{issue.location}:</span> {issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {preview.variables.length > 0 && (
+                <div className="rounded border border-border p-2 text-xs space-y-1 max-h-32 overflow-y-auto">
+                  {preview.variables.map(variable => (
+                    <div key={variable.name} data-testid={`import-variable-${variable.name}`}>
+                      <span className="font-mono">/{variable.name}</span>{' '}
+                      <span className="text-muted-foreground">
+                        {variable.status === 'new' && `new, ${variable.addedValues.length} values`}
+                        {variable.status === 'merge' && `adds ${variable.addedValues.join(', ')}`}
+                        {variable.status === 'unchanged' && 'nothing new'}
+                      </span>
+                      {variable.conflict && (
+                        <span className="text-amber-600 dark:text-amber-400"> · {variable.conflict}</span>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              <div className="rounded border border-border divide-y divide-border max-h-64 overflow-y-auto">
+                {preview.notes.slice(0, PREVIEW_LIMIT).map((note, index) => (
+                  <div
+                    key={index}
+                    className={`p-2 text-xs ${note.duplicate ? 'opacity-60' : ''}`}
+                    data-testid={`import-note-${index}`}
+                  >
+                    <div className="flex items-center gap-2 text-muted-foreground">
+                      <span>{formatTimestamp(note.occurredAt, displayPreferences, 'dateTime')}</span>
+                      {note.folder !== 'General' && <span>{note.folder}</span>}
+                      {note.duplicate && (
+                        <Badge variant="outline" className="text-[10px]">
+                          {note.duplicate === 'existing' ? 'already in your notes' : 'repeated in file'}
+                        </Badge>
+                      )}
+                    </div>
+                    <div className="whitespace-pre-wrap line-clamp-3">{note.content}</div>
+                  </div>
+                ))}
+                {preview.notes.length > PREVIEW_LIMIT && (
+                  <div className="p-2 text-xs text-muted-foreground">
+                    …and {preview.notes.length - PREVIEW_LIMIT} more
+                  </div>
+                )}
+              </div>
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => importMutation.mutate(true)}
+              disabled={!file || importMutation.isPending}
+              className="flex-1"
+              data-testid="button-preview-import"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              onClick={() => importMutation.mutate(false)}
+              disabled={!preview || (notesToImport === 0 && changedVariables.length === 0) || importMutation.isPending}
+              className="flex-1"
+              data-testid="button-confirm-import"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importMutation.isPending ? 'Importing...' : `Import ${notesToImport} notes`}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -2,24 +2,42 @@ import { useState, useRef, useEffect } from "react";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tag, Image, FileText, Folder } from "lucide-react";
 import { format } from "date-fns";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, apiUpload } from "@/lib/queryClient";
+import { processNoteContent } from "@/lib/note-content";
+import { activeVariableValues, matchVariableValue, pickVariableValue, PICKED_VALUE_MARKER } from "@shared/variables";
+import { parseNoteText, tokenText } from "@shared/tokens";
+import { parseTimePrefix } from "@shared/time-prefix";
+import { extractTags } from "@shared/tags";
+import { dayKey, formatTimestamp, fromZonedTime, toZonedTime } from "@shared/datetime";
 import { useToast } from "@/hooks/use-toast";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { useTags } from "@/hooks/use-tags";
+import { tagDotClass } from "@/lib/tag-colors";
+import { sessionFetch } from "@/lib/session";
 import FileUploader from "./file-uploader";
-import type { Variable, InsertNote } from "@shared/schema";
+import type { Variable, VariableValue, InsertNote, Note, ComputedVariablePreview, TagSummary } from "@shared/schema";
 
 export default function NoteInput() {
   const [content, setContent] = useState("");
   const [currentTime, setCurrentTime] = useState("");
+  const [pickedTime, setPickedTime] = useState<Date | null>(null);
   const [selectedFolder, setSelectedFolder] = useState("General");
   const [showAutocomplete, setShowAutocomplete] = useState(false);
   const [autocompletePosition, setAutocompletePosition] = useState(0);
   const [filteredOptions, setFilteredOptions] = useState<Array<{
-    type: 'variable' | 'value';
-    variable: Variable;
+    type: 'variable' | 'value' | 'computed' | 'tag';
+    name: string;
+    variable?: Variable;
+    tag?: TagSummary;
     value?: string;
+    valueDetails?: VariableValue;
+    preview?: ComputedVariablePreview;
     matchedText: string;
   }>>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
@@ -28,24 +46,54 @@ export default function NoteInput() {
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  // Times typed or picked here are wall-clock times in the chosen zone, which is saved with the note
+  const { resolved: displayPreferences } = useDisplayPreferences();
+  const { timeZone } = displayPreferences;
 
   const { data: variables = [] } = useQuery<Variable[]>({
     queryKey: ["/api/variables"],
   });
 
+  const { tags } = useTags();
+
+  // What /today, /counter and expression variables would insert right now
+  const { data: computedVariables = [] } = useQuery<ComputedVariablePreview[]>({
+    queryKey: ["/api/variables/computed", timeZone],
+    queryFn: async () => {
+      const res = await sessionFetch(`/api/variables/computed?${new URLSearchParams({ timeZone })}`);
+      if (!res.ok) {
+        throw new Error(`${res.status}: ${(await res.text()) || res.statusText}`);
+      }
+      return await res.json();
+    },
+    refetchInterval: 60000,
+  });
 
   const { data: folders = [] } = useQuery<string[]>({
     queryKey: ["/api/folders"],
   });
 
   const createNoteMutation = useMutation({
-    mutationFn: async (note: InsertNote) => {
+    mutationFn: async ({ note, files }: { note: InsertNote; files: File[] }) => {
       const response = await apiRequest("POST", "/api/notes", note);
-      return response.json();
+      const created: Note = await response.json();
+      
+      // Upload attachments once the note exists so they can be linked to it
+      for (const file of files) {
+        const formData = new FormData();
+        formData.append("file", file);
+        await apiUpload(`/api/notes/${created.id}/attachments`, formData);
+      }
+      return created;
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/attachments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
       setContent("");
+      setAttachedFiles([]);
+      setPickedTime(null);
     },
     onError: () => {
       toast({
@@ -56,182 +104,90 @@ export default function NoteInput() {
     },
   });
 
+  // When the note will be saved as happening, if not now: an "@when" prefix wins over the picker
+  const noteTime = parseTimePrefix(content, new Date(), timeZone)?.occurredAt ?? pickedTime;
+
   // Update current time every 100ms for better sync
   useEffect(() => {
     const updateTime = () => {
       const now = new Date();
-      setCurrentTime(format(now, 'hh:mm a'));
+      setCurrentTime(formatTimestamp(now, displayPreferences, 'time'));
     };
     
     updateTime();
     const interval = setInterval(updateTime, 100);
     
     return () => clearInterval(interval);
-  }, []);
-
-  // Handle variable substitution and autocomplete
-  const processContent = (rawContent: string): { content: string; originalContent: string } => {
-    let processedContent = rawContent;
-    
-    // Handle variable values with invisible markers (these are already resolved values)
-    processedContent = processedContent.replace(/\u200B([^\u200B]+)\u200B/g, '$1');
-    
-    // Handle regular variable references
-    variables.forEach(variable => {
-      const regex = new RegExp(`/${variable.name}\\b`, 'g');
-      const value = variable.values && variable.values.length > 0 ? variable.values[0] : variable.name;
-      processedContent = processedContent.replace(regex, value);
-    });
-    
-    return {
-      content: processedContent,
-      originalContent: rawContent
-    };
-  };
-
-  // Parse content into segments (text and variables)
-  const parseContentToSegments = (content: string) => {
-    const segments: Array<{ type: 'text' | 'variable'; content: string; variable?: Variable }> = [];
-    let lastIndex = 0;
-    
-    // Find all variable mentions
-    const matches: Array<{ start: number; end: number; variable: Variable }> = [];
-    
-    variables.forEach(variable => {
-      const regex = new RegExp(`\\/${variable.name}\\b`, 'g');
-      let match;
-      while ((match = regex.exec(content)) !== null) {
-        matches.push({
-          start: match.index,
-          end: match.index + match[0].length,
-          variable
-        });
-      }
-    });
-
-    // Sort matches by position
-    matches.sort((a, b) => a.start - b.start);
-
-    // Build segments
-    matches.forEach(match => {
-      // Add text before the match
-      if (match.start > lastIndex) {
-        segments.push({
-          type: 'text',
-          content: content.slice(lastIndex, match.start)
-        });
-      }
-      
-      // Add variable segment
-      segments.push({
-        type: 'variable',
-        content: content.slice(match.start, match.end),
-        variable: match.variable
-      });
-      
-      lastIndex = match.end;
-    });
-
-    // Add remaining text
-    if (lastIndex < content.length) {
-      segments.push({
-        type: 'text',
-        content: content.slice(lastIndex)
-      });
-    }
-
-    return segments.length > 0 ? segments : [{ type: 'text' as const, content }];
-  };
+  }, [displayPreferences]);
 
   // Check if content has variables
   const hasVariableContent = (content: string) => {
-    return /\/\w+|\u200B[^\u200B]+\u200B/.test(content);
+    return parseNoteText(content, variables).some(token => token.type === 'variable' || token.type === 'value');
   };
 
-  // Render styled content for overlay
+  // Render styled content for overlay. Picked values keep their zero-width markers in the
+  // textarea, which take no space, so the overlay lines up without them.
   const renderStyledContent = (content: string) => {
-    if (!hasVariableContent(content)) return content;
+    const tokens = parseNoteText(content, variables);
+    if (!tokens.some(token => token.type === 'variable' || token.type === 'value')) return content;
+
+    return (
+      <>
+        {tokens.map((token, index) => (
+          <span
+            key={index}
+            className={token.type === 'variable' || token.type === 'value' ? "text-foreground font-bold italic" : "text-foreground"}
+          >
+            {tokenText(token)}
+          </span>
+        ))}
+      </>
+    );
+  };
 
-    const parts: React.ReactNode[] = [];
-    let lastIndex = 0;
+  // Sort by relevance: exact matches first, then starts with, then contains
+  const byRelevance = (searchTerm: string) => (a: typeof filteredOptions[0], b: typeof filteredOptions[0]) => {
+    const aText = a.matchedText.toLowerCase();
+    const bText = b.matchedText.toLowerCase();
     
-    // Find all matches (both variable references and resolved values)
-    const matches: Array<{ 
-      start: number; 
-      end: number; 
-      type: 'variable' | 'resolved_value'; 
-      text: string; 
-    }> = [];
+    // Exact match
+    if (aText === searchTerm && bText !== searchTerm) return -1;
+    if (bText === searchTerm && aText !== searchTerm) return 1;
     
-    // Find variable values with invisible markers
-    const resolvedValueRegex = /\u200B([^\u200B]+)\u200B/g;
-    let resolvedMatch;
-    while ((resolvedMatch = resolvedValueRegex.exec(content)) !== null) {
-      matches.push({
-        start: resolvedMatch.index,
-        end: resolvedMatch.index + resolvedMatch[0].length,
-        type: 'resolved_value',
-        text: resolvedMatch[1]
-      });
-    }
+    // Starts with
+    if (aText.startsWith(searchTerm) && !bText.startsWith(searchTerm)) return -1;
+    if (bText.startsWith(searchTerm) && !aText.startsWith(searchTerm)) return 1;
     
-    // Find variable references
-    const variableRegex = /\/\w+/g;
-    let variableMatch;
-    while ((variableMatch = variableRegex.exec(content)) !== null) {
-      matches.push({
-        start: variableMatch.index,
-        end: variableMatch.index + variableMatch[0].length,
-        type: 'variable',
-        text: variableMatch[0]
-      });
-    }
-
-    // Sort matches by position
-    matches.sort((a, b) => a.start - b.start);
-
-    // Build the content with styling
-    matches.forEach((match, index) => {
-      // Add normal text before the match
-      if (match.start > lastIndex) {
-        parts.push(
-          <span key={`text-${index}`} className="text-foreground">
-            {content.slice(lastIndex, match.start)}
-          </span>
-        );
-      }
-      
-      // Add styled variable/value
-      parts.push(
-        <span 
-          key={`styled-${index}`}
-          className="text-foreground font-bold italic"
-        >
-          {match.text}
-        </span>
-      );
-      
-      lastIndex = match.end;
-    });
-
-    // Add remaining text
-    if (lastIndex < content.length) {
-      parts.push(
-        <span key="text-end" className="text-foreground">
-          {content.slice(lastIndex)}
-        </span>
-      );
-    }
-
-    return parts.length > 0 ? <>{parts}</> : content;
+    // Length (shorter first for better matches)
+    return aText.length - bText.length;
   };
 
   const handleInputChange = (value: string) => {
     setContent(value);
     
-    // Smart variable search across all variables and values
     const cursorPosition = textareaRef.current?.selectionStart || 0;
     const textBeforeCursor = value.substring(0, cursorPosition);
+    
+    // Tag search on "#", nested tags included; the "/" in #proj/alpha doesn't start a variable search
+    const tagMatch = textBeforeCursor.match(/(?:^|[^\w#])#([\w/]*)$/);
+    if (tagMatch) {
+      const searchTerm = tagMatch[1].toLowerCase();
+      const options: typeof filteredOptions = tags
+        .filter(tag => tag.name.toLowerCase().includes(searchTerm) && tag.name.toLowerCase() !== searchTerm)
+        .map(tag => ({ type: 'tag', name: tag.name, tag, matchedText: tag.name }));
+      
+      if (options.length > 0) {
+        setFilteredOptions(options.sort(byRelevance(searchTerm)));
+        setShowAutocomplete(true);
+        setAutocompletePosition(cursorPosition - tagMatch[1].length - 1);
+        setSelectedIndex(0);
+      } else {
+        setShowAutocomplete(false);
+      }
+      return;
+    }
+    
+    // Smart variable search across all variables and values
     const lastSlashIndex = textBeforeCursor.lastIndexOf('/');
     
     if (lastSlashIndex !== -1) {
@@ -240,49 +196,46 @@ export default function NoteInput() {
       // Only show autocomplete if the search term doesn't contain spaces
       if (!searchTerm.includes(' ')) {
         const options: typeof filteredOptions = [];
+
+        computedVariables
+          .filter(preview => preview.kind === 'builtin' && preview.name.includes(searchTerm))
+          .forEach(preview => options.push({
+            type: 'computed',
+            name: preview.name,
+            preview,
+            matchedText: preview.name
+          }));
         
         variables.forEach(variable => {
           // Check if variable name matches
           if (variable.name.toLowerCase().includes(searchTerm)) {
             options.push({
               type: 'variable',
+              name: variable.name,
               variable,
+              preview: computedVariables.find(preview => preview.kind === 'expression' && preview.name === variable.name),
               matchedText: variable.name
             });
           }
           
-          // Check if any variable values match
-          variable.values?.forEach(value => {
-            if (value.toLowerCase().includes(searchTerm)) {
+          // Check if any variable values match, by their text or an alias ("jd" finds John Doe)
+          variable.values?.filter(entry => !entry.archived).forEach(entry => {
+            const matchedText = matchVariableValue(entry, searchTerm);
+            if (matchedText !== undefined) {
               options.push({
                 type: 'value',
+                name: variable.name,
                 variable,
-                value,
-                matchedText: value
+                value: entry.value,
+                valueDetails: entry,
+                matchedText
               });
             }
           });
         });
         
         if (options.length > 0) {
-          // Sort by relevance: exact matches first, then starts with, then contains
-          options.sort((a, b) => {
-            const aText = a.matchedText.toLowerCase();
-            const bText = b.matchedText.toLowerCase();
-            
-            // Exact match
-            if (aText === searchTerm && bText !== searchTerm) return -1;
-            if (bText === searchTerm && aText !== searchTerm) return 1;
-            
-            // Starts with
-            if (aText.startsWith(searchTerm) && !bText.startsWith(searchTerm)) return -1;
-            if (bText.startsWith(searchTerm) && !aText.startsWith(searchTerm)) return 1;
-            
-            // Length (shorter first for better matches)
-            return aText.length - bText.length;
-          });
-          
-          setFilteredOptions(options);
+          setFilteredOptions(options.sort(byRelevance(searchTerm)));
           setShowAutocomplete(true);
           setAutocompletePosition(lastSlashIndex);
           setSelectedIndex(0);
@@ -300,13 +253,17 @@ export default function NoteInput() {
   const insertOption = (option: typeof filteredOptions[0]) => {
     // Always insert at the autocomplete position and move caret to end of inserted value
     const textBeforeInsert = content.substring(0, autocompletePosition);
-    const textAfterInsert = content.substring(autocompletePosition);
+    let textAfterInsert = content.substring(autocompletePosition);
 
     let valueToInsert: string;
-    if (option.type === 'value') {
-      valueToInsert = `\u200B${option.value}\u200B`;
+    if (option.type === 'tag') {
+      // Replaces the partly typed tag
+      valueToInsert = `#${option.name}`;
+      textAfterInsert = textAfterInsert.replace(/^#[\w/]*/, '');
+    } else if (option.type === 'value') {
+      valueToInsert = `${PICKED_VALUE_MARKER}${option.value}${PICKED_VALUE_MARKER}`;
     } else {
-      valueToInsert = `/${option.variable.name}`;
+      valueToInsert = `/${option.name}`;
     }
 
     const newContent = textBeforeInsert + valueToInsert + textAfterInsert;
@@ -396,7 +353,10 @@ export default function NoteInput() {
   const handleSubmit = () => {
     if (!content.trim() && attachedFiles.length === 0) return;
     
-    let finalContent = content;
+    // "@14:30 …" backdates or schedules the note, ahead of the time picker; the prefix isn't kept
+    const timePrefix = parseTimePrefix(content, new Date(), timeZone);
+    const text = timePrefix ? timePrefix.text : content;
+    let finalContent = text;
     
     // Add file attachments to content if any
     if (attachedFiles.length > 0) {
@@ -406,25 +366,26 @@ export default function NoteInput() {
           : `📎 ${file.name}`;
       }).join('\n');
       
-      if (!content.includes(fileList)) {
-        finalContent = content + (content ? '\n' : '') + fileList;
+      if (!text.includes(fileList)) {
+        finalContent = text + (text ? '\n' : '') + fileList;
       }
     }
     
-    const { content: processedContent, originalContent } = processContent(finalContent);
-    
-    // Extract tags (simple implementation - words that start with #)
-    const tags = Array.from(finalContent.matchAll(/#(\w+)/g), m => m[1]);
+    const { content: processedContent, originalContent, tokens } = processNoteContent(finalContent, variables);
+    const tags = extractTags(finalContent);
     
     createNoteMutation.mutate({
-      content: processedContent,
-      originalContent,
-      tags,
-      folder: selectedFolder,
+      note: {
+        content: processedContent,
+        originalContent,
+        tokens,
+        tags,
+        folder: selectedFolder,
+        occurredAt: timePrefix?.occurredAt ?? pickedTime ?? undefined,
+        timeZone,
+      },
+      files: attachedFiles,
     });
-    
-    // Clear attachments
-    setAttachedFiles([]);
   };
 
   const autoResizeTextarea = () => {
@@ -443,9 +404,48 @@ export default function NoteInput() {
       <div className="p-4 md:p-6">
         <div className="relative">
           <div className="flex items-start space-x-3">
-            <span className="timestamp text-muted-foreground mt-3 min-w-[60px] font-mono text-xs">
-              {currentTime}
-            </span>
+            <Popover>
+              <PopoverTrigger asChild>
+                <button
+                  type="button"
+                  className={`timestamp mt-3 min-w-[60px] font-mono text-xs text-left hover:text-foreground transition-colors ${
+                    noteTime ? 'text-primary font-semibold' : 'text-muted-foreground'
+                  }`}
+                  title={noteTime ? `Saved as ${formatTimestamp(noteTime, displayPreferences, 'dateTimeWithSeconds')}` : 'Change the time of this note'}
+                  data-testid="button-note-time"
+                >
+                  {noteTime
+                    ? formatTimestamp(noteTime, displayPreferences, dayKey(noteTime, timeZone) === dayKey(new Date(), timeZone) ? 'time' : 'shortDateTime')
+                    : currentTime}
+                </button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-72 space-y-3">
+                <div>
+                  <Label htmlFor="note-time">Note time</Label>
+                  <Input
+                    id="note-time"
+                    type="datetime-local"
+                    value={pickedTime ? format(toZonedTime(pickedTime, timeZone), "yyyy-MM-dd'T'HH:mm") : ''}
+                    onChange={(e) => setPickedTime(e.target.value ? fromZonedTime(new Date(e.target.value), timeZone) : null)}
+                    className="mt-1"
+                    data-testid="input-note-time"
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Or start the note with <span className="font-mono">@14:30</span>, <span className="font-mono">@yesterday 9am</span> or <span className="font-mono">@-20m</span>.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPickedTime(null)}
+                  disabled={!pickedTime}
+                  className="w-full"
+                  data-testid="button-note-time-now"
+                >
+                  Use the current time
+                </Button>
+              </PopoverContent>
+            </Popover>
             <div className="flex-1 relative">
               {/* Styled overlay for variable highlighting */}
               <div 
@@ -481,7 +481,7 @@ export default function NoteInput() {
                   </div>
                   {filteredOptions.map((option, index) => (
                     <div 
-                      key={`${option.variable.id}-${option.type}-${option.value || 'var'}`}
+                      key={`${option.variable?.id ?? option.name}-${option.type}-${option.value || 'var'}`}
                       className={`px-3 py-2 cursor-pointer transition-colors ${
                         index === selectedIndex ? 'bg-accent/70' : 'hover:bg-accent/30'
                       }`}
@@ -489,8 +489,13 @@ export default function NoteInput() {
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex items-center space-x-2">
-                          {option.type === 'variable' ? (
-                            <span className="text-foreground font-medium">/{option.variable.name}</span>
+                          {option.type === 'tag' && option.tag ? (
+                            <span className="flex items-center text-foreground font-medium">
+                              <span className={`w-2 h-2 rounded-full mr-2 ${tagDotClass(option.tag.color)}`} />
+                              #{option.name}
+                            </span>
+                          ) : option.type !== 'value' ? (
+                            <span className="text-foreground font-medium">/{option.name}</span>
                           ) : (
                             <span className="text-foreground font-medium">{option.value}</span>
                           )}
@@ -504,13 +509,35 @@ export default function NoteInput() {
                       
                       {option.type === 'value' && (
                         <div className="text-xs text-muted-foreground mt-1 ml-6">
-                          from variable "/{option.variable.name}"
+                          from variable "/{option.name}"
+                          {option.matchedText !== option.value && ` · matches "${option.matchedText}"`}
+                          {option.valueDetails?.description && (
+                            <div className="truncate">{option.valueDetails.description}</div>
+                          )}
+                        </div>
+                      )}
+
+                      {option.type === 'tag' && option.tag && (
+                        <div className="text-xs text-muted-foreground mt-1 ml-6">
+                          {option.tag.description ?? `${option.tag.count} note${option.tag.count === 1 ? '' : 's'}`}
+                        </div>
+                      )}
+
+                      {option.preview && (
+                        <div className="text-xs text-muted-foreground mt-1 ml-6">
+                          {option.preview.value !== null
+                            ? `computed on save · inserts "${option.preview.value}"`
+                            : `expression error: ${option.preview.error}`}
                         </div>
                       )}
                       
-                      {option.type === 'variable' && option.variable.values?.length && (
+                      {option.type === 'variable' && option.variable && !option.preview && activeVariableValues(option.variable).length > 0 && (
                         <div className="text-xs text-muted-foreground mt-1 ml-6">
-                          {option.variable.values.length} values available
+                          {activeVariableValues(option.variable).length} values available · {
+                            option.variable.selectionPolicy === 'rotate' ? 'rotates on save'
+                              : option.variable.selectionPolicy === 'random' ? 'random on save'
+                              : `inserts "${pickVariableValue(option.variable)}"`
+                          }
                         </div>
                       )}
                     </div>
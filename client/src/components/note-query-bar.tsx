@@ -0,0 +1,139 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, Filter, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SavedSearch } from "@shared/schema";
+
+interface NoteQueryBarProps {
+  query: string | null;
+  onQueryChange: (query: string | null) => void;
+  error?: string | null;
+}
+
+const QUERY_HELP = [
+  "tag:bug  -tag:done  folder:Acme",
+  "after:2026-09-01  before:2026-10-01",
+  "has:attachment  has:tag  has:variable",
+  "var:user  var:user=\"Jane Smith\"",
+  "word  \"exact phrase\"",
+].join("\n");
+
+// The timeline's query filter; the query is run on the server, see shared/note-query.ts
+export default function NoteQueryBar({ query, onQueryChange, error }: NoteQueryBarProps) {
+  const [draft, setDraft] = useState(query ?? "");
+  const [name, setName] = useState("");
+  const [showSave, setShowSave] = useState(false);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  // A saved search picked in the sidebar replaces whatever was being typed
+  useEffect(() => {
+    setDraft(query ?? "");
+  }, [query]);
+
+  const saveSearchMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/saved-searches", { name: name.trim(), query });
+      return response.json() as Promise<SavedSearch>;
+    },
+    onSuccess: (search) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+      setName("");
+      setShowSave(false);
+      toast({ title: "Search saved", description: `"${search.name}" is in the sidebar.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to save search: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-1">
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onQueryChange(draft.trim() || null);
+        }}
+      >
+        <div className="relative flex-1">
+          <Filter className="absolute left-2 top-1/2 -translate-y-1/2 w-3 h-3 text-muted-foreground" />
+          <Input
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder='Filter, e.g. tag:bug -tag:done after:2026-09-01 "exact phrase"'
+            title={QUERY_HELP}
+            className="h-8 pl-7 text-xs font-mono"
+            data-testid="input-note-query"
+          />
+        </div>
+        {query && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-8 px-2"
+            onClick={() => onQueryChange(null)}
+            title="Clear filter"
+            data-testid="button-clear-query"
+          >
+            <X className="w-3 h-3" />
+          </Button>
+        )}
+        <Popover open={showSave} onOpenChange={setShowSave}>
+          <PopoverTrigger asChild>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              className="h-8 px-3 text-xs"
+              disabled={!query || !!error}
+              data-testid="button-save-search"
+            >
+              <Bookmark className="w-3 h-3 mr-1" />
+              Save
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent align="end" className="w-72 space-y-3">
+            <div>
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && name.trim()) saveSearchMutation.mutate();
+                }}
+                placeholder="Open bugs"
+                className="mt-1"
+                data-testid="input-saved-search-name"
+              />
+            </div>
+            <div className="text-xs text-muted-foreground font-mono break-words">{query}</div>
+            <Button
+              size="sm"
+              className="w-full"
+              onClick={() => saveSearchMutation.mutate()}
+              disabled={!name.trim() || saveSearchMutation.isPending}
+              data-testid="button-confirm-save-search"
+            >
+              Save search
+            </Button>
+          </PopoverContent>
+        </Popover>
+      </form>
+      {error && (
+        <div className="text-xs text-red-500" data-testid="text-query-error">{error}</div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { History, RotateCcw } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { diffWords } from "@/lib/diff";
+import { useToast } from "@/hooks/use-toast";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { formatTimestamp } from "@shared/datetime";
+import type { Note, NoteRevision } from "@shared/schema";
+
+interface NoteRevisionsProps {
+  note: Note;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export default function NoteRevisions({ note, open, onOpenChange }: NoteRevisionsProps) {
+  const [selectedRevisionId, setSelectedRevisionId] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { resolved: displayPreferences } = useDisplayPreferences();
+
+  const { data: revisions = [], isLoading } = useQuery<NoteRevision[]>({
+    queryKey: ["/api/notes", note.id, "revisions"],
+    enabled: open,
+  });
+
+  // Select the most recent revision whenever the list changes
+  useEffect(() => {
+    if (revisions.length > 0 && !revisions.some(r => r.id === selectedRevisionId)) {
+      setSelectedRevisionId(revisions[0].id);
+    }
+  }, [revisions, selectedRevisionId]);
+
+  const restoreRevisionMutation = useMutation({
+    mutationFn: async (revisionId: string) => {
+      const response = await apiRequest("POST", `/api/notes/${note.id}/revisions/${revisionId}/restore`);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      toast({
+        title: "Revision restored",
+        description: "The note now shows the selected version.",
+      });
+      onOpenChange(false);
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to restore revision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectedRevision = revisions.find(r => r.id === selectedRevisionId);
+  const diff = selectedRevision
+    ? diffWords(selectedRevision.originalContent || selectedRevision.content, note.originalContent || note.content)
+    : [];
+  // Revisions from before the note's time was kept have none to compare
+  const timeChanged = !!selectedRevision?.occurredAt
+    && new Date(selectedRevision.occurredAt).getTime() !== new Date(note.occurredAt).getTime();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <History className="w-4 h-4 mr-2" />
+            Revision History
+          </DialogTitle>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading revisions...</div>
+        ) : revisions.length === 0 ? (
+          <div className="text-sm text-muted-foreground">This note has not been edited yet.</div>
+        ) : (
+          <div className="flex flex-col md:flex-row gap-4 max-h-[calc(90vh-120px)]">
+            {/* Revision List */}
+            <div className="md:w-56 flex-shrink-0 overflow-y-auto space-y-1">
+              {revisions.map((revision) => (
+                <Button
+                  key={revision.id}
+                  variant={revision.id === selectedRevisionId ? "secondary" : "ghost"}
+                  size="sm"
+                  className="w-full justify-start font-mono text-xs"
+                  onClick={() => setSelectedRevisionId(revision.id)}
+                  data-testid={`revision-${revision.id}`}
+                >
+                  {formatTimestamp(revision.createdAt, displayPreferences, 'dateTimeWithSeconds')}
+                </Button>
+              ))}
+            </div>
+
+            {/* Diff against the current version */}
+            {selectedRevision && (
+              <div className="flex-1 min-w-0 flex flex-col">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-xs text-muted-foreground space-x-3">
+                    <span className="bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 px-1 rounded">removed since</span>
+                    <span className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 px-1 rounded">added since</span>
+                  </div>
+                  <Button
+                    size="sm"
+                    className="h-7 px-3 text-xs"
+                    onClick={() => restoreRevisionMutation.mutate(selectedRevision.id)}
+                    disabled={restoreRevisionMutation.isPending}
+                    data-testid="button-restore-revision"
+                  >
+                    <RotateCcw className="w-3 h-3 mr-1" />
+                    {restoreRevisionMutation.isPending ? 'Restoring...' : 'Restore this version'}
+                  </Button>
+                </div>
+                <div className="flex-1 overflow-y-auto p-3 bg-accent/30 dark:bg-accent/20 rounded-lg font-serif leading-relaxed whitespace-pre-wrap break-words">
+                  {diff.map((part, index) => (
+                    <span
+                      key={index}
+                      className={
+                        part.type === 'added'
+                          ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300'
+                          : part.type === 'removed'
+                            ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300 line-through'
+                            : undefined
+                      }
+                    >
+                      {part.text}
+                    </span>
+                  ))}
+                </div>
+                {(selectedRevision.folder !== note.folder || (selectedRevision.tags || []).join() !== (note.tags || []).join() || timeChanged) && (
+                  <div className="text-xs text-muted-foreground mt-2">
+                    This version: 📁 {selectedRevision.folder || "General"}
+                    {selectedRevision.tags && selectedRevision.tags.length > 0 && ` · ${selectedRevision.tags.map(tag => `#${tag}`).join(' ')}`}
+                    {timeChanged && ` · ${formatTimestamp(selectedRevision.occurredAt!, displayPreferences, 'dateTime')}`}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
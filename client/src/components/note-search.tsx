@@ -0,0 +1,117 @@
+import { useState, useEffect } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { formatTimestamp } from "@shared/datetime";
+import type { Note, NoteSearchResult } from "@shared/schema";
+
+interface NoteSearchProps {
+  onResultSelect?: (note: Note) => void;
+}
+
+export default function NoteSearch({ onResultSelect }: NoteSearchProps) {
+  const [query, setQuery] = useState("");
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const { resolved: displayPreferences } = useDisplayPreferences();
+
+  // Wait for typing to pause before hitting the server
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(query.trim()), 250);
+    return () => clearTimeout(timeout);
+  }, [query]);
+
+  const { data: results = [], isFetching } = useQuery<NoteSearchResult[]>({
+    queryKey: [`/api/notes/search?q=${encodeURIComponent(debouncedQuery)}`],
+    enabled: debouncedQuery.length > 0,
+    staleTime: 0,
+  });
+
+  const renderSnippet = (result: NoteSearchResult) => {
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+
+    result.highlights.forEach((highlight, index) => {
+      if (highlight.start > lastIndex) {
+        parts.push(result.snippet.slice(lastIndex, highlight.start));
+      }
+      parts.push(
+        <mark
+          key={`hl-${index}`}
+          className="bg-yellow-200 text-foreground dark:bg-yellow-900/60 rounded-sm px-0.5"
+        >
+          {result.snippet.slice(highlight.start, highlight.end)}
+        </mark>
+      );
+      lastIndex = highlight.end;
+    });
+
+    if (lastIndex < result.snippet.length) {
+      parts.push(result.snippet.slice(lastIndex));
+    }
+
+    return parts;
+  };
+
+  const handleSelect = (note: Note) => {
+    onResultSelect?.(note);
+
+    // Give the timeline a moment to re-render with cleared filters
+    setTimeout(() => {
+      const element = document.querySelector(`[data-testid="note-${note.id}"]`);
+      element?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 100);
+  };
+
+  return (
+    <div>
+      <div className="relative">
+        <Search className="absolute left-2 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && setQuery("")}
+          placeholder="Search notes..."
+          className="pl-8 pr-8 h-9"
+          data-testid="input-search-notes"
+        />
+        {query && (
+          <button
+            onClick={() => setQuery("")}
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            title="Clear search"
+            data-testid="button-clear-search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+
+      {debouncedQuery && (
+        <div className="mt-2 max-h-72 overflow-y-auto space-y-1">
+          {isFetching && results.length === 0 ? (
+            <div className="px-2 py-1 text-xs text-muted-foreground">Searching...</div>
+          ) : results.length === 0 ? (
+            <div className="px-2 py-1 text-xs text-muted-foreground">No matching notes</div>
+          ) : (
+            results.map((result) => (
+              <button
+                key={result.note.id}
+                onClick={() => handleSelect(result.note)}
+                className="w-full text-left px-2 py-1.5 rounded-md hover:bg-accent transition-colors"
+                data-testid={`search-result-${result.note.id}`}
+              >
+                <div className="text-xs text-muted-foreground font-mono">
+                  {formatTimestamp(result.note.occurredAt, displayPreferences, 'dateTime')}
+                </div>
+                <div className="text-sm text-foreground font-serif leading-snug break-words">
+                  {renderSnippet(result)}
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
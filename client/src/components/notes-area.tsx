@@ -1,34 +1,134 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { format, parseISO } from "date-fns";
-import { Clock, Hash, Trash2 } from "lucide-react";
+import { useState, useRef, useEffect } from "react";
+import { useQuery, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useVirtualizer } from "@tanstack/react-virtual";
+import { Link } from "wouter";
+import { Clock, Hash, Trash2, Pencil, History, CheckSquare, Pin, PinOff } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
 import NoteInput from "./note-input";
 import NoteDownload from "./note-download";
+import NoteRevisions from "./note-revisions";
+import NoteAttachments from "./note-attachments";
+import BulkNoteActions from "./bulk-note-actions";
+import NoteQueryBar from "./note-query-bar";
 import { apiRequest } from "@/lib/queryClient";
+import { sessionFetch } from "@/lib/session";
+import { processNoteContent, getNoteTokens, getNoteEditorText } from "@/lib/note-content";
+import { tagChipClass } from "@/lib/tag-colors";
+import { tokenText } from "@shared/tokens";
 import { useToast } from "@/hooks/use-toast";
-import type { Note, Variable } from "@shared/schema";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { useTrashUndo, invalidateTrashQueries } from "@/hooks/use-trash";
+import { useTags } from "@/hooks/use-tags";
+import { useMentionCounts } from "@/hooks/use-mentions";
+import { extractTags, isInTag } from "@shared/tags";
+import { dayKey, formatDayKey, formatTimestamp } from "@shared/datetime";
+import { isInFolder } from "@shared/folders";
+import type { Attachment, Note, NotePage, UpdateNote, Variable } from "@shared/schema";
 
 interface NotesAreaProps {
   selectedTag: string | null;
   selectedFolder?: string | null;
+  query: string | null;
+  onQueryChange: (query: string | null) => void;
 }
 
 type SortOption = 'newest' | 'oldest' | 'mentions';
 
-export default function NotesArea({ selectedTag, selectedFolder }: NotesAreaProps) {
+type TimelineRow =
+  | { type: 'date'; date: string }
+  | { type: 'note'; note: Note };
+
+const PAGE_SIZE = 50;
+const DOWNLOAD_PAGE_SIZE = 200; // The most the server returns per page
+
+// Notes written more than a minute before or after the time they're filed under
+const BACKDATE_THRESHOLD = 60 * 1000;
+
+function isBackdated(note: Note): boolean {
+  return Math.abs(new Date(note.createdAt).getTime() - new Date(note.occurredAt).getTime()) > BACKDATE_THRESHOLD;
+}
+
+export default function NotesArea({ selectedTag, selectedFolder, query, onQueryChange }: NotesAreaProps) {
   const [sortBy, setSortBy] = useState<SortOption>('newest');
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editContent, setEditContent] = useState("");
+  const [revisionsNote, setRevisionsNote] = useState<Note | null>(null);
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [loadingDay, setLoadingDay] = useState<string | null>(null);
+  // The last note clicked in select mode, where a shift-click range starts
+  const selectionAnchorRef = useRef<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { resolved: displayPreferences } = useDisplayPreferences();
+  const { showUndoToast } = useTrashUndo();
+  const { tagColor } = useTags();
+  const mentionCounts = useMentionCounts();
   
-  const { data: notes = [], isLoading } = useQuery<Note[]>({
-    queryKey: ["/api/notes"],
+  // Folder and query filtering happen on the server so each page is a full page of matching notes
+  const fetchTimelinePage = async (before: string | null, limit: number): Promise<NotePage> => {
+    const base = selectedFolder
+      ? `/api/notes/folder/${encodeURIComponent(selectedFolder)}`
+      : "/api/notes";
+    const params = new URLSearchParams({ limit: String(limit) });
+    if (before) params.set("before", before);
+    // A folder shows the notes of its subfolders too
+    if (selectedFolder) params.set("descendants", "true");
+    // after: and before: days are the ones shown in the timeline
+    if (query) {
+      params.set("q", query);
+      params.set("timeZone", displayPreferences.timeZone);
+    }
+    
+    const res = await sessionFetch(`${base}?${params}`);
+    if (!res.ok) {
+      const text = await res.text();
+      // A query the server can't run comes back as a 400 naming the term at fault
+      if (query && res.status === 400) {
+        throw new Error((JSON.parse(text) as { message: string }).message);
+      }
+      throw new Error(`${res.status}: ${text || res.statusText}`);
+    }
+    return await res.json();
+  };
+
+  const {
+    data,
+    error,
+    isLoading,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/notes", "timeline", selectedFolder ?? null, query, displayPreferences.timeZone],
+    queryFn: ({ pageParam }) => fetchTimelinePage(pageParam, PAGE_SIZE),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
   
+  const notes = data?.pages.flatMap(page => page.notes) ?? [];
+  
+  const { data: pinnedNotes = [] } = useQuery<Note[]>({
+    queryKey: ["/api/notes", "pinned"],
+  });
+
   const { data: variables = [] } = useQuery<Variable[]>({
     queryKey: ["/api/variables"],
   });
 
+  const { data: attachments = [] } = useQuery<Attachment[]>({
+    queryKey: ["/api/attachments"],
+  });
+
+  const attachmentsByNote = attachments.reduce((acc, attachment) => {
+    if (!acc[attachment.noteId]) acc[attachment.noteId] = [];
+    acc[attachment.noteId].push(attachment);
+    return acc;
+  }, {} as Record<string, Attachment[]>);
+
   const deleteNoteMutation = useMutation({
     mutationFn: async (noteId: string) => {
       const response = await apiRequest("DELETE", `/api/notes/${noteId}`);
@@ -36,64 +136,213 @@ export default function NotesArea({ selectedTag, selectedFolder }: NotesAreaProp
         const errorText = await response.text();
         throw new Error(`Delete failed: ${response.status} ${errorText}`);
       }
+      return response.json() as Promise<{ noteIds: string[] }>;
+    },
+    onSuccess: ({ noteIds }) => {
+      invalidateTrashQueries(queryClient);
+      showUndoToast("Note moved to the trash", noteIds);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete note: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateNoteMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: UpdateNote }) => {
+      const response = await apiRequest("PATCH", `/api/notes/${id}`, data);
       return response.json();
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      setEditingNoteId(null);
     },
     onError: (error) => {
       toast({
         title: "Error",
-        description: `Failed to delete note: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        description: `Failed to update note: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pinNoteMutation = useMutation({
+    mutationFn: async ({ id, pinned }: { id: string; pinned: boolean }) => {
+      const response = await apiRequest("PUT", `/api/notes/${id}/pin`, { pinned });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to pin note: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
     },
   });
 
-  // Function to count variable mentions in a note
-  const countVariableMentions = (note: Note) => {
-    let count = 0;
-    variables.forEach(variable => {
-      const regex = new RegExp(`\\/${variable.name}\\b`, 'g');
-      const matches = note.content.match(regex);
-      if (matches) count += matches.length;
+  const startEditing = (note: Note) => {
+    setEditingNoteId(note.id);
+    setEditContent(getNoteEditorText(note));
+  };
+
+  const saveEdit = (note: Note) => {
+    if (!editContent.trim()) return;
+    if (editContent === getNoteEditorText(note)) {
+      setEditingNoteId(null);
+      return;
+    }
+    
+    const { content, originalContent, tokens } = processNoteContent(editContent, variables);
+    updateNoteMutation.mutate({
+      id: note.id,
+      data: { content, originalContent, tokens, tags: extractTags(editContent) },
     });
-    return count;
   };
 
-  // Filter notes by selected tag and folder
-  let filteredNotes = notes;
-  
-  if (selectedTag) {
-    filteredNotes = filteredNotes.filter(note => note.tags?.includes(selectedTag));
-  }
-  
-  if (selectedFolder) {
-    filteredNotes = filteredNotes.filter(note => note.folder === selectedFolder);
-  }
+  // Filter loaded notes by selected tag, including its subtags
+  const matchesSelectedTag = (note: Note) => !selectedTag || !!note.tags?.some(tag => isInTag(tag, selectedTag, true));
+  const filteredNotes = notes.filter(matchesSelectedTag);
+
+  // Pinned notes in the current folder and tag; a query shows only the notes it matches
+  const visiblePinnedNotes = query ? [] : pinnedNotes.filter(note =>
+    matchesSelectedTag(note) && (!selectedFolder || isInFolder(note.folder || "General", selectedFolder, true))
+  );
+
+  // Every note the timeline would show once scrolled to the end, for downloads
+  const loadAllNotes = async (): Promise<Note[]> => {
+    const all: Note[] = [];
+    let before: string | null = null;
+    do {
+      const page: NotePage = await fetchTimelinePage(before, DOWNLOAD_PAGE_SIZE);
+      all.push(...page.notes);
+      before = page.nextCursor;
+    } while (before);
+    return all.filter(matchesSelectedTag);
+  };
 
   // Sort notes based on selected option
   const sortedNotes = [...filteredNotes].sort((a, b) => {
     switch (sortBy) {
       case 'newest':
-        return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
+        return new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime();
       case 'oldest':
-        return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+        return new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime();
       case 'mentions':
-        return countVariableMentions(b) - countVariableMentions(a);
+        return (mentionCounts[b.id] ?? 0) - (mentionCounts[a.id] ?? 0);
       default:
         return 0;
     }
   });
 
-  // Group notes by date
+  // Group notes by the day they happened on, in the chosen time zone
   const notesByDate = sortedNotes.reduce((acc, note) => {
-    const date = format(parseISO(note.createdAt.toString()), 'yyyy-MM-dd');
+    const date = dayKey(note.occurredAt, displayPreferences.timeZone);
     if (!acc[date]) acc[date] = [];
     acc[date].push(note);
     return acc;
   }, {} as Record<string, Note[]>);
 
+  // Flatten the date groups into rows so only the visible ones are rendered
+  const rows: TimelineRow[] = Object.entries(notesByDate)
+    .sort(([a], [b]) => b.localeCompare(a)) // Sort dates descending
+    .flatMap(([date, dayNotes]): TimelineRow[] => [
+      { type: 'date', date },
+      ...dayNotes.map(note => ({ type: 'note' as const, note })),
+    ]);
+
+  const selectedNotes = sortedNotes.filter(note => selectedIds.has(note.id));
+
+  const setSelected = (noteIds: string[], selected: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      noteIds.forEach(id => selected ? next.add(id) : next.delete(id));
+      return next;
+    });
+  };
+
+  // A day can run on past the last loaded page, so the rest of it is loaded before selecting.
+  // Pages come newest first, so the day is complete once a page ends on an earlier day.
+  const selectDay = async (date: string) => {
+    setLoadingDay(date);
+    try {
+      let pages = data?.pages ?? [];
+      let more = hasNextPage;
+      const oldestDay = () => {
+        const lastNotes = pages[pages.length - 1]?.notes ?? [];
+        return lastNotes.length > 0 ? dayKey(lastNotes[lastNotes.length - 1].occurredAt, displayPreferences.timeZone) : null;
+      };
+      while (more && (oldestDay() ?? date) >= date) {
+        const result = await fetchNextPage();
+        if (result.error) throw result.error;
+        pages = result.data?.pages ?? pages;
+        more = result.hasNextPage;
+      }
+      const dayNoteIds = pages
+        .flatMap(page => page.notes)
+        .filter(note => matchesSelectedTag(note) && dayKey(note.occurredAt, displayPreferences.timeZone) === date)
+        .map(note => note.id);
+      setSelected(dayNoteIds, true);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: `Failed to load the rest of the day: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    } finally {
+      setLoadingDay(null);
+    }
+  };
+
+  // Shift-click selects (or clears) every note between the last one clicked and this one, in timeline order
+  const toggleSelected = (noteId: string, range: boolean) => {
+    const selected = !selectedIds.has(noteId);
+    const order = rows.flatMap(row => row.type === 'note' ? [row.note.id] : []);
+    const anchorIndex = selectionAnchorRef.current ? order.indexOf(selectionAnchorRef.current) : -1;
+    const index = order.indexOf(noteId);
+    if (range && anchorIndex !== -1) {
+      setSelected(order.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1), selected);
+    } else {
+      setSelected([noteId], selected);
+    }
+    selectionAnchorRef.current = noteId;
+  };
+
+  const exitSelecting = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+    selectionAnchorRef.current = null;
+  };
+
+  const virtualizer = useVirtualizer({
+    count: rows.length,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: (index) => rows[index]?.type === 'date' ? 56 : 96,
+    getItemKey: (index) => {
+      const row = rows[index];
+      return row.type === 'date' ? `date-${row.date}` : row.note.id;
+    },
+    overscan: 8,
+  });
+
+  const virtualRows = virtualizer.getVirtualItems();
+  const lastVisibleIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
+
+  // Load the next page as the end of the timeline scrolls into view. Sorts other than
+  // newest-first need every note, so they keep loading until the timeline is complete.
+  useEffect(() => {
+    if (!hasNextPage || isFetchingNextPage) return;
+    if (sortBy !== 'newest' || lastVisibleIndex >= rows.length - 1) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage, sortBy, lastVisibleIndex, rows.length]);
+
   if (isLoading) {
     return (
       <div className="flex-1 flex items-center justify-center">
@@ -102,119 +351,217 @@ export default function NotesArea({ selectedTag, selectedFolder }: NotesAreaProp
     );
   }
 
-  const tagColors = [
-    'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
-    'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300', 
-    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
-    'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
-    'bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300',
-    'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
-  ];
-
-  // Function to render note content with highlighted variables
-  const renderContentWithHighlights = (content: string) => {
-    const parts: React.ReactNode[] = [];
-    let lastIndex = 0;
-    
-    // Find all matches (both variable references and resolved values)
-    const matches: Array<{ 
-      start: number; 
-      end: number; 
-      type: 'variable' | 'resolved_value'; 
-      variable?: string; 
-      value?: string; 
-    }> = [];
-    
-    // Find variable values with invisible markers (resolved values)
-    const resolvedValueRegex = /\u200B([^\u200B]+)\u200B/g;
-    let resolvedMatch;
-    while ((resolvedMatch = resolvedValueRegex.exec(content)) !== null) {
-      matches.push({
-        start: resolvedMatch.index,
-        end: resolvedMatch.index + resolvedMatch[0].length,
-        type: 'resolved_value',
-        value: resolvedMatch[1]
-      });
-    }
-    
-    // Find variable references
-    if (variables.length > 0) {
-      variables.forEach(variable => {
-        const regex = new RegExp(`\\/${variable.name}\\b`, 'g');
-        let match;
-        while ((match = regex.exec(content)) !== null) {
-          matches.push({
-            start: match.index,
-            end: match.index + match[0].length,
-            type: 'variable',
-            variable: variable.name
-          });
-        }
-      });
-    }
-
-    // Sort matches by position
-    matches.sort((a, b) => a.start - b.start);
-
-    // Build the content with highlights
-    matches.forEach((match, index) => {
-      // Add text before the match
-      if (match.start > lastIndex) {
-        parts.push(content.slice(lastIndex, match.start));
-      }
-      
-      if (match.type === 'variable') {
-        // Add highlighted variable reference
-        parts.push(
+  // Render note content with highlighted variables, showing the value each reference resolved to when saved
+  const renderContentWithHighlights = (note: Note) => {
+    return getNoteTokens(note, variables).map((token, index) => {
+      if (token.type === 'variable') {
+        // Notes saved before values were recorded only know the reference
+        return (
           <span 
-            key={`var-${index}`}
+            key={index}
             className="inline-flex items-center px-2 py-1 mx-0.5 rounded-md text-sm font-semibold bg-gradient-to-r from-purple-100 to-blue-100 text-purple-800 dark:from-purple-900/40 dark:to-blue-900/40 dark:text-purple-300 border border-purple-200 dark:border-purple-700 shadow-sm"
-            title={`Variable: ${match.variable}`}
+            title={`Variable: ${token.variable}`}
           >
-            /{match.variable}
+            /{token.variable}
           </span>
         );
-      } else if (match.type === 'resolved_value') {
-        // Add highlighted resolved value
-        parts.push(
+      }
+      
+      if (token.type === 'value') {
+        const className = "inline-flex items-center px-2 py-1 mx-0.5 rounded-md text-sm font-semibold bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-800 dark:from-emerald-900/40 dark:to-teal-900/40 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-700 shadow-sm";
+        // A value links to every note that mentions it
+        return token.variable ? (
+          <Link
+            key={index}
+            href={`/variables/${encodeURIComponent(token.variable)}?${new URLSearchParams({ value: token.value })}`}
+            className={`${className} hover:underline`}
+            title={`/${token.variable} (${token.source}): ${token.value}`}
+            data-testid={`variable-value-${token.variable}`}
+          >
+            {token.value}
+          </Link>
+        ) : (
           <span 
-            key={`val-${index}`}
-            className="inline-flex items-center px-2 py-1 mx-0.5 rounded-md text-sm font-semibold bg-gradient-to-r from-emerald-100 to-teal-100 text-emerald-800 dark:from-emerald-900/40 dark:to-teal-900/40 dark:text-emerald-300 border border-emerald-200 dark:border-emerald-700 shadow-sm"
-            title={`Resolved variable value: ${match.value}`}
+            key={index}
+            className={className}
+            title={`Resolved variable value: ${token.value}`}
+            data-testid={`variable-value-${token.variable}`}
           >
-            {match.value}
+            {token.value}
           </span>
         );
       }
       
-      lastIndex = match.end;
+      return tokenText(token);
     });
+  };
 
-    // Add remaining text
-    if (lastIndex < content.length) {
-      parts.push(content.slice(lastIndex));
+  // Where the note was written, when that's another zone, and when it was written, if backdated
+  const getTimestampTitle = (note: Note) => {
+    const details: string[] = [];
+    if (note.timeZone && note.timeZone !== displayPreferences.timeZone) {
+      details.push(`${formatTimestamp(note.occurredAt, { ...displayPreferences, timeZone: note.timeZone }, 'dateTime')} in ${note.timeZone}`);
     }
-
-    return parts.length > 0 ? parts : content;
+    if (isBackdated(note)) {
+      details.push(`Written ${formatTimestamp(note.createdAt, displayPreferences, 'dateTime')}`);
+    }
+    return details.length > 0 ? details.join('\n') : undefined;
   };
 
+  const renderNote = (note: Note) => (
+    <div className="note-entry group relative" data-testid={`note-${note.id}`}>
+      <div className="flex flex-col xs:flex-row items-start xs:space-x-2 md:space-x-3 w-full">
+        {selecting && (
+          <Checkbox
+            checked={selectedIds.has(note.id)}
+            onClick={(e) => toggleSelected(note.id, e.shiftKey)}
+            className="mt-1"
+            aria-label="Select note"
+            data-testid={`checkbox-select-note-${note.id}`}
+          />
+        )}
+        <span
+          className="timestamp text-muted-foreground mt-1 min-w-[50px] md:min-w-[60px] font-mono text-xs"
+          title={getTimestampTitle(note)}
+        >
+          {formatTimestamp(note.occurredAt, displayPreferences, 'time')}
+          {isBackdated(note) && <span className="ml-0.5" data-testid={`note-backdated-${note.id}`}>*</span>}
+        </span>
+        <div className="flex-1 min-w-0 w-full">
+          {note.tags && note.tags.length > 0 && (
+            <div className="flex flex-wrap items-center mb-2 gap-1 md:gap-2">
+              {note.tags.map(tag => (
+                <span
+                  key={tag}
+                  className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${tagChipClass(tagColor(tag))}`}
+                  data-testid={`tag-${tag}`}
+                >
+                  <span className="w-1.5 h-1.5 rounded-full mr-1 opacity-60" />
+                  {tag}
+                </span>
+              ))}
+            </div>
+          )}
+          {note.folder && note.folder !== "General" && (
+            <div className="text-xs text-muted-foreground mb-1">
+              📁 {note.folder}
+            </div>
+          )}
+          {editingNoteId === note.id ? (
+            <div className="space-y-2">
+              <Textarea
+                value={editContent}
+                onChange={(e) => setEditContent(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    saveEdit(note);
+                  } else if (e.key === 'Escape') {
+                    setEditingNoteId(null);
+                  }
+                }}
+                className="font-serif leading-relaxed min-h-[60px]"
+                autoFocus
+                data-testid={`textarea-edit-note-${note.id}`}
+              />
+              <div className="flex items-center justify-end space-x-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-3 text-xs"
+                  onClick={() => setEditingNoteId(null)}
+                  data-testid={`button-cancel-edit-${note.id}`}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7 px-3 text-xs"
+                  onClick={() => saveEdit(note)}
+                  disabled={!editContent.trim() || updateNoteMutation.isPending}
+                  data-testid={`button-save-edit-${note.id}`}
+                >
+                  {updateNoteMutation.isPending ? 'Saving...' : 'Save'}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="note-content text-foreground font-serif leading-relaxed break-words" style={{ fontSize: 'var(--notes-font-size, 14px)' }}>
+              {renderContentWithHighlights(note)}
+              {note.updatedAt && (
+                <span className="ml-2 text-xs text-muted-foreground font-sans" title={`Edited ${formatTimestamp(note.updatedAt, displayPreferences, 'dateTime')}`}>
+                  (edited)
+                </span>
+              )}
+            </div>
+          )}
+          <NoteAttachments attachments={attachmentsByNote[note.id] || []} />
+        </div>
+
+        {/* Note actions - show on all notes on hover */}
+        {editingNoteId !== note.id && !selecting && (
+          <div className="opacity-0 group-hover:opacity-100 md:absolute md:top-1 md:right-1 relative top-0 right-0 flex items-center transition-all duration-200 flex-shrink-0">
+            <button
+              onClick={() => startEditing(note)}
+              className="p-1 text-muted-foreground hover:text-foreground"
+              title="Edit note"
+              data-testid={`button-edit-note-${note.id}`}
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+            {note.updatedAt && (
+              <button
+                onClick={() => setRevisionsNote(note)}
+                className="p-1 text-muted-foreground hover:text-foreground"
+                title="Revision history"
+                data-testid={`button-note-history-${note.id}`}
+              >
+                <History className="w-4 h-4" />
+              </button>
+            )}
+            <button
+              onClick={() => pinNoteMutation.mutate({ id: note.id, pinned: !note.pinnedAt })}
+              className="p-1 text-muted-foreground hover:text-foreground"
+              title={note.pinnedAt ? "Unpin note" : "Pin note"}
+              data-testid={`button-pin-note-${note.id}`}
+            >
+              {note.pinnedAt ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+            </button>
+            <button
+              onClick={() => deleteNoteMutation.mutate(note.id)}
+              className="p-1 text-muted-foreground hover:text-red-500"
+              title="Move to trash"
+              data-testid={`button-delete-note-${note.id}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+
   return (
     <div className="flex-1 overflow-x-hidden w-full">
       <div className="h-full flex flex-col w-full max-w-4xl mx-auto px-2 sm:px-4">
         {/* Filter Status and Sort Controls */}
         <div className="px-4 py-3 bg-accent/10 border-b border-border">
           {/* Mobile-first responsive layout */}
+          <div className="mb-3">
+            <NoteQueryBar query={query} onQueryChange={onQueryChange} error={query && error ? error.message : null} />
+          </div>
           <div className="flex flex-col space-y-3 md:flex-row md:items-center md:justify-between md:space-y-0">
             <div className="text-sm text-muted-foreground">
-              {(selectedTag || selectedFolder) ? (
+              {(selectedTag || selectedFolder || query) ? (
                 <div className="flex flex-wrap items-center gap-2">
                   <span>Showing:</span>
                   {selectedTag && <span className="bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300 px-2 py-1 rounded text-xs">#{selectedTag}</span>}
                   {selectedFolder && <span className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300 px-2 py-1 rounded text-xs">📁 {selectedFolder}</span>}
-                  <span>({sortedNotes.length} notes)</span>
+                  {query && <span className="bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300 px-2 py-1 rounded text-xs font-mono">{query}</span>}
+                  <span>({sortedNotes.length}{hasNextPage ? '+' : ''} notes)</span>
                 </div>
               ) : (
-                <>🏠 Home - Showing all notes ({sortedNotes.length} total)</>
+                <>🏠 Home - Showing all notes ({sortedNotes.length}{hasNextPage ? '+' : ''} total)</>
               )}
             </div>
             
@@ -222,9 +569,20 @@ export default function NotesArea({ selectedTag, selectedFolder }: NotesAreaProp
             <div className="flex flex-col space-y-2 md:flex-row md:items-center md:space-y-0 md:space-x-4">
               {/* Download Button - Hidden on mobile, available in mobile menu */}
               <div className="hidden md:block">
-                <NoteDownload notes={sortedNotes} folderName={selectedFolder || undefined} />
+                <NoteDownload notes={sortedNotes} loadNotes={hasNextPage ? loadAllNotes : undefined} folderName={selectedFolder || undefined} />
               </div>
               
+              <Button
+                variant={selecting ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => selecting ? exitSelecting() : setSelecting(true)}
+                className="h-8 px-3 text-xs"
+                data-testid="button-select-notes"
+              >
+                <CheckSquare className="w-3 h-3 mr-1" />
+                Select
+              </Button>
+
               {/* Sort Controls */}
               <div className="flex flex-col space-y-2 md:flex-row md:items-center md:space-y-0 md:space-x-2">
                 <span className="text-xs text-muted-foreground md:block hidden">Sort:</span>
@@ -268,92 +626,98 @@ export default function NotesArea({ selectedTag, selectedFolder }: NotesAreaProp
           </div>
         </div>
         
+        {selecting && (
+          <BulkNoteActions notes={selectedNotes} folderName={selectedFolder || undefined} onDone={exitSelecting} />
+        )}
+
+        {visiblePinnedNotes.length > 0 && (
+          <div className="max-h-[40%] overflow-y-auto px-2 sm:px-3 md:px-6 py-3 border-b border-border" data-testid="pinned-notes">
+            <div className="flex items-center mb-2 text-xs font-medium text-muted-foreground">
+              <Pin className="w-3 h-3 mr-1" />
+              Pinned
+            </div>
+            {visiblePinnedNotes.map(note => (
+              <div key={note.id} className="pb-3 md:pb-4">
+                {renderNote(note)}
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Notes List */}
-  <div className="flex-1 overflow-y-auto p-2 sm:p-3 md:p-6 space-y-3 md:space-y-4 w-full">
-          {Object.keys(notesByDate).length === 0 ? (
+        <div ref={scrollRef} className="flex-1 overflow-y-auto p-2 sm:p-3 md:p-6 w-full">
+          {rows.length === 0 ? (
             <div className="flex flex-col items-center justify-center h-full text-center">
               <div className="text-muted-foreground mb-2">
-                {selectedTag ? `No notes found with tag "${selectedTag}"` : "No notes yet"}
+                {query ? "No notes match this filter" : selectedTag ? `No notes found with tag "${selectedTag}"` : "No notes yet"}
               </div>
               <div className="text-sm text-muted-foreground">
                 Start writing to create your first timestamped note
               </div>
             </div>
           ) : (
-            Object.entries(notesByDate)
-              .sort(([a], [b]) => b.localeCompare(a)) // Sort dates descending
-              .map(([date, dayNotes]) => (
-                <div key={date}>
-                  {/* Date Header */}
-                  <div className="flex items-center justify-center py-4">
-                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                      <div className="h-px bg-border flex-1"></div>
-                      <span className="px-3 bg-background">
-                        {format(new Date(date), 'MMMM d, yyyy')}
-                      </span>
-                      <div className="h-px bg-border flex-1"></div>
-                    </div>
-                  </div>
-
-                  {/* Notes for this date */}
-                  <div className="space-y-3 md:space-y-4">
-                    {dayNotes.map((note) => (
-                        <div key={note.id} className="note-entry group relative" data-testid={`note-${note.id}`}>
-                          <div className="flex flex-col xs:flex-row items-start xs:space-x-2 md:space-x-3 w-full">
-                            <span className="timestamp text-muted-foreground mt-1 min-w-[50px] md:min-w-[60px] font-mono text-xs">
-                              {format(new Date(note.createdAt), 'hh:mm a')}
-                            </span>
-                            <div className="flex-1 min-w-0 w-full">
-                              {note.tags && note.tags.length > 0 && (
-                                <div className="flex flex-wrap items-center mb-2 gap-1 md:gap-2">
-                                  {note.tags.map((tag, index) => (
-                                    <span
-                                      key={tag}
-                                      className={`inline-flex items-center px-2 py-1 rounded-full text-xs ${
-                                        tagColors[index % tagColors.length]
-                                      }`}
-                                      data-testid={`tag-${tag}`}
-                                    >
-                                      <span className="w-1.5 h-1.5 rounded-full mr-1 opacity-60" />
-                                      {tag}
-                                    </span>
-                                  ))}
-                                </div>
-                              )}
-                              {note.folder && note.folder !== "General" && (
-                                <div className="text-xs text-muted-foreground mb-1">
-                                  📁 {note.folder}
-                                </div>
-                              )}
-                              <div className="note-content text-foreground font-serif leading-relaxed break-words" style={{ fontSize: 'var(--notes-font-size, 14px)' }}>
-                                {renderContentWithHighlights(note.originalContent || note.content)}
-                              </div>
-                            </div>
-                            
-                            {/* Delete button - now shows on all notes on hover */}
-                            <button
-                              onClick={() => {
-                                if (confirm("Delete this note?")) {
-                                  deleteNoteMutation.mutate(note.id);
-                                }
-                              }}
-                              className="opacity-0 group-hover:opacity-100 md:absolute md:top-1 md:right-1 relative top-0 right-0 p-1 text-muted-foreground hover:text-red-500 transition-all duration-200 flex-shrink-0"
-                              title="Delete note"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
+            <div className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualRows.map((virtualRow) => {
+                const row = rows[virtualRow.index];
+                return (
+                  <div
+                    key={virtualRow.key}
+                    data-index={virtualRow.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full"
+                    style={{ transform: `translateY(${virtualRow.start}px)` }}
+                  >
+                    {row.type === 'date' ? (
+                      /* Date Header */
+                      <div className="flex items-center justify-center py-4">
+                        <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                          <div className="h-px bg-border flex-1"></div>
+                          <span className="px-3 bg-background">
+                            {formatDayKey(row.date, displayPreferences)}
+                          </span>
+                          {selecting && (() => {
+                            const dayNoteIds = notesByDate[row.date].map(note => note.id);
+                            const allSelected = dayNoteIds.every(id => selectedIds.has(id));
+                            return (
+                              <button
+                                onClick={() => allSelected ? setSelected(dayNoteIds, false) : selectDay(row.date)}
+                                disabled={loadingDay !== null}
+                                className="px-2 text-xs text-primary hover:underline disabled:opacity-50"
+                                data-testid={`button-select-day-${row.date}`}
+                              >
+                                {loadingDay === row.date ? 'Loading...' : allSelected ? 'Clear' : 'Select all'}
+                              </button>
+                            );
+                          })()}
+                          <div className="h-px bg-border flex-1"></div>
                         </div>
-                      ))}
+                      </div>
+                    ) : (
+                      <div className="pb-3 md:pb-4">
+                        {renderNote(row.note)}
+                      </div>
+                    )}
                   </div>
-                </div>
-              ))
+                );
+              })}
+            </div>
+          )}
+          {isFetchingNextPage && (
+            <div className="py-4 text-center text-sm text-muted-foreground">Loading more notes...</div>
           )}
         </div>
 
         {/* Input Area */}
         <NoteInput />
       </div>
+
+      {revisionsNote && (
+        <NoteRevisions
+          note={notes.find(n => n.id === revisionsNote.id) || revisionsNote}
+          open={!!revisionsNote}
+          onOpenChange={(open) => !open && setRevisionsNote(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,70 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Bookmark, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { SavedSearch } from "@shared/schema";
+
+interface SavedSearchListProps {
+  searches: SavedSearch[];
+  selectedQuery: string | null;
+  onQuerySelect: (query: string | null) => void;
+  testIdPrefix?: string;
+}
+
+// Saved searches; picking one filters the timeline with its query
+export default function SavedSearchList({ searches, selectedQuery, onQuerySelect, testIdPrefix = "button-saved-search" }: SavedSearchListProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const deleteSearchMutation = useMutation({
+    mutationFn: async (search: SavedSearch) => {
+      await apiRequest("DELETE", `/api/saved-searches/${search.id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/saved-searches"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete saved search: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-1">
+      {searches.map(search => (
+        <div key={search.id} className="group flex items-center">
+          <Button
+            variant="ghost"
+            className={`flex-1 min-w-0 justify-start text-sm ${
+              selectedQuery === search.query ? 'bg-accent text-accent-foreground' : ''
+            }`}
+            onClick={() => onQuerySelect(search.query === selectedQuery ? null : search.query)}
+            title={search.query}
+            data-testid={`${testIdPrefix}-${search.id}`}
+          >
+            <Bookmark className="w-3 h-3 mr-2 flex-shrink-0" />
+            <span className="truncate">{search.name}</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 w-6 p-0 md:opacity-0 md:group-hover:opacity-100 text-muted-foreground hover:text-red-500"
+            onClick={() => {
+              if (window.confirm(`Delete the saved search "${search.name}"?`)) {
+                deleteSearchMutation.mutate(search);
+              }
+            }}
+            title="Delete saved search"
+            data-testid={`${testIdPrefix}-delete-${search.id}`}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
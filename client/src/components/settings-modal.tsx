@@ -9,11 +9,27 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Trash2, Plus, Download, Code, AlertTriangle, Upload, Minus } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import VariableImporter from "./variable-importer";
-import type { Variable, InsertVariable } from "@shared/schema";
+import VariableValueEditor from "./variable-value-editor";
+import VariablePackSettings from "./variable-pack-settings";
+import NoteImporter from "./note-importer";
+import AccountSettings from "./account-settings";
+import ApiTokenSettings from "./api-token-settings";
+import DateTimeSettings from "./date-time-settings";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { useTrashUndo, invalidateTrashQueries } from "@/hooks/use-trash";
+import { activeVariableValues, mergeVariableValues, pickVariableValue, toVariableValue } from "@shared/variables";
+import type { Variable, InsertVariable, VariableValue, VariableSelectionPolicy } from "@shared/schema";
+
+const SELECTION_POLICY_LABELS: Record<VariableSelectionPolicy, string> = {
+  default: "Default value",
+  rotate: "Rotate through values",
+  random: "Random value",
+};
 
 interface SettingsModalProps {
   open: boolean;
@@ -24,12 +40,15 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
   const [newVariableName, setNewVariableName] = useState("");
   const [newVariableValue, setNewVariableValue] = useState("");
   const [showImporter, setShowImporter] = useState(false);
+  const [showNoteImporter, setShowNoteImporter] = useState(false);
   const [fontSize, setFontSize] = useState(() => {
     const saved = localStorage.getItem('notes-font-size');
     return saved ? parseInt(saved) : 14;
   });
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { resolved: displayPreferences } = useDisplayPreferences();
+  const { showUndoToast } = useTrashUndo();
 
   // Apply font size on component mount
   useEffect(() => {
@@ -47,6 +66,7 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/variables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
       setNewVariableName("");
       setNewVariableValue("");
       toast({
@@ -54,10 +74,10 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
         description: "Your custom variable has been added.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to create variable. Please try again.",
+        description: `Failed to create variable: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
     },
@@ -70,15 +90,16 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/variables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
       toast({
         title: "Variable updated",
         description: "Your changes have been saved.",
       });
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Error",
-        description: "Failed to update variable. Please try again.",
+        description: `Failed to update variable: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
     },
@@ -90,6 +111,7 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/variables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
       toast({
         title: "Variable deleted",
         description: "The variable has been removed.",
@@ -106,14 +128,12 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
 
   const clearAllNotesMutation = useMutation({
     mutationFn: async () => {
-      await apiRequest("DELETE", "/api/notes");
+      const response = await apiRequest("DELETE", "/api/notes");
+      return response.json() as Promise<{ noteIds: string[] }>;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
-      toast({
-        title: "All notes cleared",
-        description: "Your notes have been deleted successfully.",
-      });
+    onSuccess: ({ noteIds }) => {
+      invalidateTrashQueries(queryClient);
+      showUndoToast(`${noteIds.length} note${noteIds.length === 1 ? '' : 's'} moved to the trash`, noteIds);
     },
     onError: () => {
       toast({
@@ -134,13 +154,14 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
       return;
     }
 
-    createVariableMutation.mutate({
-      name: newVariableName.trim(),
-      values: [newVariableValue.trim()],
-    });
+    // A value starting with "=" defines a computed variable instead of a fixed value
+    const value = newVariableValue.trim();
+    createVariableMutation.mutate(value.startsWith("=")
+      ? { name: newVariableName.trim(), values: [], expression: value.slice(1).trim() }
+      : { name: newVariableName.trim(), values: [toVariableValue(value)] });
   };
 
-  const handleUpdateVariable = (id: string, field: 'name' | 'values', value: string | string[]) => {
+  const handleUpdateVariable = (id: string, field: 'name' | 'values' | 'defaultValue' | 'selectionPolicy' | 'expression', value: string | VariableValue[] | null) => {
     updateVariableMutation.mutate({
       id,
       data: { [field]: value },
@@ -151,7 +172,7 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
     const variable = variables.find(v => v.id === variableId);
     if (!variable) return;
     
-    const updatedValues = [...(variable.values || []), newValue];
+    const updatedValues = mergeVariableValues(variable.values || [], [toVariableValue(newValue)]);
     updateVariableMutation.mutate({
       id: variableId,
       data: { values: updatedValues },
@@ -180,11 +201,9 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
 
   const handleExport = async (format: 'text' | 'json') => {
     try {
-      const response = await fetch(`/api/export/${format}`, {
-        credentials: 'include',
-      });
-      
-      if (!response.ok) throw new Error('Export failed');
+      // The text export is dated in this device's resolved zone and locale
+      const params = format === 'text' ? `?${new URLSearchParams(displayPreferences)}` : '';
+      const response = await apiRequest('GET', `/api/export/${format}${params}`);
       
       const blob = await response.blob();
       const url = URL.createObjectURL(blob);
@@ -209,8 +228,31 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
     }
   };
 
+  // A variable pack file that the importer, or anyone else's, reads back
+  const handleExportVariables = async () => {
+    try {
+      const response = await apiRequest('GET', '/api/variables/export');
+      
+      const blob = await response.blob();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = 'variables.json';
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({
+        title: "Export failed",
+        description: "Failed to export variables. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleClearAllNotes = () => {
-    if (window.confirm("Are you sure you want to delete all notes? This action cannot be undone.")) {
+    if (window.confirm("Move all notes to the trash?")) {
       clearAllNotesMutation.mutate();
     }
   };
@@ -228,7 +270,11 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
             <h3 className="text-lg font-medium mb-4">Custom Variables</h3>
             <p className="text-sm text-muted-foreground mb-4">
               Create custom variables that you can quickly insert into your notes using the{" "}
-              <code className="bg-muted px-1 rounded">/variable</code> syntax.
+              <code className="bg-muted px-1 rounded">/variable</code> syntax. Built-ins like{" "}
+              <code className="bg-muted px-1 rounded">/today</code>,{" "}
+              <code className="bg-muted px-1 rounded">/now</code>,{" "}
+              <code className="bg-muted px-1 rounded">/week</code> and{" "}
+              <code className="bg-muted px-1 rounded">/counter</code> are always available.
             </p>
             
             {/* Variable List */}
@@ -239,90 +285,150 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
                   className="p-4 bg-accent/30 dark:bg-accent/20 rounded-lg"
                   data-testid={`variable-${variable.name}`}
                 >
-                  <div className="flex items-center justify-between mb-3">
-                    <div className="flex-1">
-                      <Label className="text-xs font-medium text-muted-foreground">
-                        Variable Name
-                      </Label>
-                      <Input
-                        value={variable.name}
-                        onChange={(e) => handleUpdateVariable(variable.id, 'name', e.target.value)}
-                        className="mt-1"
-                        data-testid={`input-variable-name-${variable.name}`}
-                      />
+                  {variable.subscriptionId && (
+                    <p className="text-xs text-muted-foreground mb-3" data-testid={`text-variable-subscribed-${variable.name}`}>
+                      From a subscribed pack; it follows the pack's changes and can't be edited here.
+                    </p>
+                  )}
+                  <fieldset disabled={!!variable.subscriptionId} className="min-w-0">
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="flex-1">
+                        <Label className="text-xs font-medium text-muted-foreground">
+                          Variable Name
+                        </Label>
+                        <Input
+                          value={variable.name}
+                          onChange={(e) => handleUpdateVariable(variable.id, 'name', e.target.value)}
+                          className="mt-1"
+                          data-testid={`input-variable-name-${variable.name}`}
+                        />
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => deleteVariableMutation.mutate(variable.id)}
+                        className="text-muted-foreground hover:text-destructive ml-3"
+                        data-testid={`button-delete-variable-${variable.name}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
                     </div>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => deleteVariableMutation.mutate(variable.id)}
-                      className="text-muted-foreground hover:text-destructive ml-3"
-                      data-testid={`button-delete-variable-${variable.name}`}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
                   
-                  <div>
-                    <Label className="text-xs font-medium text-muted-foreground">
-                      Values ({variable.values?.length || 0})
-                    </Label>
-                    <div className="mt-2 space-y-2">
-                      {variable.values?.map((value, index) => (
-                        <div key={index} className="flex items-center space-x-2">
-                          <Input
+                    <div>
+                      <Label className="text-xs font-medium text-muted-foreground">
+                        Values ({variable.values?.length || 0})
+                      </Label>
+                      <div className="mt-2 space-y-2">
+                        {variable.values?.map((value, index) => (
+                          <VariableValueEditor
+                            key={index}
+                            variableName={variable.name}
+                            index={index}
                             value={value}
-                            onChange={(e) => {
+                            onChange={(changed) => {
                               const newValues = [...(variable.values || [])];
-                              newValues[index] = e.target.value;
+                              newValues[index] = changed;
                               handleUpdateVariable(variable.id, 'values', newValues);
                             }}
+                            onRemove={() => handleRemoveValueFromVariable(variable.id, index)}
+                          />
+                        ))}
+                      
+                        <div className="flex items-center space-x-2">
+                          <Input
+                            placeholder="Add new value..."
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter') {
+                                const input = e.target as HTMLInputElement;
+                                if (input.value.trim()) {
+                                  handleAddValueToVariable(variable.id, input.value.trim());
+                                  input.value = '';
+                                }
+                              }
+                            }}
                             className="flex-1"
-                            data-testid={`input-variable-value-${variable.name}-${index}`}
+                            data-testid={`input-add-value-${variable.name}`}
                           />
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => handleRemoveValueFromVariable(variable.id, index)}
-                            className="text-muted-foreground hover:text-destructive"
-                            data-testid={`button-remove-value-${variable.name}-${index}`}
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
-                        </div>
-                      ))}
-                      
-                      <div className="flex items-center space-x-2">
-                        <Input
-                          placeholder="Add new value..."
-                          onKeyDown={(e) => {
-                            if (e.key === 'Enter') {
-                              const input = e.target as HTMLInputElement;
-                              if (input.value.trim()) {
+                            onClick={(e) => {
+                              const input = (e.target as HTMLElement).closest('.flex')?.querySelector('input') as HTMLInputElement;
+                              if (input?.value.trim()) {
                                 handleAddValueToVariable(variable.id, input.value.trim());
                                 input.value = '';
                               }
-                            }
-                          }}
-                          className="flex-1"
-                          data-testid={`input-add-value-${variable.name}`}
-                        />
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={(e) => {
-                            const input = (e.target as HTMLElement).closest('.flex')?.querySelector('input') as HTMLInputElement;
-                            if (input?.value.trim()) {
-                              handleAddValueToVariable(variable.id, input.value.trim());
-                              input.value = '';
-                            }
-                          }}
-                          data-testid={`button-add-value-${variable.name}`}
+                            }}
+                            data-testid={`button-add-value-${variable.name}`}
+                          >
+                            <Plus className="w-3 h-3" />
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  
+                    {/* Saved on blur so half-typed expressions aren't validated on every keystroke */}
+                    <div className="mt-3">
+                      <Label className="text-xs font-medium text-muted-foreground">
+                        Expression (optional, replaces the values when set)
+                      </Label>
+                      <Input
+                        key={variable.expression ?? ""}
+                        defaultValue={variable.expression ?? ""}
+                        placeholder={'e.g., "S" + weeksSince(2026-01-05)'}
+                        onBlur={(e) => {
+                          const expression = e.target.value.trim() || null;
+                          if (expression !== (variable.expression ?? null)) {
+                            handleUpdateVariable(variable.id, 'expression', expression);
+                          }
+                        }}
+                        className="mt-1 font-mono"
+                        data-testid={`input-variable-expression-${variable.name}`}
+                      />
+                    </div>
+
+                    {/* How a bare /name picks its value when a note is saved */}
+                    <div className="grid grid-cols-2 gap-3 mt-3">
+                      <div>
+                        <Label className="text-xs font-medium text-muted-foreground">
+                          When inserted as /{variable.name}
+                        </Label>
+                        <Select
+                          value={variable.selectionPolicy}
+                          onValueChange={(policy) => handleUpdateVariable(variable.id, 'selectionPolicy', policy)}
+                          disabled={!!variable.expression}
                         >
-                          <Plus className="w-3 h-3" />
-                        </Button>
+                          <SelectTrigger className="mt-1" data-testid={`select-variable-policy-${variable.name}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {(Object.keys(SELECTION_POLICY_LABELS) as VariableSelectionPolicy[]).map(policy => (
+                              <SelectItem key={policy} value={policy}>{SELECTION_POLICY_LABELS[policy]}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div>
+                        <Label className="text-xs font-medium text-muted-foreground">
+                          Default value
+                        </Label>
+                        <Select
+                          value={activeVariableValues(variable).length > 0 ? pickVariableValue({ ...variable, selectionPolicy: "default" }) : ""}
+                          onValueChange={(value) => handleUpdateVariable(variable.id, 'defaultValue', value)}
+                          disabled={!!variable.expression || variable.selectionPolicy !== "default" || activeVariableValues(variable).length === 0}
+                        >
+                          <SelectTrigger className="mt-1" data-testid={`select-variable-default-${variable.name}`}>
+                            <SelectValue placeholder="No values" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {activeVariableValues(variable).map((value, index) => (
+                              <SelectItem key={index} value={value}>{value}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
                       </div>
                     </div>
-                  </div>
+                  </fieldset>
                 </div>
               ))}
             </div>
@@ -338,6 +444,15 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
                 <Upload className="w-4 h-4 mr-2" />
                 Import Variables
               </Button>
+              <Button
+                onClick={handleExportVariables}
+                variant="outline"
+                className="flex-1"
+                data-testid="button-export-variables"
+              >
+                <Download className="w-4 h-4 mr-2" />
+                Export Variables
+              </Button>
             </div>
 
             {/* Add Variable Form */}
@@ -360,7 +475,7 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
                     Value
                   </Label>
                   <Input
-                    placeholder="e.g., John Doe"
+                    placeholder='e.g., John Doe, or = format(today(), "EEE")'
                     value={newVariableValue}
                     onChange={(e) => setNewVariableValue(e.target.value)}
                     className="mt-1"
@@ -380,6 +495,12 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
             </div>
           </div>
 
+          {/* Variable Packs Section */}
+          <div className="pt-6 border-t border-border">
+            <h3 className="text-lg font-medium mb-4">Variable Packs</h3>
+            <VariablePackSettings />
+          </div>
+
           {/* Font Size Section */}
           <div className="pt-6 border-t border-border">
             <h3 className="text-lg font-medium mb-4">Font Size</h3>
@@ -416,10 +537,37 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
             </div>
           </div>
 
-          {/* Export Section */}
+          {/* Date & Time Section */}
+          <div className="pt-6 border-t border-border">
+            <h3 className="text-lg font-medium mb-4">Date & Time</h3>
+            <DateTimeSettings />
+          </div>
+
+          {/* Account Section */}
+          <div className="pt-6 border-t border-border">
+            <h3 className="text-lg font-medium mb-4">Account</h3>
+            <AccountSettings />
+          </div>
+
+          {/* API Tokens Section */}
           <div className="pt-6 border-t border-border">
-            <h3 className="text-lg font-medium mb-4">Export & Backup</h3>
+            <h3 className="text-lg font-medium mb-4">API Tokens</h3>
+            <ApiTokenSettings />
+          </div>
+
+          {/* Import & Export Section */}
+          <div className="pt-6 border-t border-border">
+            <h3 className="text-lg font-medium mb-4">Import, Export & Backup</h3>
             <div className="space-y-3">
+              <Button
+                onClick={() => setShowNoteImporter(true)}
+                variant="outline"
+                className="w-full"
+                data-testid="button-import-notes"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                Import Notes
+              </Button>
               <Button
                 onClick={() => handleExport('text')}
                 className="w-full"
@@ -454,7 +602,7 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
               {clearAllNotesMutation.isPending ? 'Clearing...' : 'Clear All Notes'}
             </Button>
             <p className="text-xs text-muted-foreground mt-2 text-center">
-              This action cannot be undone. Please export your notes first.
+              Notes can be restored from the trash until it's emptied.
             </p>
           </div>
         </div>
@@ -464,6 +612,11 @@ export default function SettingsModal({ open, onOpenChange }: SettingsModalProps
         open={showImporter}
         onOpenChange={setShowImporter}
       />
+      
+      <NoteImporter
+        open={showNoteImporter}
+        onOpenChange={setShowNoteImporter}
+      />
     </Dialog>
   );
 }
@@ -1,10 +1,21 @@
-import { useQuery } from "@tanstack/react-query";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { Settings, Download, Filter, Moon, Sun, Folder, FolderOpen, Plus, Trash2 } from "lucide-react";
+import { Link } from "wouter";
+import { useState } from "react";
+import { Settings, Download, Filter, Moon, Sun, Tags, Plus, Trash2 } from "lucide-react";
 import { useThemeContext } from "./theme-provider";
+import NoteSearch from "./note-search";
+import FolderTree from "./folder-tree";
+import TrashBin from "./trash-bin";
+import TagList from "./tag-list";
+import TagManager from "./tag-manager";
+import SavedSearchList from "./saved-search-list";
+import { useTags } from "@/hooks/use-tags";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import type { Note, Variable } from "@shared/schema";
+import { isInFolder, replaceFolderPrefix } from "@shared/folders";
+import type { SavedSearch, TrashContents, Variable } from "@shared/schema";
+import { activeVariableValues } from "@shared/variables";
 
 interface SidebarProps {
   onSettingsClick: () => void;
@@ -12,13 +23,20 @@ interface SidebarProps {
   onTagSelect: (tag: string | null) => void;
   selectedFolder?: string | null;
   onFolderSelect?: (folder: string | null) => void;
+  selectedQuery?: string | null;
+  onQuerySelect?: (query: string | null) => void;
 }
 
-export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, selectedFolder, onFolderSelect }: SidebarProps) {
+export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, selectedFolder, onFolderSelect, selectedQuery, onQuerySelect }: SidebarProps) {
   const { theme, toggleTheme } = useThemeContext();
   const { toast } = useToast();
-  const { data: notes = [] } = useQuery<Note[]>({
-    queryKey: ["/api/notes"],
+  const queryClient = useQueryClient();
+  const [showTrash, setShowTrash] = useState(false);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const { tags } = useTags();
+  // Under /api/notes so anything that changes notes refreshes the counts too
+  const { data: folderCounts = {} } = useQuery<Record<string, number>>({
+    queryKey: ["/api/notes", "folder-counts"],
   });
 
   const { data: variables = [] } = useQuery<Variable[]>({
@@ -29,13 +47,13 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
     queryKey: ["/api/folders"],
   });
 
-  // Get unique tags with counts
-  const tagCounts = notes.reduce((acc, note) => {
-    note.tags?.forEach(tag => {
-      acc[tag] = (acc[tag] || 0) + 1;
-    });
-    return acc;
-  }, {} as Record<string, number>);
+  const { data: trash } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+  });
+
+  const { data: savedSearches = [] } = useQuery<SavedSearch[]>({
+    queryKey: ["/api/saved-searches"],
+  });
 
   const handleExport = async (format: 'text' | 'json') => {
     try {
@@ -59,14 +77,78 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
     }
   };
 
-  const tagColors = [
-    'bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300',
-    'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300', 
-    'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300',
-    'bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300',
-    'bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300',
-    'bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300',
-  ];
+  const handleCreateFolder = async (parent?: string) => {
+    const folderName = prompt(parent ? `New subfolder in "${parent}":` : "Enter folder name (use / for subfolders):");
+    if (!folderName || !folderName.trim()) return;
+    
+    try {
+      const response = await apiRequest("POST", "/api/folders", { name: parent ? `${parent}/${folderName.trim()}` : folderName.trim() });
+      const { name } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      onFolderSelect?.(name);
+      toast({
+        title: "Folder created",
+        description: `"${name}" is ready for your notes.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to create folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRenameFolder = async (folder: string) => {
+    const newName = prompt("Rename or move folder (use / for subfolders):", folder);
+    if (!newName || !newName.trim() || newName.trim() === folder) return;
+    
+    try {
+      const response = await apiRequest("PATCH", `/api/folders/${encodeURIComponent(folder)}`, { name: newName.trim() });
+      const { name } = await response.json();
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      if (selectedFolder && isInFolder(selectedFolder, folder, true)) {
+        onFolderSelect?.(replaceFolderPrefix(selectedFolder, folder, name));
+      }
+      toast({
+        title: "Folder renamed",
+        description: `"${folder}" is now "${name}".`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to rename folder. A folder with that name may already exist.",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteFolder = async (folder: string, noteCount: number) => {
+    const message = noteCount > 0
+      ? `Move ${noteCount} note${noteCount === 1 ? '' : 's'} from "${folder}" and its subfolders to General and delete them?`
+      : `Delete folder "${folder}" and its subfolders?`;
+    if (!confirm(message)) return;
+    
+    try {
+      await apiRequest("DELETE", `/api/folders/${encodeURIComponent(folder)}${noteCount > 0 ? '?reassign=true' : ''}`);
+      queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+      if (selectedFolder && isInFolder(selectedFolder, folder, true)) {
+        onFolderSelect?.(null);
+      }
+      toast({
+        title: "Folder deleted",
+        description: noteCount > 0 ? "Its notes were moved to General." : `"${folder}" has been removed.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Failed to delete folder. Please try again.",
+        variant: "destructive",
+      });
+    }
+  };
 
   return (
     <div className="flex flex-col h-full">
@@ -76,6 +158,16 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
         <p className="text-sm text-muted-foreground mt-1">Enhanced with variables</p>
       </div>
       
+      {/* Search */}
+      <div className="px-4 pt-4">
+        <NoteSearch
+          onResultSelect={() => {
+            onTagSelect(null);
+            onFolderSelect?.(null);
+          }}
+        />
+      </div>
+      
       {/* Quick Actions */}
       <div className="p-4 space-y-2">
         <Button
@@ -106,7 +198,7 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
           Export Notes
         </Button>
         <Button
-          variant={!selectedTag && !selectedFolder ? "secondary" : "ghost"}
+          variant={!selectedTag && !selectedFolder && !selectedQuery ? "secondary" : "ghost"}
           className="w-full justify-start"
           onClick={() => {
             onTagSelect?.(null);
@@ -117,6 +209,20 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
           <Filter className="w-4 h-4 mr-3" />
           🏠 Home - All Notes
         </Button>
+        <Button
+          variant="ghost"
+          className="w-full justify-between"
+          onClick={() => setShowTrash(true)}
+          data-testid="button-trash"
+        >
+          <span className="flex items-center">
+            <Trash2 className="w-4 h-4 mr-3" />
+            Trash
+          </span>
+          {trash && trash.notes.length > 0 && (
+            <span className="text-xs text-muted-foreground">{trash.notes.length}</span>
+          )}
+        </Button>
       </div>
 
       {/* Folders Section */}
@@ -129,25 +235,7 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
             variant="ghost"
             size="sm"
             className="h-6 w-6 p-0"
-            onClick={async () => {
-              const folderName = prompt("Enter folder name:");
-              if (folderName && folderName.trim()) {
-                try {
-                  await apiRequest("POST", "/api/folders", { name: folderName.trim() });
-                  onFolderSelect?.(folderName.trim());
-                  toast({
-                    title: "Folder created",
-                    description: `"${folderName.trim()}" is ready for your notes.`,
-                  });
-                } catch (error) {
-                  toast({
-                    title: "Error",
-                    description: "Failed to create folder. Please try again.",
-                    variant: "destructive",
-                  });
-                }
-              }
-            }}
+            onClick={() => handleCreateFolder()}
             data-testid="button-add-folder"
           >
             <Plus className="h-3 w-3" />
@@ -162,57 +250,53 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
             data-testid="folder-all"
           >
             <span>All Folders</span>
-            <span className="text-xs text-muted-foreground">{notes.length}</span>
+            <span className="text-xs text-muted-foreground">{Object.values(folderCounts).reduce((sum, count) => sum + count, 0)}</span>
           </Button>
-          {["General", ...folders.filter(f => f !== "General")].map(folder => {
-            const count = notes.filter(note => (note.folder || "General") === folder).length;
-            return (
-              <Button
-                key={folder}
-                variant={selectedFolder === folder ? "secondary" : "ghost"}
-                size="sm"
-                className="w-full justify-between text-left"
-                onClick={() => onFolderSelect?.(folder)}
-                data-testid={`folder-${folder}`}
-              >
-                <span className="flex items-center">
-                  {selectedFolder === folder ? <FolderOpen className="w-3 h-3 mr-2" /> : <Folder className="w-3 h-3 mr-2" />}
-                  {folder}
-                </span>
-                <span className="text-xs text-muted-foreground">{count}</span>
-              </Button>
-            );
-          })}
+          <FolderTree
+            folders={folders}
+            noteCounts={folderCounts}
+            selectedFolder={selectedFolder}
+            onFolderSelect={onFolderSelect}
+            onCreateSubfolder={handleCreateFolder}
+            onRename={handleRenameFolder}
+            onDelete={handleDeleteFolder}
+          />
         </div>
       </div>
 
-      {/* Tags Filter */}
-      {Object.keys(tagCounts).length > 0 && (
-        <div className="p-4">
+      {/* Saved Searches */}
+      {savedSearches.length > 0 && (
+        <div className="p-4 border-t border-border">
           <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3">
-            Tags
+            Saved Searches
           </h3>
-          <div className="space-y-1">
-            {Object.entries(tagCounts).map(([tag, count], index) => (
-              <Button
-                key={tag}
-                variant="ghost"
-                className={`w-full justify-between text-sm ${
-                  selectedTag === tag ? 'bg-accent text-accent-foreground' : ''
-                }`}
-                onClick={() => onTagSelect(tag === selectedTag ? null : tag)}
-                data-testid={`button-tag-${tag}`}
-              >
-                <span className="flex items-center">
-                  <span className={`w-2 h-2 rounded-full mr-2 ${
-                    tagColors[index % tagColors.length].split(' ')[0]
-                  }`} />
-                  {tag}
-                </span>
-                <span className="text-xs text-muted-foreground">{count}</span>
-              </Button>
-            ))}
+          <SavedSearchList
+            searches={savedSearches}
+            selectedQuery={selectedQuery ?? null}
+            onQuerySelect={(query) => onQuerySelect?.(query)}
+          />
+        </div>
+      )}
+
+      {/* Tags Filter */}
+      {tags.some(tag => tag.count > 0) && (
+        <div className="p-4">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">
+              Tags
+            </h3>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              onClick={() => setShowTagManager(true)}
+              title="Manage tags"
+              data-testid="button-manage-tags"
+            >
+              <Tags className="h-3 w-3" />
+            </Button>
           </div>
+          <TagList tags={tags} selectedTag={selectedTag} onTagSelect={onTagSelect} />
         </div>
       )}
 
@@ -225,9 +309,11 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
           <div className="space-y-1 text-xs">
             {variables.slice(0, 5).map((variable) => (
               <div key={variable.id} className="flex items-center justify-between py-1">
-                <code className="text-primary">/{variable.name}</code>
+                <Link href={`/variables/${encodeURIComponent(variable.name)}`} className="hover:underline">
+                  <code className="text-primary">/{variable.name}</code>
+                </Link>
                 <span className="text-muted-foreground truncate ml-2 max-w-[100px]">
-                  {variable.values && variable.values.length > 0 ? variable.values[0] : 'No values'}
+                  {variable.expression ? `= ${variable.expression}` : activeVariableValues(variable)[0] ?? 'No values'}
                 </span>
               </div>
             ))}
@@ -239,6 +325,9 @@ export default function Sidebar({ onSettingsClick, selectedTag, onTagSelect, sel
           </div>
         </div>
       )}
+
+      <TrashBin open={showTrash} onOpenChange={setShowTrash} />
+      <TagManager open={showTagManager} onOpenChange={setShowTagManager} />
     </div>
   );
 }
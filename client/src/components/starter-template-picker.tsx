@@ -0,0 +1,110 @@
+import { useEffect } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { FileText, Folder, Variable as VariableIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { startSession } from "@/lib/session";
+import type { StarterTemplateSummary } from "@shared/schema";
+
+interface StarterTemplatePickerProps {
+  onStarted: () => void;
+}
+
+// Shown on first run, before the client has a session, to pick what the new notebook starts
+// with. Without any templates on the server it starts an empty one straight away.
+export default function StarterTemplatePicker({ onStarted }: StarterTemplatePickerProps) {
+  const { toast } = useToast();
+  const { data: templates, isError } = useQuery<StarterTemplateSummary[]>({
+    queryKey: ["/api/starter-templates"],
+  });
+
+  const startMutation = useMutation({
+    mutationFn: startSession,
+    onSuccess: onStarted,
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to start your notebook: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const nothingToPick = isError || templates?.length === 0;
+  useEffect(() => {
+    if (nothingToPick && startMutation.isIdle) {
+      startMutation.mutate("empty");
+    }
+  }, [nothingToPick, startMutation]);
+
+  if (!templates || nothingToPick) {
+    return <div className="h-screen flex items-center justify-center text-sm text-muted-foreground">Loading...</div>;
+  }
+
+  return (
+    <div className="min-h-screen w-full flex items-center justify-center px-4 py-8">
+      <div className="w-full max-w-2xl space-y-6">
+        <div>
+          <h1 className="text-2xl font-semibold">Welcome to NoteTimes</h1>
+          <p className="text-sm text-muted-foreground mt-1">
+            Start from a template with some variables, folders and notes to try, or with an empty notebook.
+          </p>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {templates.map(template => (
+            <Card key={template.id} data-testid={`starter-template-${template.id}`}>
+              <CardContent className="pt-6 space-y-3">
+                <div>
+                  <h2 className="font-medium">{template.name}</h2>
+                  {template.description && (
+                    <p className="text-sm text-muted-foreground">{template.description}</p>
+                  )}
+                </div>
+                <div className="space-y-1 text-xs text-muted-foreground">
+                  {template.variables.length > 0 && (
+                    <div className="flex items-center gap-1 truncate">
+                      <VariableIcon className="w-3 h-3 shrink-0" />
+                      {template.variables.map(name => `/${name}`).join(", ")}
+                    </div>
+                  )}
+                  {template.folders.length > 0 && (
+                    <div className="flex items-center gap-1 truncate">
+                      <Folder className="w-3 h-3 shrink-0" />
+                      {template.folders.join(", ")}
+                    </div>
+                  )}
+                  {template.notes > 0 && (
+                    <div className="flex items-center gap-1">
+                      <FileText className="w-3 h-3 shrink-0" />
+                      {template.notes} note{template.notes === 1 ? '' : 's'}
+                    </div>
+                  )}
+                </div>
+                <Button
+                  onClick={() => startMutation.mutate(template.id)}
+                  disabled={startMutation.isPending}
+                  className="w-full"
+                  data-testid={`button-start-template-${template.id}`}
+                >
+                  Start with this
+                </Button>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        <Button
+          variant="outline"
+          onClick={() => startMutation.mutate("empty")}
+          disabled={startMutation.isPending}
+          className="w-full"
+          data-testid="button-start-empty"
+        >
+          Start empty
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,38 @@
+import { Button } from "@/components/ui/button";
+import { tagDotClass } from "@/lib/tag-colors";
+import { tagDepth, tagLabel } from "@shared/tags";
+import type { TagSummary } from "@shared/schema";
+
+interface TagListProps {
+  tags: TagSummary[];
+  selectedTag: string | null;
+  onTagSelect: (tag: string | null) => void;
+  testIdPrefix?: string;
+}
+
+// Tags as an indented tree; selecting a tag shows the notes of its subtags too
+export default function TagList({ tags, selectedTag, onTagSelect, testIdPrefix = "button-tag" }: TagListProps) {
+  return (
+    <div className="space-y-1">
+      {tags.filter(tag => tag.count > 0).map(tag => (
+        <Button
+          key={tag.name}
+          variant="ghost"
+          className={`w-full justify-between text-sm ${
+            selectedTag === tag.name ? 'bg-accent text-accent-foreground' : ''
+          }`}
+          style={{ paddingLeft: `${1 + tagDepth(tag.name) * 0.75}rem` }}
+          onClick={() => onTagSelect(tag.name === selectedTag ? null : tag.name)}
+          title={tag.description ?? `#${tag.name}`}
+          data-testid={`${testIdPrefix}-${tag.name}`}
+        >
+          <span className="flex items-center min-w-0">
+            <span className={`w-2 h-2 rounded-full mr-2 flex-shrink-0 ${tagDotClass(tag.color)}`} />
+            <span className="truncate">{tagLabel(tag.name)}</span>
+          </span>
+          <span className="text-xs text-muted-foreground">{tag.count}</span>
+        </Button>
+      ))}
+    </div>
+  );
+}
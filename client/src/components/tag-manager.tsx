@@ -0,0 +1,198 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Pencil, Tags } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { tagDotClass } from "@/lib/tag-colors";
+import { useToast } from "@/hooks/use-toast";
+import { useTags } from "@/hooks/use-tags";
+import { TAG_COLORS, isInTag, isValidTagName, tagDepth, tagLabel } from "@shared/tags";
+import type { TagSummary, UpdateTag } from "@shared/schema";
+
+interface TagManagerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Colours, descriptions, renaming and merging of the session's tags
+export default function TagManager({ open, onOpenChange }: TagManagerProps) {
+  const [renaming, setRenaming] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { tags } = useTags();
+
+  const showError = (action: string) => (error: Error) => {
+    toast({
+      title: "Error",
+      description: `Failed to ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      variant: "destructive",
+    });
+  };
+
+  // Renames and merges rewrite the notes the tags appear in
+  const onNotesRewritten = ({ message, notes }: { message: string; notes: number }) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+    setRenaming(null);
+    toast({ title: message, description: `${notes} note${notes === 1 ? '' : 's'} updated.` });
+  };
+
+  const updateTagMutation = useMutation({
+    mutationFn: async ({ name, update }: { name: string; update: UpdateTag }) => {
+      await apiRequest("PATCH", `/api/tags/${encodeURIComponent(name)}`, update);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+    },
+    onError: showError("update tag"),
+  });
+
+  const renameTagMutation = useMutation({
+    mutationFn: async ({ from, to }: { from: string; to: string }) => {
+      const response = await apiRequest("POST", "/api/tags/rename", { from, to });
+      return response.json() as Promise<{ message: string; notes: number }>;
+    },
+    onSuccess: onNotesRewritten,
+    onError: showError("rename tag"),
+  });
+
+  const mergeTagsMutation = useMutation({
+    mutationFn: async ({ tags, into }: { tags: string[]; into: string }) => {
+      const response = await apiRequest("POST", "/api/tags/merge", { tags, into });
+      return response.json() as Promise<{ message: string; notes: number }>;
+    },
+    onSuccess: onNotesRewritten,
+    onError: showError("merge tags"),
+  });
+
+  const submitRename = (tag: TagSummary) => {
+    const to = newName.trim().replace(/^#/, "");
+    if (!to || to === tag.name) {
+      setRenaming(null);
+    } else if (isValidTagName(to)) {
+      renameTagMutation.mutate({ from: tag.name, to });
+    }
+  };
+
+  const mergeInto = (tag: TagSummary, into: string) => {
+    if (window.confirm(`Merge #${tag.name} into #${into}? Every note tagged #${tag.name} will be tagged #${into} instead.`)) {
+      mergeTagsMutation.mutate({ tags: [tag.name], into });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Tags className="w-4 h-4 mr-2" />
+            Tags
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-muted-foreground">
+          Nest tags with a slash, like #proj/alpha. Renaming or merging a tag updates every note it's in, subtags included.
+        </p>
+
+        {tags.length === 0 ? (
+          <div className="text-sm text-muted-foreground" data-testid="tags-empty">No tags yet. Add #tags to your notes.</div>
+        ) : (
+          <div className="rounded border border-border divide-y divide-border">
+            {tags.map(tag => (
+              <div
+                key={tag.name}
+                className="p-2 flex items-center gap-2"
+                style={{ paddingLeft: `${0.5 + tagDepth(tag.name) * 1.25}rem` }}
+                data-testid={`tag-row-${tag.name}`}
+              >
+                <Select
+                  value={tag.color}
+                  onValueChange={(color) => updateTagMutation.mutate({ name: tag.name, update: { color: color as TagSummary["color"] } })}
+                >
+                  <SelectTrigger className="h-7 w-10 px-2" title="Colour" data-testid={`select-tag-color-${tag.name}`}>
+                    <span className={`w-3 h-3 rounded-full ${tagDotClass(tag.color)}`} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TAG_COLORS.map(color => (
+                      <SelectItem key={color} value={color}>
+                        <span className="flex items-center">
+                          <span className={`w-3 h-3 rounded-full mr-2 ${tagDotClass(color)}`} />
+                          {color}
+                        </span>
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                {renaming === tag.name ? (
+                  <Input
+                    value={newName}
+                    onChange={(e) => setNewName(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') submitRename(tag);
+                      else if (e.key === 'Escape') setRenaming(null);
+                    }}
+                    onBlur={() => setRenaming(null)}
+                    className="h-7 w-40 text-sm"
+                    autoFocus
+                    data-testid={`input-rename-tag-${tag.name}`}
+                  />
+                ) : (
+                  <span className="text-sm font-medium w-40 truncate" title={`#${tag.name}`}>
+                    #{tagLabel(tag.name)}
+                    <span className="ml-1 text-xs text-muted-foreground font-normal">{tag.count}</span>
+                  </span>
+                )}
+
+                <Input
+                  key={`${tag.name}-${tag.description ?? ''}`}
+                  defaultValue={tag.description ?? ""}
+                  onBlur={(e) => {
+                    const description = e.target.value.trim();
+                    if (description !== (tag.description ?? "")) {
+                      updateTagMutation.mutate({ name: tag.name, update: { description: description || null } });
+                    }
+                  }}
+                  placeholder="Description"
+                  className="h-7 flex-1 text-xs"
+                  data-testid={`input-tag-description-${tag.name}`}
+                />
+
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 px-2"
+                  onClick={() => {
+                    setRenaming(tag.name);
+                    setNewName(tag.name);
+                  }}
+                  title="Rename"
+                  data-testid={`button-rename-tag-${tag.name}`}
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+
+                <Select value="" onValueChange={(into) => mergeInto(tag, into)}>
+                  <SelectTrigger className="h-7 w-24 text-xs" data-testid={`select-merge-tag-${tag.name}`}>
+                    Merge...
+                  </SelectTrigger>
+                  <SelectContent>
+                    {tags
+                      .filter(other => !isInTag(other.name, tag.name, true))
+                      .map(other => (
+                        <SelectItem key={other.name} value={other.name}>#{other.name}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
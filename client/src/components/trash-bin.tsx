@@ -0,0 +1,166 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { useTrashUndo, invalidateTrashQueries } from "@/hooks/use-trash";
+import { formatTimestamp } from "@shared/datetime";
+import type { TrashContents } from "@shared/schema";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+interface TrashBinProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Deleted notes, which can be restored or deleted for good until the retention period runs out
+export default function TrashBin({ open, onOpenChange }: TrashBinProps) {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const { resolved: displayPreferences } = useDisplayPreferences();
+  const { restoreNotesMutation } = useTrashUndo();
+
+  const { data: trash, isLoading } = useQuery<TrashContents>({
+    queryKey: ["/api/trash"],
+    enabled: open,
+  });
+  const notes = trash?.notes ?? [];
+
+  const deleteNoteMutation = useMutation({
+    mutationFn: async (noteId: string) => {
+      await apiRequest("DELETE", `/api/trash/${noteId}`);
+    },
+    onSuccess: () => {
+      invalidateTrashQueries(queryClient);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to delete note: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const emptyTrashMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("DELETE", "/api/trash");
+      return response.json() as Promise<{ deleted: number }>;
+    },
+    onSuccess: ({ deleted }) => {
+      invalidateTrashQueries(queryClient);
+      toast({
+        title: "Trash emptied",
+        description: `${deleted} note${deleted === 1 ? '' : 's'} deleted permanently.`,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to empty the trash. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const daysLeft = (deletedAt: Date | string) =>
+    Math.max(0, Math.ceil((new Date(deletedAt).getTime() + (trash?.retentionDays ?? 0) * DAY - Date.now()) / DAY));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <Trash2 className="w-4 h-4 mr-2" />
+            Trash
+          </DialogTitle>
+        </DialogHeader>
+
+        {trash && (
+          <p className="text-sm text-muted-foreground">
+            Notes are deleted permanently {trash.retentionDays} days after they're moved here.
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : notes.length === 0 ? (
+          <div className="text-sm text-muted-foreground" data-testid="trash-empty">The trash is empty.</div>
+        ) : (
+          <div className="space-y-3">
+            <div className="flex space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => restoreNotesMutation.mutate(notes.map(note => note.id))}
+                disabled={restoreNotesMutation.isPending}
+                data-testid="button-restore-all"
+              >
+                <RotateCcw className="w-3 h-3 mr-1" />
+                Restore all
+              </Button>
+              <Button
+                variant="destructive"
+                size="sm"
+                onClick={() => {
+                  if (window.confirm(`Permanently delete ${notes.length} note${notes.length === 1 ? '' : 's'}? This action cannot be undone.`)) {
+                    emptyTrashMutation.mutate();
+                  }
+                }}
+                disabled={emptyTrashMutation.isPending}
+                data-testid="button-empty-trash"
+              >
+                <Trash2 className="w-3 h-3 mr-1" />
+                {emptyTrashMutation.isPending ? 'Emptying...' : 'Empty trash'}
+              </Button>
+            </div>
+
+            <div className="rounded border border-border divide-y divide-border">
+              {notes.map(note => (
+                <div key={note.id} className="p-3 flex items-start gap-3" data-testid={`trash-note-${note.id}`}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-xs text-muted-foreground font-mono">
+                      {formatTimestamp(note.occurredAt, displayPreferences, 'dateTime')}
+                      {note.folder && note.folder !== 'General' && ` · ${note.folder}`}
+                      {` · ${daysLeft(note.deletedAt!)} days left`}
+                    </div>
+                    <div className="text-sm font-serif whitespace-pre-wrap break-words line-clamp-3">{note.content}</div>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2"
+                    onClick={() => restoreNotesMutation.mutate([note.id])}
+                    disabled={restoreNotesMutation.isPending}
+                    title="Restore"
+                    data-testid={`button-restore-note-${note.id}`}
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-7 px-2 text-muted-foreground hover:text-red-500"
+                    onClick={() => {
+                      if (window.confirm("Permanently delete this note? This action cannot be undone.")) {
+                        deleteNoteMutation.mutate(note.id);
+                      }
+                    }}
+                    disabled={deleteNoteMutation.isPending}
+                    title="Delete permanently"
+                    data-testid={`button-delete-forever-${note.id}`}
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -3,76 +3,91 @@ import { useMutation, useQueryClient } from '@tanstack/react-query';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
-import { Upload, FileText } from 'lucide-react';
+import { Upload, FileText, Eye, AlertTriangle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { apiRequest } from '@/lib/queryClient';
-import type { InsertVariable } from '@shared/schema';
+import { apiUpload } from '@/lib/queryClient';
+import type { VariableImportFormat, VariableImportMode, VariableImportPreview } from '@shared/schema';
 
 interface VariableImporterProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
 }
 
+const FORMAT_LABELS: Record<VariableImportFormat, string> = {
+  text: 'name=value lines',
+  csv: 'CSV',
+  json: 'JSON',
+  yaml: 'YAML',
+};
+
+const MODE_LABELS: Record<VariableImportMode, string> = {
+  merge: 'Add to existing values',
+  replace: 'Replace existing values',
+};
+
+// Previews an import with a dry run, then imports the same text with the same options
 export default function VariableImporter({ open, onOpenChange }: VariableImporterProps) {
   const [importMethod, setImportMethod] = useState<'text' | 'file'>('text');
   const [textInput, setTextInput] = useState('');
+  // Uploaded files keep their name so the server can tell the format from the extension
+  const [fileName, setFileName] = useState('variables');
+  const [importFormat, setImportFormat] = useState<VariableImportFormat | 'auto'>('auto');
+  const [mode, setMode] = useState<VariableImportMode>('merge');
+  const [namespace, setNamespace] = useState('');
+  const [preview, setPreview] = useState<VariableImportPreview | null>(null);
   const queryClient = useQueryClient();
   const { toast } = useToast();
 
+  const reset = () => {
+    setTextInput('');
+    setFileName('variables');
+    setImportFormat('auto');
+    setMode('merge');
+    setNamespace('');
+    setPreview(null);
+  };
+
   const importVariablesMutation = useMutation({
-    mutationFn: async (variables: InsertVariable[]) => {
-      // Import variables one by one
-      const results = [];
-      for (const variable of variables) {
-        try {
-          const response = await apiRequest("POST", "/api/variables", variable);
-          results.push(await response.json());
-        } catch (error) {
-          console.warn(`Failed to import variable ${variable.name}:`, error);
-        }
-      }
-      return results;
+    mutationFn: async (dryRun: boolean) => {
+      const formData = new FormData();
+      formData.append('file', new File([textInput], fileName));
+      if (importFormat !== 'auto') formData.append('format', importFormat);
+      formData.append('mode', mode);
+      if (namespace.trim()) formData.append('namespace', namespace.trim());
+      formData.append('dryRun', String(dryRun));
+      const response = await apiUpload('/api/variables/import', formData);
+      return response.json() as Promise<VariableImportPreview>;
     },
-    onSuccess: (results) => {
+    onSuccess: (result) => {
+      setPreview(result);
+      if (!result.imported) return;
+
       queryClient.invalidateQueries({ queryKey: ["/api/variables"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
       toast({
         title: "Variables imported",
-        description: `Successfully imported ${results.length} variables.`,
+        description: `Successfully imported ${result.imported.variables} variables.`,
       });
-      setTextInput('');
+      reset();
       onOpenChange(false);
     },
-    onError: () => {
+    onError: (error) => {
       toast({
         title: "Import failed",
-        description: "Failed to import variables. Please check the format and try again.",
+        description: `Failed to import variables: ${error instanceof Error ? error.message : 'Unknown error'}`,
         variant: "destructive",
       });
     },
   });
 
-  const parseVariables = (text: string): InsertVariable[] => {
-    const variables: InsertVariable[] = [];
-    const lines = text.split('\n').filter(line => line.trim());
-    
-    for (const line of lines) {
-      // Support multiple formats:
-      // name=value
-      // name:value  
-      // name,value
-      // /name=value
-      let match = line.match(/^\/?([\w\-_]+)[:=,]\s*(.+)$/);
-      if (match) {
-        variables.push({
-          name: match[1].trim(),
-          value: match[2].trim(),
-        });
-      }
-    }
-    
-    return variables;
+  // Any change to what would be imported makes the current preview stale
+  const changeOptions = (change: () => void) => {
+    change();
+    setPreview(null);
   };
 
   const handleFileImport = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -82,30 +97,20 @@ export default function VariableImporter({ open, onOpenChange }: VariableImporte
     const reader = new FileReader();
     reader.onload = (e) => {
       const content = e.target?.result as string;
-      setTextInput(content);
+      changeOptions(() => {
+        setTextInput(content);
+        setFileName(file.name);
+      });
       setImportMethod('text');
     };
     reader.readAsText(file);
   };
 
-  const handleImport = () => {
-    const variables = parseVariables(textInput);
-    
-    if (variables.length === 0) {
-      toast({
-        title: "No variables found",
-        description: "Please check the format. Use name=value, name:value, or name,value format.",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    importVariablesMutation.mutate(variables);
-  };
+  const changedVariables = preview?.variables.filter(variable => variable.status !== 'unchanged') ?? [];
 
   return (
-    <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) reset(); onOpenChange(isOpen); }}>
+      <DialogContent className="max-w-lg max-h-[85vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Import Variables</DialogTitle>
         </DialogHeader>
@@ -138,7 +143,7 @@ export default function VariableImporter({ open, onOpenChange }: VariableImporte
               <Label>Choose file</Label>
               <Input
                 type="file"
-                accept=".txt,.csv"
+                accept=".txt,.csv,.tsv,.json,.yaml,.yml"
                 onChange={handleFileImport}
                 className="mt-1"
                 data-testid="input-import-file"
@@ -148,33 +153,147 @@ export default function VariableImporter({ open, onOpenChange }: VariableImporte
 
           {/* Text Input */}
           <div>
-            <Label>Variables (one per line)</Label>
+            <Label>Variables</Label>
             <Textarea
-              placeholder={`user=John Doe
+              placeholder={`user=John Doe|JD|Johnny
 company:Acme Inc
 project,Alpha Project
 email=user@example.com`}
               value={textInput}
-              onChange={(e) => setTextInput(e.target.value)}
+              onChange={(e) => changeOptions(() => setTextInput(e.target.value))}
               className="mt-1 font-mono text-sm min-h-[120px]"
               data-testid="textarea-import-variables"
             />
             <p className="text-xs text-muted-foreground mt-1">
-              Supported formats: name=value, name:value, name,value
+              One name=value (or name:value, name,value) per line; CSV with a "name" column and a column
+              per value; JSON and YAML lists of variables with their values, or an exported variable
+              pack. Aliases follow a value
+              after "|", as in John Doe|JD.
             </p>
           </div>
 
-          {/* Import Button */}
-          <Button
-            onClick={handleImport}
-            disabled={!textInput.trim() || importVariablesMutation.isPending}
-            className="w-full"
-            data-testid="button-import-variables"
-          >
-            {importVariablesMutation.isPending ? 'Importing...' : 'Import Variables'}
-          </Button>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label>Format</Label>
+              <Select
+                value={importFormat}
+                onValueChange={(value) => changeOptions(() => setImportFormat(value as VariableImportFormat | 'auto'))}
+              >
+                <SelectTrigger className="mt-1" data-testid="select-variable-import-format">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="auto">Detect</SelectItem>
+                  {(Object.keys(FORMAT_LABELS) as VariableImportFormat[]).map(key => (
+                    <SelectItem key={key} value={key}>{FORMAT_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Existing variables</Label>
+              <Select
+                value={mode}
+                onValueChange={(value) => changeOptions(() => setMode(value as VariableImportMode))}
+              >
+                <SelectTrigger className="mt-1" data-testid="select-variable-import-mode">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(MODE_LABELS) as VariableImportMode[]).map(key => (
+                    <SelectItem key={key} value={key}>{MODE_LABELS[key]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Namespace (optional)</Label>
+            <Input
+              placeholder="e.g., acme to import /user as /acme.user"
+              value={namespace}
+              onChange={(e) => changeOptions(() => setNamespace(e.target.value))}
+              className="mt-1"
+              data-testid="input-variable-import-namespace"
+            />
+          </div>
+
+          {preview && (
+            <div className="space-y-3" data-testid="variable-import-preview">
+              <div className="flex flex-wrap gap-2 text-sm">
+                <Badge variant="secondary">{changedVariables.length} variables to add or update</Badge>
+                <Badge variant="outline">{FORMAT_LABELS[preview.format]}</Badge>
+                {preview.errors.length > 0 && (
+                  <Badge variant="destructive">{preview.errors.length} problems</Badge>
+                )}
+              </div>
+
+              {preview.errors.length > 0 && (
+                <div className="rounded border border-destructive/40 p-2 text-xs space-y-1 max-h-32 overflow-y-auto">
+                  {preview.errors.map((issue, index) => (
+                    <div key={index} className="flex items-start gap-1">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 text-destructive shrink-0" />
+                      <span><span className="font-medium">{issue.location}:</span> {issue.message}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {preview.variables.length > 0 && (
+                <div className="rounded border border-border divide-y divide-border text-xs max-h-48 overflow-y-auto">
+                  {preview.variables.map(variable => (
+                    <div key={variable.name} className="p-2 space-y-0.5" data-testid={`variable-import-${variable.name}`}>
+                      <div>
+                        <span className="font-mono">/{variable.name}</span>{' '}
+                        <span className="text-muted-foreground">
+                          {variable.status === 'new' && `new, ${variable.addedValues.length} values`}
+                          {variable.status === 'update' && 'updated'}
+                          {variable.status === 'unchanged' && 'nothing new'}
+                        </span>
+                        {variable.conflict && (
+                          <span className="text-amber-600 dark:text-amber-400"> · {variable.conflict}</span>
+                        )}
+                      </div>
+                      {variable.status === 'update' && variable.addedValues.length > 0 && (
+                        <div className="text-green-700 dark:text-green-400">+ {variable.addedValues.join(', ')}</div>
+                      )}
+                      {variable.removedValues.length > 0 && (
+                        <div className="text-destructive">− {variable.removedValues.join(', ')}</div>
+                      )}
+                      {variable.changedValues.length > 0 && (
+                        <div className="text-muted-foreground">~ {variable.changedValues.join(', ')}</div>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={() => importVariablesMutation.mutate(true)}
+              disabled={!textInput.trim() || importVariablesMutation.isPending}
+              className="flex-1"
+              data-testid="button-preview-variable-import"
+            >
+              <Eye className="w-4 h-4 mr-2" />
+              Preview
+            </Button>
+            <Button
+              onClick={() => importVariablesMutation.mutate(false)}
+              disabled={!preview || changedVariables.length === 0 || importVariablesMutation.isPending}
+              className="flex-1"
+              data-testid="button-import-variables"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              {importVariablesMutation.isPending ? 'Importing...' : `Import ${changedVariables.length} variables`}
+            </Button>
+          </div>
         </div>
       </DialogContent>
     </Dialog>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,324 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Package, Plus, Trash2, Copy, Link2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { PackSubscriptionSummary, PublishedPack, Variable } from "@shared/schema";
+
+const packLink = (pack: PublishedPack) => `${window.location.origin}/api/variable-packs/shared/${pack.shareToken}`;
+
+// Publishing variable packs by link and subscribing to other people's; shown as the Variable
+// Packs section of SettingsModal
+export default function VariablePackSettings() {
+  const [packName, setPackName] = useState("");
+  const [packVariables, setPackVariables] = useState<string[]>([]);
+  const [link, setLink] = useState("");
+  const [namespace, setNamespace] = useState("");
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: variables = [] } = useQuery<Variable[]>({
+    queryKey: ["/api/variables"],
+  });
+  const { data: packs = [] } = useQuery<PublishedPack[]>({
+    queryKey: ["/api/variable-packs"],
+  });
+  const { data: subscriptions = [] } = useQuery<PackSubscriptionSummary[]>({
+    queryKey: ["/api/pack-subscriptions"],
+  });
+
+  // Subscribed copies can't be passed on; publish from the session that owns them
+  const ownVariables = variables.filter(variable => !variable.subscriptionId);
+
+  const invalidateVariables = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/variables"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/variables/computed"] });
+  };
+
+  const publishPackMutation = useMutation({
+    mutationFn: async (data: { name: string; variableNames: string[] }) => {
+      const response = await apiRequest("POST", "/api/variable-packs", data);
+      return response.json() as Promise<PublishedPack>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/variable-packs"] });
+      setPackName("");
+      setPackVariables([]);
+      toast({
+        title: "Pack published",
+        description: "Copy its link to share it.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to publish pack: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unpublishPackMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/variable-packs/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/variable-packs"] });
+      toast({
+        title: "Pack unpublished",
+        description: "Its link no longer works; subscribers keep the variables they had.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to unpublish pack. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const subscribeMutation = useMutation({
+    mutationFn: async (data: { link: string; namespace?: string }) => {
+      const response = await apiRequest("POST", "/api/pack-subscriptions", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pack-subscriptions"] });
+      invalidateVariables();
+      setLink("");
+      setNamespace("");
+      toast({
+        title: "Subscribed",
+        description: "The pack's variables have been added and will follow its changes.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to subscribe: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unsubscribeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/pack-subscriptions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/pack-subscriptions"] });
+      invalidateVariables();
+      toast({
+        title: "Unsubscribed",
+        description: "The pack's variables have been removed.",
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to unsubscribe. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const togglePackVariable = (name: string, checked: boolean) => {
+    setPackVariables(current => checked ? [...current, name] : current.filter(n => n !== name));
+  };
+
+  const handlePublish = () => {
+    if (!packName.trim() || packVariables.length === 0) {
+      toast({
+        title: "Invalid input",
+        description: "A pack needs a name and at least one variable.",
+        variant: "destructive",
+      });
+      return;
+    }
+    publishPackMutation.mutate({ name: packName.trim(), variableNames: packVariables });
+  };
+
+  const handleCopyLink = async (pack: PublishedPack) => {
+    await navigator.clipboard.writeText(packLink(pack));
+    toast({
+      title: "Copied",
+      description: "The pack link is on your clipboard.",
+    });
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">
+        Publish variables as a read-only pack others can subscribe to by link. Subscribers get your
+        changes the next time their variables load.
+      </p>
+
+      {packs.length > 0 && (
+        <div className="space-y-2">
+          {packs.map(pack => (
+            <div
+              key={pack.id}
+              className="flex items-center justify-between p-3 bg-accent/30 dark:bg-accent/20 rounded-lg"
+              data-testid={`variable-pack-${pack.id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <Package className="w-3 h-3 text-muted-foreground" />
+                  <span className="text-sm font-medium truncate">{pack.name}</span>
+                </div>
+                <div className="text-xs text-muted-foreground mt-1 truncate">
+                  {pack.variableNames.map(name => `/${name}`).join(", ")}
+                </div>
+              </div>
+              <div className="flex items-center ml-3">
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => handleCopyLink(pack)}
+                  title="Copy link"
+                  data-testid={`button-copy-variable-pack-${pack.id}`}
+                >
+                  <Copy className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => {
+                    if (window.confirm(`Unpublish "${pack.name}"? Its link will stop working.`)) {
+                      unpublishPackMutation.mutate(pack.id);
+                    }
+                  }}
+                  className="text-muted-foreground hover:text-destructive"
+                  data-testid={`button-unpublish-variable-pack-${pack.id}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 border-2 border-dashed border-border dark:border-border rounded-lg space-y-3">
+        <div>
+          <Label className="text-xs font-medium text-muted-foreground">Pack Name</Label>
+          <Input
+            placeholder="e.g., Acme clients"
+            value={packName}
+            onChange={(e) => setPackName(e.target.value)}
+            className="mt-1"
+            data-testid="input-variable-pack-name"
+          />
+        </div>
+        {ownVariables.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add some variables to publish them.</p>
+        ) : (
+          <div className="space-y-2 max-h-40 overflow-y-auto">
+            {ownVariables.map(variable => (
+              <div key={variable.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`variable-pack-variable-${variable.name}`}
+                  checked={packVariables.includes(variable.name)}
+                  onCheckedChange={(checked) => togglePackVariable(variable.name, checked === true)}
+                  data-testid={`checkbox-variable-pack-${variable.name}`}
+                />
+                <Label htmlFor={`variable-pack-variable-${variable.name}`} className="text-sm font-normal font-mono">
+                  /{variable.name}
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+        <Button
+          onClick={handlePublish}
+          disabled={publishPackMutation.isPending}
+          className="w-full"
+          data-testid="button-publish-variable-pack"
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          {publishPackMutation.isPending ? 'Publishing...' : 'Publish Pack'}
+        </Button>
+      </div>
+
+      {subscriptions.length > 0 && (
+        <div className="space-y-2">
+          {subscriptions.map(subscription => (
+            <div
+              key={subscription.id}
+              className="flex items-center justify-between p-3 bg-accent/30 dark:bg-accent/20 rounded-lg"
+              data-testid={`pack-subscription-${subscription.id}`}
+            >
+              <div className="min-w-0">
+                <div className="flex items-center space-x-2">
+                  <Link2 className="w-3 h-3 text-muted-foreground" />
+                  <span className="text-sm font-medium truncate">{subscription.packName ?? "Unpublished pack"}</span>
+                  {subscription.namespace && (
+                    <code className="text-xs text-muted-foreground">/{subscription.namespace}.…</code>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground mt-1">
+                  {subscription.syncedAt
+                    ? `updated ${formatDistanceToNow(new Date(subscription.syncedAt), { addSuffix: true })}`
+                    : "not copied yet"}
+                </div>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => {
+                  if (window.confirm("Unsubscribe? The pack's variables will be removed.")) {
+                    unsubscribeMutation.mutate(subscription.id);
+                  }
+                }}
+                className="text-muted-foreground hover:text-destructive ml-3"
+                data-testid={`button-unsubscribe-pack-${subscription.id}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="p-4 border-2 border-dashed border-border dark:border-border rounded-lg space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">Pack Link</Label>
+            <Input
+              placeholder="https://…/api/variable-packs/shared/…"
+              value={link}
+              onChange={(e) => setLink(e.target.value)}
+              className="mt-1"
+              data-testid="input-pack-subscription-link"
+            />
+          </div>
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">Namespace (optional)</Label>
+            <Input
+              placeholder="e.g., acme for /acme.user"
+              value={namespace}
+              onChange={(e) => setNamespace(e.target.value)}
+              className="mt-1"
+              data-testid="input-pack-subscription-namespace"
+            />
+          </div>
+        </div>
+        <Button
+          onClick={() => subscribeMutation.mutate({ link: link.trim(), namespace: namespace.trim() || undefined })}
+          disabled={!link.trim() || subscribeMutation.isPending}
+          className="w-full"
+          data-testid="button-subscribe-pack"
+        >
+          <Link2 className="w-4 h-4 mr-2" />
+          {subscribeMutation.isPending ? 'Subscribing...' : 'Subscribe'}
+        </Button>
+      </div>
+    </div>
+  );
+}
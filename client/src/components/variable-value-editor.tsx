@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ChevronDown, ChevronRight, Trash2 } from "lucide-react";
+import type { VariableValue } from "@shared/schema";
+
+// Attributes are edited as "key: value" lines
+function formatAttributes(attributes: Record<string, string>): string {
+  return Object.entries(attributes).map(([key, value]) => `${key}: ${value}`).join("\n");
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  text.split("\n").forEach(line => {
+    const separator = line.indexOf(":");
+    if (separator === -1) return;
+    const key = line.slice(0, separator).trim();
+    if (key) attributes[key] = line.slice(separator + 1).trim();
+  });
+  return attributes;
+}
+
+interface VariableValueEditorProps {
+  variableName: string;
+  index: number;
+  value: VariableValue;
+  onChange: (value: VariableValue) => void;
+  onRemove: () => void;
+}
+
+// One value in the SettingsModal variable editor; its aliases, description, attributes and
+// archived flag fold out below it and are saved on blur
+export default function VariableValueEditor({ variableName, index, value, onChange, onRemove }: VariableValueEditorProps) {
+  const [expanded, setExpanded] = useState(false);
+  const testId = `${variableName}-${index}`;
+
+  return (
+    <div className={value.archived ? "opacity-60" : undefined}>
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => setExpanded(!expanded)}
+          className="px-1 text-muted-foreground"
+          title={expanded ? "Hide details" : "Aliases, description and attributes"}
+          data-testid={`button-toggle-value-details-${testId}`}
+        >
+          {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        </Button>
+        <Input
+          value={value.value}
+          onChange={(e) => onChange({ ...value, value: e.target.value })}
+          className="flex-1"
+          data-testid={`input-variable-value-${testId}`}
+        />
+        {value.archived && <span className="text-xs text-muted-foreground">archived</span>}
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onRemove}
+          className="text-muted-foreground hover:text-destructive"
+          data-testid={`button-remove-value-${testId}`}
+        >
+          <Trash2 className="w-3 h-3" />
+        </Button>
+      </div>
+
+      {expanded && (
+        <div className="ml-8 mt-2 mb-3 space-y-2">
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">Aliases (comma-separated)</Label>
+            <Input
+              key={value.aliases.join(",")}
+              defaultValue={value.aliases.join(", ")}
+              placeholder="e.g., JD, Johnny"
+              onBlur={(e) => {
+                const aliases = Array.from(new Set(e.target.value.split(",").map(alias => alias.trim()).filter(Boolean)));
+                if (aliases.join(",") !== value.aliases.join(",")) onChange({ ...value, aliases });
+              }}
+              className="mt-1"
+              data-testid={`input-value-aliases-${testId}`}
+            />
+          </div>
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">Description</Label>
+            <Input
+              key={value.description ?? ""}
+              defaultValue={value.description ?? ""}
+              onBlur={(e) => {
+                const description = e.target.value.trim() || null;
+                if (description !== value.description) onChange({ ...value, description });
+              }}
+              className="mt-1"
+              data-testid={`input-value-description-${testId}`}
+            />
+          </div>
+          <div>
+            <Label className="text-xs font-medium text-muted-foreground">Attributes (one key: value per line)</Label>
+            <Textarea
+              key={formatAttributes(value.attributes)}
+              defaultValue={formatAttributes(value.attributes)}
+              placeholder={"email: john@example.com\nrole: Designer"}
+              onBlur={(e) => {
+                const attributes = parseAttributes(e.target.value);
+                if (formatAttributes(attributes) !== formatAttributes(value.attributes)) onChange({ ...value, attributes });
+              }}
+              className="mt-1 font-mono text-xs min-h-[60px]"
+              data-testid={`textarea-value-attributes-${testId}`}
+            />
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id={`value-archived-${testId}`}
+              checked={value.archived}
+              onCheckedChange={(checked) => onChange({ ...value, archived: checked === true })}
+              data-testid={`checkbox-value-archived-${testId}`}
+            />
+            <Label htmlFor={`value-archived-${testId}`} className="text-sm font-normal">
+              Archived · kept in existing notes, no longer suggested or picked
+            </Label>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
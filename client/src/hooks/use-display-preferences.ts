@@ -0,0 +1,17 @@
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getDevicePreferences, resolveDisplayPreferences } from '@shared/datetime';
+import type { DisplayPreferences } from '@shared/schema';
+
+// The session's date and time settings, with this browser's own filling in whatever isn't set
+export function useDisplayPreferences() {
+  const { data: preferences } = useQuery<DisplayPreferences>({
+    queryKey: ['/api/preferences'],
+    staleTime: Infinity,
+  });
+
+  const device = useMemo(() => getDevicePreferences(), []);
+  const resolved = useMemo(() => resolveDisplayPreferences(preferences, device), [preferences, device]);
+
+  return { preferences: preferences ?? {}, resolved, device };
+}
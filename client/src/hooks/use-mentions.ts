@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
+import type { VariableMentions } from '@shared/schema';
+
+// The mention index changes with the notes, so its queries are keyed under /api/notes and
+// refresh with everything that invalidates the notes
+
+// Mentions per note id, from the server's index
+export function useMentionCounts() {
+  const { data: counts = {} } = useQuery<Record<string, number>>({
+    queryKey: ['/api/notes', 'mentions'],
+    queryFn: async () => (await apiRequest('GET', '/api/variables/mentions')).json(),
+  });
+  return counts;
+}
+
+// Notes mentioning /name, or just `value` of it
+export function useVariableMentions(name: string, value: string | null) {
+  return useQuery<VariableMentions>({
+    queryKey: ['/api/notes', 'mentions', name, value],
+    queryFn: async () => {
+      const params = value !== null ? `?${new URLSearchParams({ value })}` : '';
+      return (await apiRequest('GET', `/api/variables/${encodeURIComponent(name)}/mentions${params}`)).json();
+    },
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { defaultTagColor, type TagColor } from '@shared/tags';
+import type { TagSummary } from '@shared/schema';
+
+// The session's tags with their colours; a tag the list doesn't know yet gets its default colour
+export function useTags() {
+  const { data: tags = [], isLoading } = useQuery<TagSummary[]>({
+    queryKey: ['/api/tags'],
+  });
+
+  const tagColor = (name: string): TagColor =>
+    tags.find(tag => tag.name === name)?.color ?? defaultTagColor(name);
+
+  return { tags, tagColor, isLoading };
+}
@@ -0,0 +1,59 @@
+import { useMutation, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { ToastAction } from "@/components/ui/toast";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Note } from "@shared/schema";
+
+// Everything that lists notes or counts them changes when notes go in or out of the trash
+export function invalidateTrashQueries(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: ["/api/notes"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/folders"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/attachments"] });
+}
+
+// Restoring notes from the trash, and the toast with an Undo button shown after moving them there
+export function useTrashUndo() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const restoreNotesMutation = useMutation({
+    mutationFn: async (noteIds: string[]) => {
+      const response = await apiRequest("POST", "/api/trash/restore", { noteIds });
+      return response.json() as Promise<Note[]>;
+    },
+    onSuccess: (restored) => {
+      invalidateTrashQueries(queryClient);
+      toast({
+        title: "Notes restored",
+        description: `${restored.length} note${restored.length === 1 ? '' : 's'} restored from the trash.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: `Failed to restore notes: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const showUndoToast = (title: string, noteIds: string[]) => {
+    toast({
+      title,
+      description: "Deleted notes stay in the trash for a while.",
+      action: noteIds.length > 0 ? (
+        <ToastAction
+          altText="Restore the deleted notes"
+          onClick={() => restoreNotesMutation.mutate(noteIds)}
+          data-testid="button-undo-delete"
+        >
+          Undo
+        </ToastAction>
+      ) : undefined,
+    });
+  };
+
+  return { restoreNotesMutation, showUndoToast };
+}
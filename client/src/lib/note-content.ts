@@ -0,0 +1,26 @@
+import type { NoteToken, Variable } from "@shared/schema";
+import { parseNoteText, resolveVariableTokens, tokensToContent, tokensToOriginalContent, tokensToEditorText } from "@shared/tokens";
+
+// Turn editor text into the fields of a note before it is saved. The server resolves the final
+// values (it owns the rotate counters), so content here is the best local guess for previews.
+export function processNoteContent(rawContent: string, variables: Variable[]): { content: string; originalContent: string; tokens: NoteToken[] } {
+  const tokens = parseNoteText(rawContent, variables);
+
+  return {
+    content: tokensToContent(resolveVariableTokens(tokens, variables)),
+    originalContent: tokensToOriginalContent(tokens),
+    tokens
+  };
+}
+
+// Tokens for a saved note; notes from before tokens were stored are parsed from their text
+export function getNoteTokens(note: { tokens?: NoteToken[] | null; originalContent: string; content: string }, variables: Variable[]): NoteToken[] {
+  if (note.tokens && note.tokens.length > 0) return note.tokens;
+  return parseNoteText(note.originalContent || note.content, variables);
+}
+
+// The text to put back in the editor when a saved note is edited
+export function getNoteEditorText(note: { tokens?: NoteToken[] | null; originalContent: string; content: string }): string {
+  if (note.tokens && note.tokens.length > 0) return tokensToEditorText(note.tokens);
+  return note.originalContent || note.content;
+}
@@ -23,6 +23,20 @@ export async function apiRequest(
   return res;
 }
 
+export async function apiUpload(
+  url: string,
+  formData: FormData,
+): Promise<Response> {
+  // Let the browser set the multipart boundary header itself
+  const res = await sessionFetch(url, {
+    method: "POST",
+    body: formData,
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
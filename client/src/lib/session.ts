@@ -1,4 +1,5 @@
-// Session management for anonymous users
+// Session management for anonymous users. The stored value is the signed session token the
+// server hands out, not a bare session ID.
 export class SessionManager {
   private sessionId: string | null = null;
   private readonly STORAGE_KEY = 'notetimes-session-id';
@@ -58,6 +59,12 @@ export function createSessionFetch() {
       credentials: 'include', // Include cookies for cross-origin requests
     });
 
+    // The server refuses expired or unknown sessions; drop ours and retry once with a fresh one
+    if (response.status === 401 && response.headers.get('x-session-invalid') && sessionHeaders['x-session-id']) {
+      sessionManager.clearSession();
+      return sessionFetch(url, options);
+    }
+
     // Check for session ID in response headers and update if present
     const responseSessionId = response.headers.get('x-session-id');
     if (responseSessionId && responseSessionId !== sessionManager.getSessionId()) {
@@ -69,4 +76,14 @@ export function createSessionFetch() {
 }
 
 // Enhanced fetch with session management
-export const sessionFetch = createSessionFetch();
\ No newline at end of file
+export const sessionFetch = createSessionFetch();
+// A new visitor's first request starts their session from the starter template they picked
+// ("empty" for none); the server reads the template only when it creates the session
+export async function startSession(starterTemplate: string): Promise<void> {
+  const response = await sessionFetch('/api/auth/me', {
+    headers: { 'x-starter-template': starterTemplate },
+  });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+  }
+}
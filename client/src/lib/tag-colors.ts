@@ -0,0 +1,23 @@
+import type { TagColor } from "@shared/tags";
+
+// Written out in full so Tailwind picks up every class
+const TAG_COLOR_CLASSES: Record<TagColor, { chip: string; dot: string }> = {
+  blue: { chip: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-300", dot: "bg-blue-500" },
+  green: { chip: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300", dot: "bg-green-500" },
+  yellow: { chip: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-300", dot: "bg-yellow-500" },
+  purple: { chip: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-300", dot: "bg-purple-500" },
+  pink: { chip: "bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-300", dot: "bg-pink-500" },
+  indigo: { chip: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300", dot: "bg-indigo-500" },
+  red: { chip: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300", dot: "bg-red-500" },
+  orange: { chip: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-300", dot: "bg-orange-500" },
+  teal: { chip: "bg-teal-100 text-teal-800 dark:bg-teal-900/30 dark:text-teal-300", dot: "bg-teal-500" },
+  gray: { chip: "bg-gray-100 text-gray-800 dark:bg-gray-800/50 dark:text-gray-300", dot: "bg-gray-500" },
+};
+
+export function tagChipClass(color: TagColor): string {
+  return TAG_COLOR_CLASSES[color].chip;
+}
+
+export function tagDotClass(color: TagColor): string {
+  return TAG_COLOR_CLASSES[color].dot;
+}
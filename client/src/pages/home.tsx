@@ -11,8 +11,24 @@ export default function Home() {
   const [showSettings, setShowSettings] = useState(false);
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
   const [selectedFolder, setSelectedFolder] = useState<string | null>(null);
+  const [query, setQuery] = useState<string | null>(null);
   const { theme, toggleTheme } = useThemeContext();
 
+  // A query filters on its own, so picking one clears the tag and folder and picking those clears it
+  const selectTag = (tag: string | null) => {
+    setSelectedTag(tag);
+    setQuery(null);
+  };
+  const selectFolder = (folder: string | null) => {
+    setSelectedFolder(folder);
+    setQuery(null);
+  };
+  const selectQuery = (query: string | null) => {
+    setQuery(query);
+    setSelectedTag(null);
+    setSelectedFolder(null);
+  };
+
   return (
     <div className="flex flex-col md:flex-row h-screen w-full overflow-x-hidden">
       {/* Desktop Sidebar */}
@@ -20,9 +36,11 @@ export default function Home() {
         <Sidebar 
           onSettingsClick={() => setShowSettings(true)}
           selectedTag={selectedTag}
-          onTagSelect={setSelectedTag}
+          onTagSelect={selectTag}
           selectedFolder={selectedFolder}
-          onFolderSelect={setSelectedFolder}
+          onFolderSelect={selectFolder}
+          selectedQuery={query}
+          onQuerySelect={selectQuery}
         />
       </div>
 
@@ -51,14 +69,16 @@ export default function Home() {
             <MobileSidebar
               onSettingsClick={() => setShowSettings(true)}
               selectedTag={selectedTag}
-              onTagSelect={setSelectedTag}
+              onTagSelect={selectTag}
               selectedFolder={selectedFolder}
-              onFolderSelect={setSelectedFolder}
+              onFolderSelect={selectFolder}
+              selectedQuery={query}
+              onQuerySelect={selectQuery}
             />
           </div>
         </div>
 
-        <NotesArea selectedTag={selectedTag} selectedFolder={selectedFolder} />
+        <NotesArea selectedTag={selectedTag} selectedFolder={selectedFolder} query={query} onQueryChange={selectQuery} />
       </div>
 
       <SettingsModal 
@@ -0,0 +1,184 @@
+import { Link, useParams, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Hash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useDisplayPreferences } from "@/hooks/use-display-preferences";
+import { useVariableMentions } from "@/hooks/use-mentions";
+import { dayKey, formatDayKey, formatTimestamp } from "@shared/datetime";
+import { findVariableValue } from "@shared/variables";
+import type { Note, Variable } from "@shared/schema";
+
+// "2026-09" -> "2026-10"
+function nextMonth(month: string): string {
+  const [year, monthIndex] = month.split("-").map(Number);
+  return monthIndex === 12 ? `${year + 1}-01` : `${year}-${String(monthIndex + 1).padStart(2, "0")}`;
+}
+
+const mentionsPath = (name: string, value: string | null) =>
+  `/variables/${encodeURIComponent(name)}${value !== null ? `?${new URLSearchParams({ value })}` : ""}`;
+
+// Everything written about a person, project or whatever else a variable names: /variables/user
+// lists every note mentioning /user and /variables/user?value=Jane%20Smith just the ones about Jane
+export default function VariableMentionsPage() {
+  const { name } = useParams<{ name: string }>();
+  const value = new URLSearchParams(useSearch()).get("value");
+  const { resolved: displayPreferences } = useDisplayPreferences();
+  const { data: mentions, isLoading } = useVariableMentions(name, value);
+  const notes = mentions?.notes ?? [];
+  const { data: variables = [] } = useQuery<Variable[]>({
+    queryKey: ["/api/variables"],
+  });
+  const variable = variables.find(v => v.name === name);
+  const details = variable && value !== null ? findVariableValue(variable, value) : undefined;
+
+  // Notes grouped by the day they happened on, newest first like the timeline
+  const notesByDate = notes.reduce((acc, note) => {
+    const date = dayKey(note.occurredAt, displayPreferences.timeZone);
+    (acc[date] ??= []).push(note);
+    return acc;
+  }, {} as Record<string, Note[]>);
+
+  // Notes per month from the first mention to the latest, empty months included
+  const notesByMonth = new Map<string, number>();
+  Object.entries(notesByDate).forEach(([date, dayNotes]) => {
+    const month = date.slice(0, 7);
+    notesByMonth.set(month, (notesByMonth.get(month) ?? 0) + dayNotes.length);
+  });
+  const months: Array<{ month: string; notes: number }> = [];
+  const monthKeys = Array.from(notesByMonth.keys()).sort();
+  if (monthKeys.length > 0) {
+    for (let month = monthKeys[0]; month <= monthKeys[monthKeys.length - 1]; month = nextMonth(month)) {
+      months.push({ month, notes: notesByMonth.get(month) ?? 0 });
+    }
+  }
+  const busiestMonth = Math.max(1, ...months.map(month => month.notes));
+  const monthLabel = (month: string) =>
+    new Intl.DateTimeFormat(displayPreferences.locale, { month: "short", year: "numeric", timeZone: "UTC" })
+      .format(new Date(`${month}-01T12:00:00Z`));
+
+  return (
+    <div className="h-screen overflow-y-auto">
+      <div className="max-w-4xl mx-auto px-4 py-6 space-y-6">
+        <div className="flex items-center gap-3">
+          <Button asChild variant="ghost" size="sm" className="h-8 px-2">
+            <Link href="/" data-testid="button-back-home">
+              <ArrowLeft className="w-4 h-4 mr-1" />
+              Notes
+            </Link>
+          </Button>
+          <div className="min-w-0">
+            <h1 className="text-xl font-semibold truncate" data-testid="text-entity-name">{value ?? `/${name}`}</h1>
+            <p className="text-sm text-muted-foreground">
+              {value !== null && <code className="text-primary mr-2">/{name}</code>}
+              {notes.length} note{notes.length === 1 ? '' : 's'}
+              {details?.archived && <span className="ml-2">· archived</span>}
+            </p>
+          </div>
+        </div>
+
+        {details && (details.description || details.aliases.length > 0 || Object.keys(details.attributes).length > 0) && (
+          <div className="rounded border border-border p-4 space-y-2 text-sm" data-testid="entity-value-details">
+            {details.description && <p>{details.description}</p>}
+            {details.aliases.length > 0 && (
+              <p className="text-muted-foreground">Also known as {details.aliases.join(", ")}</p>
+            )}
+            {Object.keys(details.attributes).length > 0 && (
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1">
+                {Object.entries(details.attributes).map(([key, attribute]) => (
+                  <div key={key} className="contents">
+                    <dt className="text-muted-foreground">{key}</dt>
+                    <dd className="break-words">{attribute}</dd>
+                  </div>
+                ))}
+              </dl>
+            )}
+          </div>
+        )}
+
+        {mentions && mentions.values.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            <Button asChild variant={value === null ? "default" : "outline"} size="sm" className="h-7 px-3 text-xs">
+              <Link href={mentionsPath(name, null)} data-testid="button-entity-all">All values</Link>
+            </Button>
+            {mentions.values.filter(entry => entry.value !== null).map(entry => (
+              <Button
+                key={entry.value}
+                asChild
+                variant={value === entry.value ? "default" : "outline"}
+                size="sm"
+                className="h-7 px-3 text-xs"
+              >
+                <Link href={mentionsPath(name, entry.value)} data-testid={`button-entity-value-${entry.value}`}>
+                  {entry.value}
+                  <span className="ml-1 opacity-70">{entry.notes}</span>
+                </Link>
+              </Button>
+            ))}
+          </div>
+        )}
+
+        {months.length > 0 && (
+          <div className="rounded border border-border p-4" data-testid="entity-mentions-over-time">
+            <h2 className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-3">Notes per month</h2>
+            <div className="flex items-end gap-1 h-24 overflow-x-auto">
+              {months.map(({ month, notes: count }) => (
+                <div
+                  key={month}
+                  className="flex-1 min-w-[8px] max-w-[32px] bg-primary/70 rounded-t"
+                  style={{ height: `${Math.max(count > 0 ? 4 : 1, (count / busiestMonth) * 100)}%` }}
+                  title={`${monthLabel(month)}: ${count} note${count === 1 ? '' : 's'}`}
+                />
+              ))}
+            </div>
+            <div className="flex justify-between text-xs text-muted-foreground mt-1">
+              <span>{monthLabel(months[0].month)}</span>
+              {months.length > 1 && <span>{monthLabel(months[months.length - 1].month)}</span>}
+            </div>
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="text-sm text-muted-foreground">Loading...</div>
+        ) : notes.length === 0 ? (
+          <div className="text-sm text-muted-foreground" data-testid="entity-empty">
+            No notes mention {value ?? `/${name}`} yet.
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {Object.entries(notesByDate).map(([date, dayNotes]) => (
+              <div key={date}>
+                <div className="flex items-center justify-between text-sm text-muted-foreground mb-2">
+                  <span>{formatDayKey(date, displayPreferences)}</span>
+                  <span className="text-xs">{dayNotes.length}</span>
+                </div>
+                <div className="rounded border border-border divide-y divide-border">
+                  {dayNotes.map(note => (
+                    <div key={note.id} className="p-3 flex items-start gap-3" data-testid={`entity-note-${note.id}`}>
+                      <span className="text-xs text-muted-foreground font-mono pt-0.5">
+                        {formatTimestamp(note.occurredAt, displayPreferences, 'time')}
+                      </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-serif whitespace-pre-wrap break-words">{note.content}</div>
+                        {(note.folder && note.folder !== 'General') || (note.tags && note.tags.length > 0) ? (
+                          <div className="flex flex-wrap items-center gap-2 mt-1 text-xs text-muted-foreground">
+                            {note.folder && note.folder !== 'General' && <span>📁 {note.folder}</span>}
+                            {note.tags?.map(tag => (
+                              <span key={tag} className="flex items-center">
+                                <Hash className="w-3 h-3" />
+                                {tag}
+                              </span>
+                            ))}
+                          </div>
+                        ) : null}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,70 @@
+import type { Request, Response, NextFunction } from "express";
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import type { ApiTokenScope } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { SessionRequest } from "./session-middleware";
+
+const TOKEN_PREFIX = "nt_";
+
+// Paths relative to /api that API tokens can never reach, so a leaked token can't sign in,
+// change the account or mint more tokens
+const SESSION_ONLY_PATHS = ["/auth", "/tokens"];
+
+// Paths relative to /api that hand out a whole session's data at once and need the "export" scope
+const EXPORT_PATHS = ["/export", "/variables/export"];
+
+export function generateApiToken(): { token: string; tokenHash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${nanoid(40)}`;
+  return { token, tokenHash: hashApiToken(token), prefix: token.slice(0, TOKEN_PREFIX.length + 6) };
+}
+
+// Tokens are long and random, so a fast hash is enough; it only keeps them unreadable at rest
+export function hashApiToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+// `path` is relative to /api
+export function requiredScope(method: string, path: string): ApiTokenScope | null {
+  if (SESSION_ONLY_PATHS.some(prefix => path === prefix || path.startsWith(`${prefix}/`))) return null;
+  if (EXPORT_PATHS.some(prefix => path === prefix || path.startsWith(`${prefix}/`))) return "export";
+  return method === "GET" || method === "HEAD" ? "read" : "write";
+}
+
+// Authenticates `Authorization: Bearer <token>` requests. Requests without one fall through to
+// the session middleware, which leaves requests already authenticated here alone.
+export function createApiTokenMiddleware(storage: IStorage) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      const authorization = req.headers.authorization;
+      if (!authorization?.startsWith("Bearer ")) {
+        return next();
+      }
+
+      const token = await storage.getApiTokenByHash(hashApiToken(authorization.slice("Bearer ".length).trim()));
+      if (!token) {
+        return res.status(401).json({ message: "Invalid API token" });
+      }
+
+      const scope = requiredScope(req.method, req.path);
+      if (!scope) {
+        return res.status(403).json({ message: "This endpoint can't be used with an API token" });
+      }
+      if (!token.scopes.includes(scope)) {
+        return res.status(403).json({ message: `This API token lacks the "${scope}" scope` });
+      }
+
+      // Scripted use counts as activity, so a session only used by scripts isn't purged as abandoned
+      await Promise.all([storage.touchApiToken(token.id), storage.updateSessionActivity(token.sessionId)]);
+
+      const sessionRequest = req as SessionRequest;
+      sessionRequest.sessionId = token.sessionId;
+      sessionRequest.clientSessionId = token.sessionId;
+      sessionRequest.apiToken = { id: token.id, scopes: token.scopes };
+      next();
+    } catch (error) {
+      console.error('API token middleware error:', error);
+      next(error);
+    }
+  };
+}
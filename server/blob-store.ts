@@ -0,0 +1,47 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+// Storage backend for attachment bytes, keyed by an opaque storage key
+export interface BlobStore {
+  put(key: string, data: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  delete(key: string): Promise<void>;
+}
+
+export class LocalDiskBlobStore implements BlobStore {
+  private readonly root: string;
+
+  constructor(root: string = process.env.ATTACHMENTS_DIR || path.resolve(process.cwd(), "uploads")) {
+    this.root = path.resolve(root);
+  }
+
+  private resolveKey(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    // Never let a key escape the storage root
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error("Invalid storage key");
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer): Promise<void> {
+    const filePath = this.resolveKey(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await fs.readFile(this.resolveKey(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolveKey(key), { force: true });
+  }
+}
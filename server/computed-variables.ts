@@ -0,0 +1,84 @@
+import { format, getISOWeek, getISOWeekYear } from "date-fns";
+import type { ComputedVariablePreview, Variable } from "@shared/schema";
+import { BUILTIN_VARIABLES, isBuiltinVariable, type BuiltinVariableName } from "@shared/builtin-variables";
+import { evaluateExpression, validateExpression, ExpressionError } from "./expressions";
+import type { IStorage } from "./storage";
+
+// /counter needs a value claimed from the session, so it's handled by the caller
+export function evaluateBuiltin(name: Exclude<BuiltinVariableName, "counter">, now: Date): string {
+  switch (name) {
+    case "today":
+      return format(now, "yyyy-MM-dd");
+    case "now":
+      return format(now, "HH:mm");
+    case "week":
+      return `${getISOWeekYear(now)}-W${String(getISOWeek(now)).padStart(2, "0")}`;
+  }
+}
+
+// Computes the value for a reference to a built-in or expression variable; undefined for ordinary
+// variables. `nextCounter` is only called for /counter so it can claim a number.
+export function computeVariableValue(
+  name: string,
+  variables: Variable[],
+  now: Date,
+  nextCounter: () => number,
+): string | undefined {
+  if (isBuiltinVariable(name)) {
+    return name === "counter" ? String(nextCounter()) : evaluateBuiltin(name, now);
+  }
+
+  const variable = variables.find(v => v.name === name);
+  if (!variable?.expression) return undefined;
+
+  try {
+    return evaluateExpression(variable.expression, { now });
+  } catch (error) {
+    // A broken expression leaves the reference unresolved rather than failing the save
+    if (error instanceof ExpressionError) return undefined;
+    throw error;
+  }
+}
+
+// What each built-in and expression variable would insert right now, without claiming a counter value
+export async function previewComputedVariables(storage: IStorage, sessionId: string, now = new Date()): Promise<ComputedVariablePreview[]> {
+  const [session, variables] = await Promise.all([
+    storage.getSession(sessionId),
+    storage.getVariables(sessionId),
+  ]);
+
+  const builtins: ComputedVariablePreview[] = BUILTIN_VARIABLES.map(builtin => ({
+    name: builtin.name,
+    kind: "builtin",
+    description: builtin.description,
+    value: builtin.name === "counter" ? String((session?.counter ?? 0) + 1) : evaluateBuiltin(builtin.name, now),
+  }));
+
+  const expressions: ComputedVariablePreview[] = variables
+    .filter(variable => variable.expression)
+    .map(variable => {
+      try {
+        return { name: variable.name, kind: "expression", description: variable.expression!, value: evaluateExpression(variable.expression!, { now }) };
+      } catch (error) {
+        return { name: variable.name, kind: "expression", description: variable.expression!, value: null, error: error instanceof Error ? error.message : String(error) };
+      }
+    });
+
+  return [...builtins, ...expressions];
+}
+
+// Checks what the insert schema can't: built-in names are reserved and expressions must parse
+export function getVariableDataError(data: { name?: string; expression?: string | null }): string | null {
+  if (data.name !== undefined && isBuiltinVariable(data.name)) {
+    return `/${data.name} is a built-in variable`;
+  }
+  if (data.expression) {
+    try {
+      validateExpression(data.expression);
+    } catch (error) {
+      if (error instanceof ExpressionError) return `Invalid expression: ${error.message}`;
+      throw error;
+    }
+  }
+  return null;
+}
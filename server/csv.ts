@@ -0,0 +1,77 @@
+// Minimal RFC 4180 CSV parsing: quoted fields may contain commas, newlines and "" escapes.
+// The delimiter is detected from the header row so semicolon and tab exports work too.
+
+const DELIMITERS = [",", ";", "\t"];
+
+function detectDelimiter(text: string): string {
+  const header = text.split(/\r?\n/, 1)[0];
+  return DELIMITERS
+    .map(delimiter => ({ delimiter, count: header.split(delimiter).length }))
+    .sort((a, b) => b.count - a.count)[0].delimiter;
+}
+
+// `line` is the 1-based line a row starts on, counting newlines inside quoted fields
+export interface CsvRow {
+  line: number;
+  cells: string[];
+}
+
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === "\n" || (char === "\r" && input[i + 1] !== "\n")) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = "";
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Blank lines carry no data; they are dropped after numbering so later rows keep their lines
+  return rows.filter(({ cells }) => cells.some(cell => cell.trim() !== ""));
+}
+
+// Rows as objects keyed by the header row, with the line each starts on in the file
+export function parseCsvRecords(text: string): { columns: string[]; records: Array<{ line: number; values: Record<string, string> }> } {
+  const [{ cells: header } = { cells: [] }, ...rows] = parseCsv(text);
+  const columns = header.map(column => column.trim());
+  return {
+    columns,
+    records: rows.map(({ line, cells }) => ({
+      line,
+      values: Object.fromEntries(columns.map((column, i) => [column, (cells[i] ?? "").trim()])),
+    })),
+  };
+}
@@ -1,21 +1,92 @@
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, asc, desc, sql, inArray, notInArray, isNull, isNotNull, lt, lte, gt, gte, type SQL, type AnyColumn } from "drizzle-orm";
+import { randomUUID } from "crypto";
 import { db } from "./db";
 import * as schema from "@shared/schema";
-import { type Note, type InsertNote, type Variable, type InsertVariable, type UserSession, type InsertUserSession } from "@shared/schema";
-import { type IStorage } from "./storage";
+import { type Note, type InsertNote, type UpdateNote, type NoteRevision, type NoteSearchResult, type Attachment, type InsertAttachment, type Variable, type InsertVariable, type UpdateVariable, type VariableValue, type UserSession, type InsertUserSession, type User, type InsertUser, type ApiToken, type InsertApiToken, type NoteImportData, type ImportedVariable, type VariableImportMode, type PublishedPack, type InsertPublishedPack, type PackSubscription, type InsertPackSubscription, type DisplayPreferences, type Tag, type UpdateTag, type TagSummary, type SavedSearch, type InsertSavedSearch, type VariableMentions } from "@shared/schema";
+import { type IStorage, type FolderNotesOptions, type SessionPurgeCutoffs, LEGACY_SESSION_GRACE } from "./storage";
+import { parseHeadline } from "./search-index";
+import { type BlobStore, LocalDiskBlobStore } from "./blob-store";
+import { type PageOptions } from "./pagination";
+import { FOLDER_SEPARATOR, normalizeFolderPath, ancestorFolderPaths, isInFolder } from "@shared/folders";
+import { retagNote, renameNoteTags, tokensToMentions } from "@shared/tokens";
+import { TAG_SEPARATOR, isInTag, replaceTagPrefix, summarizeTags } from "@shared/tags";
+import { applyVariableImport, mergeVariableValues } from "@shared/variables";
+import { type NoteQuery, type NoteQueryTerm } from "@shared/note-query";
+
+// Control characters can't appear in typed notes, so they're safe ts_headline markers
+const HEADLINE_START = "\u0001";
+const HEADLINE_STOP = "\u0002";
+const HEADLINE_OPTIONS = `StartSel=${HEADLINE_START}, StopSel=${HEADLINE_STOP}, MaxWords=30, MinWords=10, MaxFragments=1`;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Rows per insert statement when importing, well under Postgres's limit on bind parameters
+const IMPORT_BATCH_SIZE = 1000;
+
+// Abandoned sessions purged per cleanup run, so one run never holds a huge transaction
+const PURGE_BATCH_SIZE = 500;
+
+// Notes in the trash are left out of everything but the trash itself
+const notTrashed = isNull(schema.notes.deletedAt);
+
+// Postgres keeps microseconds but cursors carry JS milliseconds, so order and compare at that precision
+const occurredAtMs = sql`date_trunc('milliseconds', ${schema.notes.occurredAt})`;
+
+// Matches a folder path column against a folder and, optionally, everything nested below it
+function folderCondition(column: AnyColumn, folder: string, includeDescendants = true): SQL | undefined {
+  if (!includeDescendants) return eq(column, folder);
+  return or(eq(column, folder), sql`starts_with(${column}, ${folder + FOLDER_SEPARATOR})`);
+}
+
+// The SQL form of matchesNoteQuery's per-term check
+function noteQueryCondition(term: NoteQueryTerm): SQL | undefined {
+  const notes = schema.notes;
+  const hasToken = (where: SQL) =>
+    sql`exists (select 1 from json_array_elements(${notes.tokens}) as t(token) where ${where})`;
+  const isVariableToken = sql`t.token->>'type' in ('variable', 'value')`;
+  
+  switch (term.type) {
+    case "tag":
+      return sql`exists (select 1 from json_array_elements_text(${notes.tags}) as t(tag) where t.tag = ${term.tag} or starts_with(t.tag, ${term.tag + TAG_SEPARATOR}))`;
+    case "folder": {
+      const folder = sql`coalesce(${notes.folder}, 'General')`;
+      return or(sql`${folder} = ${term.folder}`, sql`starts_with(${folder}, ${term.folder + FOLDER_SEPARATOR})`);
+    }
+    case "after":
+      return gte(notes.occurredAt, term.date);
+    case "before":
+      return lt(notes.occurredAt, term.date);
+    case "has":
+      if (term.has === "attachment") {
+        return sql`exists (select 1 from ${schema.attachments} where ${schema.attachments.noteId} = ${notes.id})`;
+      }
+      if (term.has === "tag") return sql`json_array_length(${notes.tags}) > 0`;
+      return hasToken(isVariableToken);
+    case "var":
+      return term.value === undefined
+        ? hasToken(sql`${isVariableToken} and t.token->>'variable' = ${term.variable}`)
+        : hasToken(sql`t.token->>'type' = 'value' and t.token->>'variable' = ${term.variable} and lower(t.token->>'value') = lower(${term.value})`);
+    case "text":
+      return sql`strpos(lower(${notes.content}), lower(${term.text})) > 0`;
+  }
+}
 
 export class DbStorage implements IStorage {
-  async createSession(insertSession: InsertUserSession): Promise<UserSession> {
-    const [session] = await db.insert(schema.userSessions)
-      .values(insertSession)
-      .returning();
-    
-    // Add some default variables for this session
-    await this.createVariable({ sessionId: insertSession.sessionId, name: "user", values: ["John Doe", "Jane Smith", "Bob Wilson"] });
-    await this.createVariable({ sessionId: insertSession.sessionId, name: "company", values: ["Acme Inc", "Tech Corp", "Innovation Labs"] });
-    await this.createVariable({ sessionId: insertSession.sessionId, name: "project", values: ["Alpha", "Beta", "Gamma"] });
-    
-    return session;
+  constructor(private blobStore: BlobStore = new LocalDiskBlobStore()) {}
+
+  async createSession(insertSession: InsertUserSession, starter?: NoteImportData): Promise<UserSession> {
+    // A session is never left half seeded; if the starter data fails, so does the session
+    return await db.transaction(async (tx) => {
+      const [session] = await tx.insert(schema.userSessions)
+        .values({ ...insertSession, tokenIssuedAt: new Date() })
+        .returning();
+      
+      // A device signed in to an account works on the account's data, so its own session stays empty
+      if (starter && !session.userId) {
+        await this.insertImportData(tx, session.sessionId, starter);
+      }
+      return session;
+    });
   }
 
   async getSession(sessionId: string): Promise<UserSession | null> {
@@ -33,73 +104,1029 @@ export class DbStorage implements IStorage {
       .where(eq(schema.userSessions.sessionId, sessionId));
   }
 
-  async getNotes(sessionId: string): Promise<Note[]> {
+  async advanceSessionCounter(sessionId: string, steps: number): Promise<number> {
+    // Claim a block of counter values atomically so concurrent saves never share a number
+    const [updated] = await db.update(schema.userSessions)
+      .set({ counter: sql`${schema.userSessions.counter} + ${steps}` })
+      .where(eq(schema.userSessions.sessionId, sessionId))
+      .returning({ counter: schema.userSessions.counter });
+    
+    if (!updated) {
+      throw new Error("Session not found");
+    }
+    
+    return updated.counter - steps;
+  }
+
+  async updateSessionPreferences(sessionId: string, preferences: DisplayPreferences): Promise<DisplayPreferences> {
+    // Merged in SQL so two devices changing different fields don't undo each other
+    const [updated] = await db.update(schema.userSessions)
+      .set({ preferences: sql`(${schema.userSessions.preferences}::jsonb || ${JSON.stringify(preferences)}::jsonb)::json` })
+      .where(eq(schema.userSessions.sessionId, sessionId))
+      .returning({ preferences: schema.userSessions.preferences });
+    
+    if (!updated) {
+      throw new Error("Session not found");
+    }
+    
+    return updated.preferences;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    await db.delete(schema.userSessions)
+      .where(eq(schema.userSessions.sessionId, sessionId));
+  }
+
+  async mergeSession(fromSessionId: string, intoSessionId: string): Promise<void> {
+    const [from, into] = await Promise.all([this.getSession(fromSessionId), this.getSession(intoSessionId)]);
+    if (!from || !into) {
+      throw new Error("Session not found");
+    }
+    
+    await db.transaction(async (tx) => {
+      await tx.update(schema.notes)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.notes.sessionId, fromSessionId));
+      await tx.update(schema.noteRevisions)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.noteRevisions.sessionId, fromSessionId));
+      await tx.update(schema.attachments)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.attachments.sessionId, fromSessionId));
+      await tx.update(schema.apiTokens)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.apiTokens.sessionId, fromSessionId));
+      await tx.update(schema.savedSearches)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.savedSearches.sessionId, fromSessionId));
+      await tx.update(schema.noteMentions)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.noteMentions.sessionId, fromSessionId));
+      
+      const fromFolders = await tx.delete(schema.folders)
+        .where(eq(schema.folders.sessionId, fromSessionId))
+        .returning({ name: schema.folders.name });
+      if (fromFolders.length > 0) {
+        await tx.insert(schema.folders)
+          .values(fromFolders.map(folder => ({ sessionId: intoSessionId, name: folder.name })))
+          .onConflictDoNothing();
+      }
+      
+      // Tags with details in both sessions keep the target's
+      const fromTags = await tx.delete(schema.tags)
+        .where(eq(schema.tags.sessionId, fromSessionId))
+        .returning();
+      if (fromTags.length > 0) {
+        await tx.insert(schema.tags)
+          .values(fromTags.map(({ name, color, description }) => ({ sessionId: intoSessionId, name, color, description })))
+          .onConflictDoNothing();
+      }
+      
+      await tx.update(schema.publishedPacks)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.publishedPacks.sessionId, fromSessionId));
+      // A pack both sessions subscribe to keeps the target's subscription; the other's copies are
+      // combined with the target's like any other variables
+      const intoPacks = tx.select({ packId: schema.packSubscriptions.packId })
+        .from(schema.packSubscriptions)
+        .where(eq(schema.packSubscriptions.sessionId, intoSessionId));
+      await tx.delete(schema.packSubscriptions)
+        .where(and(
+          eq(schema.packSubscriptions.sessionId, fromSessionId),
+          inArray(schema.packSubscriptions.packId, intoPacks)
+        ));
+      await tx.update(schema.packSubscriptions)
+        .set({ sessionId: intoSessionId })
+        .where(eq(schema.packSubscriptions.sessionId, fromSessionId));
+      
+      // Variables with the same name are combined; the target keeps its own settings
+      const [fromVariables, intoVariables] = await Promise.all([
+        tx.select().from(schema.variables).where(eq(schema.variables.sessionId, fromSessionId)),
+        tx.select().from(schema.variables).where(eq(schema.variables.sessionId, intoSessionId)),
+      ]);
+      for (const variable of fromVariables) {
+        const target = intoVariables.find(v => v.name === variable.name);
+        if (target) {
+          const values = mergeVariableValues(target.values || [], variable.values || []);
+          await tx.update(schema.variables)
+            .set({ values })
+            .where(eq(schema.variables.id, target.id));
+          await tx.delete(schema.variables)
+            .where(eq(schema.variables.id, variable.id));
+        } else {
+          await tx.update(schema.variables)
+            .set({ sessionId: intoSessionId })
+            .where(eq(schema.variables.id, variable.id));
+        }
+      }
+      
+      await tx.delete(schema.userSessions)
+        .where(eq(schema.userSessions.sessionId, fromSessionId));
+    });
+  }
+
+  async upgradeLegacySession(sessionId: string): Promise<boolean> {
+    // The first sighting stamps tokenIssuedAt; after that only the grace period is left, and only
+    // for sessions that predate signed tokens (created well before their first token)
+    const tokenIssuedAt = schema.userSessions.tokenIssuedAt;
+    const upgraded = await db.update(schema.userSessions)
+      .set({ tokenIssuedAt: sql`coalesce(${tokenIssuedAt}, now())` })
+      .where(and(
+        eq(schema.userSessions.sessionId, sessionId),
+        or(
+          isNull(tokenIssuedAt),
+          and(
+            gt(tokenIssuedAt, new Date(Date.now() - LEGACY_SESSION_GRACE)),
+            lt(schema.userSessions.createdAt, sql`${tokenIssuedAt} - interval '1 minute'`)
+          )
+        )
+      ))
+      .returning({ id: schema.userSessions.id });
+    
+    return upgraded.length > 0;
+  }
+
+  async purgeExpiredSessions({ anonymousBefore, accountBefore }: SessionPurgeCutoffs): Promise<number> {
+    // Expired sign-ins go; the account data sessions they point at are never purged
+    const signIns = await db.delete(schema.userSessions)
+      .where(and(
+        isNotNull(schema.userSessions.userId),
+        lt(schema.userSessions.lastActiveAt, accountBefore),
+        notInArray(schema.userSessions.sessionId, db.select({ sessionId: schema.users.sessionId }).from(schema.users))
+      ))
+      .returning({ id: schema.userSessions.id });
+    
+    const abandoned = await db.select({ sessionId: schema.userSessions.sessionId })
+      .from(schema.userSessions)
+      .where(and(
+        isNull(schema.userSessions.userId),
+        lt(schema.userSessions.lastActiveAt, anonymousBefore)
+      ))
+      .limit(PURGE_BATCH_SIZE);
+    if (abandoned.length === 0) {
+      return signIns.length;
+    }
+    
+    const sessionIds = abandoned.map(session => session.sessionId);
+    const attachments = await db.transaction(async (tx) => {
+      const deletedAttachments = await tx.delete(schema.attachments)
+        .where(inArray(schema.attachments.sessionId, sessionIds))
+        .returning();
+      await tx.delete(schema.noteRevisions).where(inArray(schema.noteRevisions.sessionId, sessionIds));
+      await tx.delete(schema.noteMentions).where(inArray(schema.noteMentions.sessionId, sessionIds));
+      await tx.delete(schema.notes).where(inArray(schema.notes.sessionId, sessionIds));
+      await tx.delete(schema.folders).where(inArray(schema.folders.sessionId, sessionIds));
+      await tx.delete(schema.tags).where(inArray(schema.tags.sessionId, sessionIds));
+      await tx.delete(schema.variables).where(inArray(schema.variables.sessionId, sessionIds));
+      await tx.delete(schema.apiTokens).where(inArray(schema.apiTokens.sessionId, sessionIds));
+      await tx.delete(schema.savedSearches).where(inArray(schema.savedSearches.sessionId, sessionIds));
+      await tx.delete(schema.packSubscriptions).where(inArray(schema.packSubscriptions.sessionId, sessionIds));
+      // Other sessions' subscriptions go with the packs, leaving their copies as ordinary variables
+      await tx.delete(schema.publishedPacks).where(inArray(schema.publishedPacks.sessionId, sessionIds));
+      await tx.delete(schema.userSessions).where(inArray(schema.userSessions.sessionId, sessionIds));
+      return deletedAttachments;
+    });
+    await this.deleteBlobs(attachments);
+    
+    return signIns.length + sessionIds.length;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error("Username is already taken");
+    }
+    
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.insert(schema.users)
+        .values(insertUser)
+        .returning();
+      
+      const [session] = await tx.update(schema.userSessions)
+        .set({ userId: user.id })
+        .where(eq(schema.userSessions.sessionId, insertUser.sessionId))
+        .returning();
+      if (!session) {
+        throw new Error("Session not found");
+      }
+      
+      return user;
+    });
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    const result = await db.select()
+      .from(schema.users)
+      .where(eq(schema.users.id, userId))
+      .limit(1);
+    
+    return result[0] || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    const result = await db.select()
+      .from(schema.users)
+      .where(eq(schema.users.username, username))
+      .limit(1);
+    
+    return result[0] || null;
+  }
+
+  async getApiTokens(sessionId: string): Promise<ApiToken[]> {
     return await db.select()
+      .from(schema.apiTokens)
+      .where(eq(schema.apiTokens.sessionId, sessionId))
+      .orderBy(desc(schema.apiTokens.createdAt));
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    const result = await db.select()
+      .from(schema.apiTokens)
+      .where(eq(schema.apiTokens.tokenHash, tokenHash))
+      .limit(1);
+    
+    return result[0] || null;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const [token] = await db.insert(schema.apiTokens)
+      .values({ ...insertToken, scopes: [...insertToken.scopes] })
+      .returning();
+    return token;
+  }
+
+  async touchApiToken(tokenId: string): Promise<void> {
+    await db.update(schema.apiTokens)
+      .set({ lastUsedAt: new Date() })
+      .where(eq(schema.apiTokens.id, tokenId));
+  }
+
+  async deleteApiToken(sessionId: string, tokenId: string): Promise<void> {
+    const result = await db.delete(schema.apiTokens)
+      .where(and(
+        eq(schema.apiTokens.id, tokenId),
+        eq(schema.apiTokens.sessionId, sessionId)
+      ))
+      .returning();
+    
+    if (result.length === 0) {
+      throw new Error("API token not found");
+    }
+  }
+
+  async getNotes(sessionId: string, page?: PageOptions): Promise<Note[]> {
+    return await this.getNotePage(and(eq(schema.notes.sessionId, sessionId), notTrashed), page);
+  }
+
+  async getNotesByFolder(sessionId: string, folder: string, options?: FolderNotesOptions): Promise<Note[]> {
+    return await this.getNotePage(and(
+      eq(schema.notes.sessionId, sessionId),
+      notTrashed,
+      folderCondition(schema.notes.folder, folder, options?.includeDescendants ?? false)
+    ), options);
+  }
+
+  async queryNotes(sessionId: string, query: NoteQuery, page?: PageOptions): Promise<Note[]> {
+    return await this.getNotePage(and(
+      eq(schema.notes.sessionId, sessionId),
+      notTrashed,
+      ...query.terms.map(term => {
+        const condition = noteQueryCondition(term);
+        // A condition on a null column is null, not false; negated, those notes still match
+        return term.negated && condition ? sql`not coalesce((${condition}), false)` : condition;
+      })
+    ), page);
+  }
+
+  private async getNotePage(condition: SQL | undefined, page?: PageOptions): Promise<Note[]> {
+    const before = page?.before;
+    const query = db.select()
       .from(schema.notes)
-      .where(eq(schema.notes.sessionId, sessionId))
-      .orderBy(desc(schema.notes.createdAt));
+      .where(and(
+        condition,
+        before ? sql`(${occurredAtMs}, ${schema.notes.id}) < (${before.occurredAt.toISOString()}::timestamp, ${before.id})` : undefined
+      ))
+      .orderBy(desc(occurredAtMs), desc(schema.notes.id));
+    
+    return page?.limit ? await query.limit(page.limit) : await query;
   }
 
-  async getNotesByFolder(sessionId: string, folder: string): Promise<Note[]> {
-    return await db.select()
+  async getNote(sessionId: string, noteId: string): Promise<Note | null> {
+    const result = await db.select()
       .from(schema.notes)
       .where(and(
+        eq(schema.notes.id, noteId),
         eq(schema.notes.sessionId, sessionId),
-        eq(schema.notes.folder, folder)
+        notTrashed
       ))
-      .orderBy(desc(schema.notes.createdAt));
+      .limit(1);
+    
+    return result[0] || null;
+  }
+
+  async searchNotes(sessionId: string, query: string, limit = 50): Promise<NoteSearchResult[]> {
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const tsVector = sql`to_tsvector('english', ${schema.notes.content})`;
+    const rank = sql<number>`ts_rank(${tsVector}, ${tsQuery})`;
+    
+    const rows = await db.select({
+      note: schema.notes,
+      rank,
+      headline: sql<string>`ts_headline('english', ${schema.notes.content}, ${tsQuery}, ${HEADLINE_OPTIONS})`,
+    })
+      .from(schema.notes)
+      .where(and(
+        eq(schema.notes.sessionId, sessionId),
+        notTrashed,
+        sql`${tsVector} @@ ${tsQuery}`
+      ))
+      .orderBy(desc(rank), desc(schema.notes.occurredAt))
+      .limit(limit);
+    
+    return rows.map(row => ({
+      note: row.note,
+      rank: Number(row.rank),
+      ...parseHeadline(row.headline, HEADLINE_START, HEADLINE_STOP),
+    }));
   }
 
   async createNote(insertNote: InsertNote): Promise<Note> {
-    const [note] = await db.insert(schema.notes)
-      .values({
-        ...insertNote,
-        tags: insertNote.tags ? [...insertNote.tags] : []
+    return await db.transaction(async (tx) => {
+      const [note] = await tx.insert(schema.notes)
+        .values({
+          ...insertNote,
+          tokens: insertNote.tokens ? [...insertNote.tokens] : [],
+          tags: insertNote.tags ? [...insertNote.tags] : []
+        })
+        .returning();
+      await this.indexMentions(tx, [note]);
+      return note;
+    });
+  }
+
+  async importNotes(sessionId: string, data: NoteImportData): Promise<void> {
+    // All or nothing, so a failed import can simply be retried
+    await db.transaction(async (tx) => {
+      await this.insertImportData(tx, sessionId, data);
+    });
+  }
+
+  // Also how createSession seeds a session from a starter template
+  private async insertImportData(tx: Transaction, sessionId: string, data: NoteImportData): Promise<void> {
+    const folders = Array.from(new Set(data.folders.flatMap(folder => [...ancestorFolderPaths(folder), folder])));
+    
+    for (let i = 0; i < data.notes.length; i += IMPORT_BATCH_SIZE) {
+      const inserted = await tx.insert(schema.notes)
+        .values(data.notes.slice(i, i + IMPORT_BATCH_SIZE).map(note => ({
+          ...note,
+          sessionId,
+          tokens: note.tokens ? [...note.tokens] : [],
+          tags: note.tags ? [...note.tags] : [],
+        })))
+        .returning();
+      await this.indexMentions(tx, inserted);
+    }
+    
+    if (folders.length > 0) {
+      await tx.insert(schema.folders)
+        .values(folders.map(name => ({ sessionId, name })))
+        .onConflictDoNothing();
+    }
+    
+    // Variables with the same name are combined; the existing one keeps its own settings
+    const existing = await tx.select()
+      .from(schema.variables)
+      .where(eq(schema.variables.sessionId, sessionId));
+    for (const variable of data.variables) {
+      const target = existing.find(v => v.name === variable.name);
+      if (target) {
+        const values = mergeVariableValues(target.values || [], variable.values || []);
+        await tx.update(schema.variables)
+          .set({ values })
+          .where(eq(schema.variables.id, target.id));
+      } else {
+        await tx.insert(schema.variables)
+          .values({ ...variable, sessionId, values: variable.values ? [...variable.values] : [] });
+      }
+    }
+  }
+
+  async updateNote(sessionId: string, noteId: string, update: UpdateNote): Promise<Note> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx.select()
+        .from(schema.notes)
+        .where(and(
+          eq(schema.notes.id, noteId),
+          eq(schema.notes.sessionId, sessionId),
+          notTrashed
+        ))
+        .limit(1)
+        .for("update");
+      
+      if (!existing) {
+        throw new Error("Note not found or does not belong to this session");
+      }
+      
+      // Keep the current version before overwriting it
+      await this.snapshotNotes(tx, [existing]);
+      
+      const setData: Partial<typeof schema.notes.$inferInsert> = { updatedAt: new Date() };
+      if (update.content !== undefined) setData.content = update.content;
+      if (update.originalContent !== undefined) setData.originalContent = update.originalContent;
+      if (update.tokens !== undefined) setData.tokens = update.tokens ? [...update.tokens] : [];
+      if (update.tags !== undefined) setData.tags = update.tags ? [...update.tags] : [];
+      if (update.folder !== undefined) setData.folder = update.folder || "General";
+      if (update.occurredAt !== undefined) setData.occurredAt = update.occurredAt;
+      
+      const [updated] = await tx.update(schema.notes)
+        .set(setData)
+        .where(eq(schema.notes.id, noteId))
+        .returning();
+      if (update.tokens !== undefined) {
+        await this.indexMentions(tx, [updated]);
+      }
+      return updated;
+    });
+  }
+
+  async getPinnedNotes(sessionId: string): Promise<Note[]> {
+    return await db.select()
+      .from(schema.notes)
+      .where(and(
+        eq(schema.notes.sessionId, sessionId),
+        isNotNull(schema.notes.pinnedAt),
+        notTrashed
+      ))
+      .orderBy(desc(schema.notes.pinnedAt), desc(schema.notes.id));
+  }
+
+  async setNotePinned(sessionId: string, noteId: string, pinned: boolean): Promise<Note> {
+    // Pinning an already pinned note keeps its place
+    const [updated] = await db.update(schema.notes)
+      .set({ pinnedAt: pinned ? sql`coalesce(${schema.notes.pinnedAt}, now())` : null })
+      .where(and(
+        eq(schema.notes.id, noteId),
+        eq(schema.notes.sessionId, sessionId),
+        notTrashed
+      ))
+      .returning();
+    
+    if (!updated) {
+      throw new Error("Note not found");
+    }
+    return updated;
+  }
+
+  // Replaces the notes' rows in the mention index with ones from their current tokens
+  private async indexMentions(tx: Transaction, notes: Note[]): Promise<void> {
+    if (notes.length === 0) return;
+    
+    await tx.delete(schema.noteMentions)
+      .where(inArray(schema.noteMentions.noteId, notes.map(note => note.id)));
+    const rows = notes.flatMap(note => tokensToMentions(note.tokens ?? []).map(mention => ({
+      ...mention,
+      noteId: note.id,
+      sessionId: note.sessionId,
+    })));
+    for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+      await tx.insert(schema.noteMentions).values(rows.slice(i, i + IMPORT_BATCH_SIZE));
+    }
+  }
+
+  private async snapshotNotes(tx: Transaction, notes: Note[]): Promise<void> {
+    if (notes.length === 0) return;
+    
+    await tx.insert(schema.noteRevisions)
+      .values(notes.map(note => ({
+        noteId: note.id,
+        sessionId: note.sessionId,
+        content: note.content,
+        originalContent: note.originalContent,
+        tokens: note.tokens ? [...note.tokens] : [],
+        tags: note.tags ? [...note.tags] : [],
+        folder: note.folder,
+        occurredAt: note.occurredAt,
+      })));
+  }
+
+  async moveNotes(sessionId: string, noteIds: string[], folder: string): Promise<Note[]> {
+    const targetFolder = await this.createFolder(sessionId, folder);
+    
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(schema.notes)
+        .where(and(
+          eq(schema.notes.sessionId, sessionId),
+          inArray(schema.notes.id, noteIds),
+          notTrashed
+        ))
+        .for("update");
+      
+      // A move is an edit of the note's folder, so it goes through revision history
+      const toMove = existing.filter(note => note.folder !== targetFolder);
+      if (toMove.length === 0) return existing;
+      
+      await this.snapshotNotes(tx, toMove);
+      const moved = await tx.update(schema.notes)
+        .set({ folder: targetFolder, updatedAt: new Date() })
+        .where(inArray(schema.notes.id, toMove.map(note => note.id)))
+        .returning();
+      
+      return [...existing.filter(note => note.folder === targetFolder), ...moved];
+    });
+  }
+
+  async retagNotes(sessionId: string, noteIds: string[], add: string[], remove: string[]): Promise<Note[]> {
+    return await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(schema.notes)
+        .where(and(
+          eq(schema.notes.sessionId, sessionId),
+          inArray(schema.notes.id, noteIds),
+          notTrashed
+        ))
+        .for("update");
+      
+      const updates = existing.map(note => ({ note, update: retagNote(note, add, remove) }));
+      await this.snapshotNotes(tx, updates.filter(({ update }) => update).map(({ note }) => note));
+      
+      // Each note's text changes differently, so they're updated one at a time
+      const retagged: Note[] = [];
+      for (const { note, update } of updates) {
+        if (!update) {
+          retagged.push(note);
+          continue;
+        }
+        const [updated] = await tx.update(schema.notes)
+          .set({ ...update, updatedAt: new Date() })
+          .where(eq(schema.notes.id, note.id))
+          .returning();
+        retagged.push(updated);
+      }
+      return retagged;
+    });
+  }
+
+  async getTags(sessionId: string): Promise<TagSummary[]> {
+    const [details, fromNotes] = await Promise.all([
+      db.select()
+        .from(schema.tags)
+        .where(eq(schema.tags.sessionId, sessionId)),
+      db.select({ tags: schema.notes.tags })
+        .from(schema.notes)
+        .where(and(
+          eq(schema.notes.sessionId, sessionId),
+          notTrashed,
+          sql`json_array_length(${schema.notes.tags}) > 0`
+        )),
+    ]);
+    return summarizeTags(fromNotes.map(note => note.tags), details);
+  }
+
+  async updateTag(sessionId: string, name: string, update: UpdateTag): Promise<Tag> {
+    const changes: Partial<Tag> = {};
+    if (update.color !== undefined) changes.color = update.color;
+    if (update.description !== undefined) changes.description = update.description || null;
+    
+    const [tag] = await db.insert(schema.tags)
+      .values({ sessionId, name, color: changes.color ?? null, description: changes.description ?? null })
+      .onConflictDoUpdate({
+        target: [schema.tags.sessionId, schema.tags.name],
+        set: Object.keys(changes).length > 0 ? changes : { name },
       })
       .returning();
-    return note;
+    return tag;
+  }
+
+  async mergeTags(sessionId: string, tags: string[], into: string): Promise<number> {
+    const rename = (tag: string) => {
+      const source = tags.find(source => isInTag(tag, source, true));
+      return source ? replaceTagPrefix(tag, source, into) : tag;
+    };
+    const isSource = or(...tags.map(tag => sql`t.tag = ${tag} or starts_with(t.tag, ${tag + TAG_SEPARATOR})`));
+    
+    return await db.transaction(async (tx) => {
+      // Notes in the trash are rewritten too, so they come back with the new name
+      const tagged = await tx.select()
+        .from(schema.notes)
+        .where(and(
+          eq(schema.notes.sessionId, sessionId),
+          sql`exists (select 1 from json_array_elements_text(${schema.notes.tags}) as t(tag) where ${isSource})`
+        ))
+        .for("update");
+      
+      const updates = tagged.flatMap(note => {
+        const update = renameNoteTags(note, rename);
+        return update ? [{ note, update }] : [];
+      });
+      await this.snapshotNotes(tx, updates.filter(({ note }) => !note.deletedAt).map(({ note }) => note));
+      for (const { note, update } of updates) {
+        await tx.update(schema.notes)
+          .set(note.deletedAt ? update : { ...update, updatedAt: new Date() })
+          .where(eq(schema.notes.id, note.id));
+      }
+      
+      // Details move to the new name unless it already has its own
+      const details = await tx.select()
+        .from(schema.tags)
+        .where(eq(schema.tags.sessionId, sessionId));
+      const names = new Set(details.map(tag => tag.name));
+      for (const tag of details.filter(tag => rename(tag.name) !== tag.name)) {
+        const name = rename(tag.name);
+        if (names.has(name)) {
+          await tx.delete(schema.tags).where(eq(schema.tags.id, tag.id));
+        } else {
+          await tx.update(schema.tags).set({ name }).where(eq(schema.tags.id, tag.id));
+          names.add(name);
+        }
+      }
+      
+      return updates.length;
+    });
+  }
+
+  async getVariableMentions(sessionId: string, variable: string, value?: string): Promise<VariableMentions> {
+    const mentions = schema.noteMentions;
+    const ofVariable = and(eq(mentions.sessionId, sessionId), eq(mentions.variable, variable));
+    
+    const [values, notes] = await Promise.all([
+      db.select({ value: mentions.value, notes: sql<number>`count(*)::int` })
+        .from(mentions)
+        .innerJoin(schema.notes, eq(schema.notes.id, mentions.noteId))
+        .where(and(ofVariable, notTrashed))
+        .groupBy(mentions.value)
+        .orderBy(sql`count(*) desc`, sql`${mentions.value} asc nulls last`),
+      db.select()
+        .from(schema.notes)
+        .where(and(
+          eq(schema.notes.sessionId, sessionId),
+          notTrashed,
+          inArray(schema.notes.id, db.select({ noteId: mentions.noteId })
+            .from(mentions)
+            .where(and(ofVariable, value === undefined ? undefined : eq(mentions.value, value))))
+        ))
+        .orderBy(desc(occurredAtMs), desc(schema.notes.id)),
+    ]);
+    return { variable, value: value ?? null, values, notes };
+  }
+
+  async getMentionCounts(sessionId: string): Promise<Record<string, number>> {
+    const rows = await db.select({
+      noteId: schema.noteMentions.noteId,
+      count: sql<number>`sum(${schema.noteMentions.count})::int`,
+    })
+      .from(schema.noteMentions)
+      .innerJoin(schema.notes, eq(schema.notes.id, schema.noteMentions.noteId))
+      .where(and(eq(schema.noteMentions.sessionId, sessionId), notTrashed))
+      .groupBy(schema.noteMentions.noteId);
+    return Object.fromEntries(rows.map(row => [row.noteId, row.count]));
+  }
+
+  async getSavedSearches(sessionId: string): Promise<SavedSearch[]> {
+    return await db.select()
+      .from(schema.savedSearches)
+      .where(eq(schema.savedSearches.sessionId, sessionId))
+      .orderBy(asc(schema.savedSearches.name));
+  }
+
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const [search] = await db.insert(schema.savedSearches)
+      .values(insertSearch)
+      .returning();
+    return search;
+  }
+
+  async updateSavedSearch(sessionId: string, searchId: string, update: Pick<SavedSearch, "name" | "query">): Promise<SavedSearch> {
+    const [search] = await db.update(schema.savedSearches)
+      .set(update)
+      .where(and(
+        eq(schema.savedSearches.id, searchId),
+        eq(schema.savedSearches.sessionId, sessionId)
+      ))
+      .returning();
+    
+    if (!search) {
+      throw new Error("Saved search not found");
+    }
+    return search;
+  }
+
+  async deleteSavedSearch(sessionId: string, searchId: string): Promise<void> {
+    const result = await db.delete(schema.savedSearches)
+      .where(and(
+        eq(schema.savedSearches.id, searchId),
+        eq(schema.savedSearches.sessionId, sessionId)
+      ))
+      .returning();
+    
+    if (result.length === 0) {
+      throw new Error("Saved search not found");
+    }
+  }
+
+  async getNoteRevisions(sessionId: string, noteId: string): Promise<NoteRevision[]> {
+    return await db.select()
+      .from(schema.noteRevisions)
+      .where(and(
+        eq(schema.noteRevisions.noteId, noteId),
+        eq(schema.noteRevisions.sessionId, sessionId)
+      ))
+      .orderBy(desc(schema.noteRevisions.createdAt));
+  }
+
+  async restoreNoteRevision(sessionId: string, noteId: string, revisionId: string): Promise<Note> {
+    const [revision] = await db.select()
+      .from(schema.noteRevisions)
+      .where(and(
+        eq(schema.noteRevisions.id, revisionId),
+        eq(schema.noteRevisions.noteId, noteId),
+        eq(schema.noteRevisions.sessionId, sessionId)
+      ))
+      .limit(1);
+    
+    if (!revision) {
+      throw new Error("Revision not found");
+    }
+    
+    // Restoring is itself an edit, so the version being replaced stays in history
+    return await this.updateNote(sessionId, noteId, {
+      content: revision.content,
+      originalContent: revision.originalContent,
+      tokens: revision.tokens,
+      tags: revision.tags,
+      folder: revision.folder,
+      ...(revision.occurredAt && { occurredAt: revision.occurredAt }),
+    });
   }
 
   async deleteNote(sessionId: string, noteId: string): Promise<void> {
+    // Attachment rows cascade with the note, but their blobs have to be removed by hand
+    const noteAttachments = await this.getAttachments(sessionId, noteId);
+    
     const result = await db.delete(schema.notes)
       .where(and(
         eq(schema.notes.id, noteId),
-        eq(schema.notes.sessionId, sessionId)
+        eq(schema.notes.sessionId, sessionId),
+        isNotNull(schema.notes.deletedAt)
       ))
       .returning();
     
     if (result.length === 0) {
       throw new Error("Note not found or does not belong to this session");
     }
+    
+    await this.deleteBlobs(noteAttachments);
   }
 
   async deleteAllNotes(sessionId: string): Promise<void> {
+    const sessionAttachments = await this.getAttachments(sessionId);
+    
     await db.delete(schema.notes)
       .where(eq(schema.notes.sessionId, sessionId));
+    
+    await this.deleteBlobs(sessionAttachments);
+  }
+
+  async trashNotes(sessionId: string, noteIds?: string[]): Promise<string[]> {
+    const trashed = await db.update(schema.notes)
+      .set({ deletedAt: new Date() })
+      .where(and(
+        eq(schema.notes.sessionId, sessionId),
+        notTrashed,
+        noteIds ? inArray(schema.notes.id, noteIds) : undefined
+      ))
+      .returning({ id: schema.notes.id });
+    
+    return trashed.map(note => note.id);
+  }
+
+  async getTrashedNotes(sessionId: string): Promise<Note[]> {
+    return await db.select()
+      .from(schema.notes)
+      .where(and(
+        eq(schema.notes.sessionId, sessionId),
+        isNotNull(schema.notes.deletedAt)
+      ))
+      .orderBy(desc(schema.notes.deletedAt), desc(schema.notes.id));
+  }
+
+  async restoreNotes(sessionId: string, noteIds: string[]): Promise<Note[]> {
+    const restored = await db.update(schema.notes)
+      .set({ deletedAt: null })
+      .where(and(
+        eq(schema.notes.sessionId, sessionId),
+        inArray(schema.notes.id, noteIds),
+        isNotNull(schema.notes.deletedAt)
+      ))
+      .returning();
+    
+    // Their folders may have been deleted while they were in the trash
+    const folders = Array.from(new Set(restored.map(note => note.folder || "General")));
+    await Promise.all(folders.map(folder => this.createFolder(sessionId, folder)));
+    
+    return restored;
+  }
+
+  async purgeTrash(deletedBefore: Date, sessionId?: string): Promise<number> {
+    const condition = and(
+      lte(schema.notes.deletedAt, deletedBefore),
+      sessionId ? eq(schema.notes.sessionId, sessionId) : undefined
+    );
+    
+    // Attachment rows cascade with their notes, but the blobs have to be removed by hand
+    const attachments = await db.select()
+      .from(schema.attachments)
+      .where(inArray(schema.attachments.noteId, db.select({ id: schema.notes.id }).from(schema.notes).where(condition)));
+    
+    const purged = await db.delete(schema.notes)
+      .where(condition)
+      .returning({ id: schema.notes.id });
+    
+    await this.deleteBlobs(attachments);
+    return purged.length;
+  }
+
+  async getAttachments(sessionId: string, noteId?: string): Promise<Attachment[]> {
+    return await db.select()
+      .from(schema.attachments)
+      .where(and(
+        eq(schema.attachments.sessionId, sessionId),
+        noteId ? eq(schema.attachments.noteId, noteId) : undefined
+      ))
+      .orderBy(asc(schema.attachments.createdAt));
+  }
+
+  async getAttachment(sessionId: string, attachmentId: string): Promise<Attachment | null> {
+    const result = await db.select()
+      .from(schema.attachments)
+      .where(and(
+        eq(schema.attachments.id, attachmentId),
+        eq(schema.attachments.sessionId, sessionId)
+      ))
+      .limit(1);
+    
+    return result[0] || null;
+  }
+
+  async getAttachmentData(attachment: Attachment): Promise<Buffer | null> {
+    return await this.blobStore.get(attachment.storageKey);
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment, data: Buffer): Promise<Attachment> {
+    const note = await this.getNote(insertAttachment.sessionId, insertAttachment.noteId);
+    if (!note) {
+      throw new Error("Note not found or does not belong to this session");
+    }
+    
+    const id = randomUUID();
+    const storageKey = `${insertAttachment.sessionId}/${id}`;
+    await this.blobStore.put(storageKey, data);
+    
+    try {
+      const [attachment] = await db.insert(schema.attachments)
+        .values({ ...insertAttachment, id, storageKey })
+        .returning();
+      return attachment;
+    } catch (error) {
+      // Don't leave an orphaned blob behind if the row can't be written
+      await this.blobStore.delete(storageKey);
+      throw error;
+    }
+  }
+
+  async deleteAttachment(sessionId: string, attachmentId: string): Promise<void> {
+    const result = await db.delete(schema.attachments)
+      .where(and(
+        eq(schema.attachments.id, attachmentId),
+        eq(schema.attachments.sessionId, sessionId)
+      ))
+      .returning();
+    
+    if (result.length === 0) {
+      throw new Error("Attachment not found");
+    }
+    
+    await this.deleteBlobs(result);
+  }
+
+  private async deleteBlobs(attachments: Attachment[]): Promise<void> {
+    await Promise.all(attachments.map(attachment => this.blobStore.delete(attachment.storageKey)));
   }
 
   async getFolders(sessionId: string): Promise<string[]> {
-    const result = await db.select({ folder: schema.notes.folder })
+    // Combine explicitly created folders with folders from notes, plus any missing parents
+    const [created, fromNotes] = await Promise.all([
+      db.select({ name: schema.folders.name })
+        .from(schema.folders)
+        .where(eq(schema.folders.sessionId, sessionId)),
+      db.select({ folder: schema.notes.folder })
+        .from(schema.notes)
+        .where(and(eq(schema.notes.sessionId, sessionId), notTrashed))
+        .groupBy(schema.notes.folder),
+    ]);
+    
+    const folders = new Set(["General"]);
+    created.forEach(r => folders.add(r.name));
+    fromNotes.forEach(r => folders.add(r.folder || "General"));
+    Array.from(folders).forEach(folder => ancestorFolderPaths(folder).forEach(ancestor => folders.add(ancestor)));
+    
+    return Array.from(folders).sort();
+  }
+
+  async getFolderCounts(sessionId: string): Promise<Record<string, number>> {
+    const rows = await db.select({ folder: schema.notes.folder, notes: sql<number>`count(*)::int` })
       .from(schema.notes)
-      .where(eq(schema.notes.sessionId, sessionId))
+      .where(and(eq(schema.notes.sessionId, sessionId), notTrashed))
       .groupBy(schema.notes.folder);
     
-    const folders = result.map(r => r.folder || "General");
-    if (!folders.includes("General")) {
-      folders.unshift("General");
+    const counts: Record<string, number> = {};
+    rows.forEach(row => {
+      const folder = row.folder || "General";
+      counts[folder] = (counts[folder] || 0) + row.notes;
+    });
+    return counts;
+  }
+
+  async createFolder(sessionId: string, name: string): Promise<string> {
+    const path = normalizeFolderPath(name);
+    if (!path) {
+      throw new Error("Folder name is required");
+    }
+    await db.insert(schema.folders)
+      .values([...ancestorFolderPaths(path), path].map(folder => ({ sessionId, name: folder })))
+      .onConflictDoNothing();
+    return path;
+  }
+
+  async renameFolder(sessionId: string, name: string, newName: string): Promise<string> {
+    const path = normalizeFolderPath(newName);
+    if (name === "General") {
+      throw new Error("The General folder cannot be renamed");
+    }
+    if (!path) {
+      throw new Error("Folder name is required");
+    }
+    if (isInFolder(path, name, true) && path !== name) {
+      throw new Error("A folder cannot be moved inside itself");
     }
     
-    return folders.sort();
+    const existing = await this.getFolders(sessionId);
+    if (!existing.includes(name)) {
+      throw new Error("Folder not found");
+    }
+    if (path !== name && existing.includes(path)) {
+      throw new Error(`A folder named "${path}" already exists`);
+    }
+    
+    await db.transaction(async (tx) => {
+      // Renaming a folder carries its whole subtree along by swapping the path prefix. The prefix is
+      // measured in characters on the database side, as substr counts them; JS lengths count UTF-16 units.
+      await tx.update(schema.folders)
+        .set({ name: sql`${path} || substr(${schema.folders.name}, char_length(${name}::text) + 1)` })
+        .where(and(
+          eq(schema.folders.sessionId, sessionId),
+          folderCondition(schema.folders.name, name)
+        ));
+      // Folders that only existed implicitly through notes get a row under the new name
+      await tx.insert(schema.folders)
+        .values([...ancestorFolderPaths(path), path].map(folder => ({ sessionId, name: folder })))
+        .onConflictDoNothing();
+      await tx.update(schema.notes)
+        .set({ folder: sql`${path} || substr(${schema.notes.folder}, char_length(${name}::text) + 1)` })
+        .where(and(
+          eq(schema.notes.sessionId, sessionId),
+          folderCondition(schema.notes.folder, name)
+        ));
+    });
+    
+    return path;
   }
 
-  async createFolder(sessionId: string, name: string): Promise<string> {
-    // Folders are implicitly created when notes are assigned to them
-    // This is just a validation that the session exists
-    const session = await this.getSession(sessionId);
-    if (!session) {
-      throw new Error("Session not found");
+  async deleteFolder(sessionId: string, name: string, reassignTo?: string): Promise<void> {
+    if (name === "General") {
+      throw new Error("The General folder cannot be deleted");
+    }
+    
+    // Deleting a folder removes its subfolders too
+    const notesInFolder = await db.select({ id: schema.notes.id })
+      .from(schema.notes)
+      .where(and(
+        eq(schema.notes.sessionId, sessionId),
+        notTrashed,
+        folderCondition(schema.notes.folder, name)
+      ));
+    
+    if (notesInFolder.length > 0) {
+      if (!reassignTo) {
+        throw new Error("Cannot delete folder with notes. Please move or delete notes first.");
+      }
+      await this.moveNotes(sessionId, notesInFolder.map(note => note.id), reassignTo);
     }
-    return name.trim();
+    
+    await db.delete(schema.folders)
+      .where(and(
+        eq(schema.folders.sessionId, sessionId),
+        folderCondition(schema.folders.name, name)
+      ));
   }
 
   async getVariables(sessionId: string): Promise<Variable[]> {
@@ -121,7 +1148,10 @@ export class DbStorage implements IStorage {
     if (existing.length > 0) {
       // Update existing variable
       const [updated] = await db.update(schema.variables)
-        .set({ values: insertVariable.values ? [...insertVariable.values] : [] })
+        .set({
+          values: insertVariable.values ? [...insertVariable.values] : [],
+          ...(insertVariable.expression !== undefined && { expression: insertVariable.expression }),
+        })
         .where(eq(schema.variables.id, existing[0].id))
         .returning();
       return updated;
@@ -137,15 +1167,17 @@ export class DbStorage implements IStorage {
     return variable;
   }
 
-  async updateVariable(id: string, updateData: Partial<InsertVariable>): Promise<Variable> {
-    const setData: any = {};
+  async updateVariable(sessionId: string, id: string, updateData: UpdateVariable): Promise<Variable> {
+    const setData: Partial<typeof schema.variables.$inferInsert> = {};
     if (updateData.name !== undefined) setData.name = updateData.name;
-    if (updateData.sessionId !== undefined) setData.sessionId = updateData.sessionId;
     if (updateData.values !== undefined) setData.values = updateData.values ? [...updateData.values] : [];
+    if (updateData.defaultValue !== undefined) setData.defaultValue = updateData.defaultValue;
+    if (updateData.selectionPolicy !== undefined) setData.selectionPolicy = updateData.selectionPolicy;
+    if (updateData.expression !== undefined) setData.expression = updateData.expression;
     
     const [updated] = await db.update(schema.variables)
       .set(setData)
-      .where(eq(schema.variables.id, id))
+      .where(and(eq(schema.variables.id, id), eq(schema.variables.sessionId, sessionId)))
       .returning();
     
     if (!updated) {
@@ -155,9 +1187,9 @@ export class DbStorage implements IStorage {
     return updated;
   }
 
-  async deleteVariable(id: string): Promise<void> {
+  async deleteVariable(sessionId: string, id: string): Promise<void> {
     const result = await db.delete(schema.variables)
-      .where(eq(schema.variables.id, id))
+      .where(and(eq(schema.variables.id, id), eq(schema.variables.sessionId, sessionId)))
       .returning();
     
     if (result.length === 0) {
@@ -165,7 +1197,7 @@ export class DbStorage implements IStorage {
     }
   }
 
-  async addVariableValue(sessionId: string, name: string, value: string): Promise<Variable> {
+  async addVariableValue(sessionId: string, name: string, value: VariableValue): Promise<Variable> {
     // Find variable by name and session
     const existing = await db.select()
       .from(schema.variables)
@@ -185,17 +1217,187 @@ export class DbStorage implements IStorage {
     }
     
     const variable = existing[0];
-    const currentValues = variable.values || [];
+    const [updated] = await db.update(schema.variables)
+      .set({ values: mergeVariableValues(variable.values || [], [value]) })
+      .where(eq(schema.variables.id, variable.id))
+      .returning();
     
-    if (!currentValues.includes(value)) {
-      const [updated] = await db.update(schema.variables)
-        .set({ values: [...currentValues, value] })
-        .where(eq(schema.variables.id, variable.id))
+    return updated;
+  }
+
+  async importVariables(sessionId: string, variables: ImportedVariable[], mode: VariableImportMode): Promise<void> {
+    await db.transaction(async (tx) => {
+      const existing = await tx.select()
+        .from(schema.variables)
+        .where(eq(schema.variables.sessionId, sessionId));
+      for (const variable of variables) {
+        const target = existing.find(v => v.name === variable.name);
+        if (target) {
+          const { values, defaultValue, selectionPolicy, expression } = applyVariableImport(target, variable, mode);
+          await tx.update(schema.variables)
+            .set({ values, defaultValue, selectionPolicy, expression })
+            .where(eq(schema.variables.id, target.id));
+        } else {
+          await tx.insert(schema.variables)
+            .values({ ...variable, sessionId });
+        }
+      }
+    });
+  }
+
+  async getPublishedPacks(sessionId: string): Promise<PublishedPack[]> {
+    return await db.select()
+      .from(schema.publishedPacks)
+      .where(eq(schema.publishedPacks.sessionId, sessionId))
+      .orderBy(asc(schema.publishedPacks.name));
+  }
+
+  async getPublishedPack(packId: string): Promise<PublishedPack | null> {
+    const [pack] = await db.select()
+      .from(schema.publishedPacks)
+      .where(eq(schema.publishedPacks.id, packId));
+    return pack || null;
+  }
+
+  async getPublishedPackByToken(shareToken: string): Promise<PublishedPack | null> {
+    const [pack] = await db.select()
+      .from(schema.publishedPacks)
+      .where(eq(schema.publishedPacks.shareToken, shareToken));
+    return pack || null;
+  }
+
+  async createPublishedPack(insertPack: InsertPublishedPack): Promise<PublishedPack> {
+    const [pack] = await db.insert(schema.publishedPacks)
+      .values(insertPack)
+      .returning();
+    return pack;
+  }
+
+  async updatePublishedPack(sessionId: string, packId: string, update: Pick<PublishedPack, "name" | "variableNames">): Promise<PublishedPack> {
+    const [pack] = await db.update(schema.publishedPacks)
+      .set(update)
+      .where(and(
+        eq(schema.publishedPacks.id, packId),
+        eq(schema.publishedPacks.sessionId, sessionId)
+      ))
+      .returning();
+    
+    if (!pack) {
+      throw new Error("Variable pack not found");
+    }
+    return pack;
+  }
+
+  async deletePublishedPack(sessionId: string, packId: string): Promise<void> {
+    // Subscriptions go with the pack, and the foreign key turns their copies into ordinary variables
+    const result = await db.delete(schema.publishedPacks)
+      .where(and(
+        eq(schema.publishedPacks.id, packId),
+        eq(schema.publishedPacks.sessionId, sessionId)
+      ))
+      .returning();
+    
+    if (result.length === 0) {
+      throw new Error("Variable pack not found");
+    }
+  }
+
+  async getPackSubscriptions(sessionId: string): Promise<PackSubscription[]> {
+    return await db.select()
+      .from(schema.packSubscriptions)
+      .where(eq(schema.packSubscriptions.sessionId, sessionId))
+      .orderBy(asc(schema.packSubscriptions.createdAt));
+  }
+
+  async createPackSubscription(insertSubscription: InsertPackSubscription): Promise<PackSubscription> {
+    const existing = await db.select({ id: schema.packSubscriptions.id })
+      .from(schema.packSubscriptions)
+      .where(and(
+        eq(schema.packSubscriptions.sessionId, insertSubscription.sessionId),
+        eq(schema.packSubscriptions.packId, insertSubscription.packId)
+      ))
+      .limit(1);
+    if (existing.length > 0) {
+      throw new Error("Already subscribed to this pack");
+    }
+    
+    const [subscription] = await db.insert(schema.packSubscriptions)
+      .values(insertSubscription)
+      .returning();
+    return subscription;
+  }
+
+  async deletePackSubscription(sessionId: string, subscriptionId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      // The copies go first; deleting the subscription on its own would only detach them
+      await tx.delete(schema.variables)
+        .where(and(
+          eq(schema.variables.sessionId, sessionId),
+          eq(schema.variables.subscriptionId, subscriptionId)
+        ));
+      const result = await tx.delete(schema.packSubscriptions)
+        .where(and(
+          eq(schema.packSubscriptions.id, subscriptionId),
+          eq(schema.packSubscriptions.sessionId, sessionId)
+        ))
         .returning();
+      if (result.length === 0) {
+        throw new Error("Subscription not found");
+      }
+    });
+  }
+
+  async syncPackSubscription(subscriptionId: string, variables: ImportedVariable[], contentHash: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const [subscription] = await tx.select()
+        .from(schema.packSubscriptions)
+        .where(eq(schema.packSubscriptions.id, subscriptionId));
+      if (!subscription) {
+        throw new Error("Subscription not found");
+      }
       
-      return updated;
+      const existing = await tx.select()
+        .from(schema.variables)
+        .where(eq(schema.variables.sessionId, subscription.sessionId));
+      const names = new Set(variables.map(variable => variable.name));
+      const removed = existing.filter(variable => variable.subscriptionId === subscriptionId && !names.has(variable.name));
+      if (removed.length > 0) {
+        await tx.delete(schema.variables)
+          .where(inArray(schema.variables.id, removed.map(variable => variable.id)));
+      }
+      for (const variable of variables) {
+        const target = existing.find(v => v.name === variable.name);
+        if (!target) {
+          await tx.insert(schema.variables)
+            .values({ ...variable, sessionId: subscription.sessionId, subscriptionId });
+        } else if (target.subscriptionId === subscriptionId) {
+          const { values, defaultValue, selectionPolicy, expression } = applyVariableImport(target, variable, "replace");
+          await tx.update(schema.variables)
+            .set({ values, defaultValue, selectionPolicy, expression })
+            .where(eq(schema.variables.id, target.id));
+        }
+      }
+      
+      await tx.update(schema.packSubscriptions)
+        .set({ contentHash, syncedAt: new Date() })
+        .where(eq(schema.packSubscriptions.id, subscriptionId));
+    });
+  }
+
+  async advanceVariableRotation(sessionId: string, name: string, steps: number): Promise<number> {
+    // Claim a block of rotation positions atomically so concurrent saves don't reuse a value
+    const [updated] = await db.update(schema.variables)
+      .set({ rotationIndex: sql`${schema.variables.rotationIndex} + ${steps}` })
+      .where(and(
+        eq(schema.variables.sessionId, sessionId),
+        eq(schema.variables.name, name)
+      ))
+      .returning({ rotationIndex: schema.variables.rotationIndex });
+    
+    if (!updated) {
+      throw new Error("Variable not found");
     }
     
-    return variable;
+    return updated.rotationIndex - steps;
   }
 }
\ No newline at end of file
@@ -0,0 +1,252 @@
+import { format, differenceInCalendarDays, addDays, isValid, parseISO } from "date-fns";
+
+// A small, sandboxed expression language for computed variables, e.g.
+//   "S" + weeksSince(2026-01-05)
+//   format(addDays(today(), 1), "EEE d MMM")
+// Expressions are parsed and interpreted here; nothing is ever handed to eval/Function, there is no
+// property access or looping, and only the functions below can be called.
+
+export class ExpressionError extends Error {}
+
+type Value = string | number | Date;
+
+type Node =
+  | { kind: "literal"; value: Value }
+  | { kind: "unary"; operator: "-"; operand: Node }
+  | { kind: "binary"; operator: "+" | "-" | "*" | "/" | "%"; left: Node; right: Node }
+  | { kind: "call"; name: string; args: Node[] };
+
+export interface ExpressionContext {
+  now: Date;
+}
+
+const MAX_EXPRESSION_LENGTH = 500;
+const MAX_DEPTH = 32;
+const MAX_STRING_LENGTH = 1000;
+
+interface Token {
+  type: "number" | "string" | "date" | "identifier" | "operator" | "paren" | "comma";
+  text: string;
+  position: number;
+}
+
+const TOKEN_PATTERNS: Array<[Token["type"], RegExp]> = [
+  ["date", /^\d{4}-\d{2}-\d{2}(?![\d-])/],
+  ["number", /^\d+(\.\d+)?/],
+  ["string", /^"(?:[^"\\]|\\.)*"|^'(?:[^'\\]|\\.)*'/],
+  ["identifier", /^[A-Za-z_]\w*/],
+  ["operator", /^[-+*/%]/],
+  ["paren", /^[()]/],
+  ["comma", /^,/],
+];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < source.length) {
+    const rest = source.slice(position);
+    const whitespace = /^\s+/.exec(rest);
+    if (whitespace) {
+      position += whitespace[0].length;
+      continue;
+    }
+
+    const match = TOKEN_PATTERNS
+      .map(([type, pattern]) => ({ type, match: pattern.exec(rest) }))
+      .find(candidate => candidate.match);
+    if (!match) {
+      throw new ExpressionError(`Unexpected character "${rest[0]}" at ${position + 1}`);
+    }
+
+    tokens.push({ type: match.type, text: match.match![0], position });
+    position += match.match![0].length;
+  }
+
+  return tokens;
+}
+
+// Recursive descent over: sum := product (("+" | "-") product)*
+//                         product := unary (("*" | "/" | "%") unary)*
+//                         unary := "-" unary | primary
+//                         primary := literal | identifier "(" args ")" | "(" sum ")"
+function parse(source: string): Node {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const expect = (text: string) => {
+    const token = tokens[index];
+    if (!token || token.text !== text) {
+      throw new ExpressionError(`Expected "${text}"${token ? ` at ${token.position + 1}` : " at end"}`);
+    }
+    index++;
+  };
+
+  const parseSum = (depth: number): Node => {
+    if (depth > MAX_DEPTH) throw new ExpressionError("Expression is nested too deeply");
+    let node = parseProduct(depth);
+    while (peek()?.type === "operator" && (peek().text === "+" || peek().text === "-")) {
+      const operator = tokens[index++].text as "+" | "-";
+      node = { kind: "binary", operator, left: node, right: parseProduct(depth) };
+    }
+    return node;
+  };
+
+  const parseProduct = (depth: number): Node => {
+    let node = parseUnary(depth);
+    while (peek()?.type === "operator" && ["*", "/", "%"].includes(peek().text)) {
+      const operator = tokens[index++].text as "*" | "/" | "%";
+      node = { kind: "binary", operator, left: node, right: parseUnary(depth) };
+    }
+    return node;
+  };
+
+  const parseUnary = (depth: number): Node => {
+    if (peek()?.text === "-") {
+      index++;
+      return { kind: "unary", operator: "-", operand: parseUnary(depth + 1) };
+    }
+    return parsePrimary(depth);
+  };
+
+  const parsePrimary = (depth: number): Node => {
+    const token = tokens[index++];
+    if (!token) throw new ExpressionError("Unexpected end of expression");
+
+    switch (token.type) {
+      case "number":
+        return { kind: "literal", value: parseFloat(token.text) };
+      case "string":
+        return { kind: "literal", value: token.text.slice(1, -1).replace(/\\(.)/g, "$1") };
+      case "date": {
+        const date = parseISO(token.text);
+        if (!isValid(date)) throw new ExpressionError(`Invalid date ${token.text}`);
+        return { kind: "literal", value: date };
+      }
+      case "identifier": {
+        // Own properties only, so names like "constructor" can't reach the prototype
+        if (!Object.prototype.hasOwnProperty.call(FUNCTIONS, token.text)) {
+          throw new ExpressionError(`Unknown function "${token.text}"`);
+        }
+        expect("(");
+        const args: Node[] = [];
+        if (peek()?.text !== ")") {
+          args.push(parseSum(depth + 1));
+          while (peek()?.type === "comma") {
+            index++;
+            args.push(parseSum(depth + 1));
+          }
+        }
+        expect(")");
+        return { kind: "call", name: token.text, args };
+      }
+      case "paren":
+        if (token.text === "(") {
+          const node = parseSum(depth + 1);
+          expect(")");
+          return node;
+        }
+        break;
+    }
+    throw new ExpressionError(`Unexpected "${token.text}" at ${token.position + 1}`);
+  };
+
+  if (source.length > MAX_EXPRESSION_LENGTH) {
+    throw new ExpressionError(`Expressions are limited to ${MAX_EXPRESSION_LENGTH} characters`);
+  }
+  if (tokens.length === 0) {
+    throw new ExpressionError("Expression is empty");
+  }
+
+  const root = parseSum(0);
+  if (index < tokens.length) {
+    throw new ExpressionError(`Unexpected "${tokens[index].text}" at ${tokens[index].position + 1}`);
+  }
+  return root;
+}
+
+function asNumber(value: Value, name: string): number {
+  if (typeof value !== "number") throw new ExpressionError(`${name} expects a number`);
+  return value;
+}
+
+function asDate(value: Value, name: string): Date {
+  if (!(value instanceof Date)) throw new ExpressionError(`${name} expects a date`);
+  return value;
+}
+
+function asString(value: Value): string {
+  if (value instanceof Date) return format(value, "yyyy-MM-dd");
+  if (typeof value === "number") return Number.isInteger(value) ? String(value) : String(Math.round(value * 100) / 100);
+  return value;
+}
+
+const FUNCTIONS: Record<string, (context: ExpressionContext, ...args: Value[]) => Value> = {
+  today: (context) => new Date(context.now.getFullYear(), context.now.getMonth(), context.now.getDate()),
+  now: (context) => context.now,
+  daysSince: (context, date) => differenceInCalendarDays(context.now, asDate(date, "daysSince")),
+  daysUntil: (context, date) => differenceInCalendarDays(asDate(date, "daysUntil"), context.now),
+  weeksSince: (context, date) => Math.floor(differenceInCalendarDays(context.now, asDate(date, "weeksSince")) / 7),
+  addDays: (_context, date, days) => addDays(asDate(date, "addDays"), asNumber(days, "addDays")),
+  format: (_context, date, pattern) => format(asDate(date, "format"), asString(pattern)),
+  upper: (_context, value) => asString(value).toUpperCase(),
+  lower: (_context, value) => asString(value).toLowerCase(),
+  pad: (_context, value, width) => asString(value).padStart(Math.min(asNumber(width, "pad"), 20), "0"),
+  floor: (_context, value) => Math.floor(asNumber(value, "floor")),
+  ceil: (_context, value) => Math.ceil(asNumber(value, "ceil")),
+  round: (_context, value) => Math.round(asNumber(value, "round")),
+};
+
+function evaluateNode(node: Node, context: ExpressionContext): Value {
+  switch (node.kind) {
+    case "literal":
+      return node.value;
+    case "unary":
+      return -asNumber(evaluateNode(node.operand, context), "-");
+    case "call": {
+      const args = node.args.map(arg => evaluateNode(arg, context));
+      try {
+        return FUNCTIONS[node.name](context, ...args);
+      } catch (error) {
+        if (error instanceof ExpressionError) throw error;
+        throw new ExpressionError(`${node.name} failed: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    case "binary": {
+      const left = evaluateNode(node.left, context);
+      const right = evaluateNode(node.right, context);
+
+      if (node.operator === "+") {
+        if (typeof left === "string" || typeof right === "string") {
+          const joined = asString(left) + asString(right);
+          if (joined.length > MAX_STRING_LENGTH) throw new ExpressionError("Result is too long");
+          return joined;
+        }
+        if (left instanceof Date) return addDays(left, asNumber(right, "+"));
+        return asNumber(left, "+") + asNumber(right, "+");
+      }
+      if (node.operator === "-") {
+        if (left instanceof Date && right instanceof Date) return differenceInCalendarDays(left, right);
+        if (left instanceof Date) return addDays(left, -asNumber(right, "-"));
+        return asNumber(left, "-") - asNumber(right, "-");
+      }
+
+      const a = asNumber(left, node.operator);
+      const b = asNumber(right, node.operator);
+      if ((node.operator === "/" || node.operator === "%") && b === 0) {
+        throw new ExpressionError("Division by zero");
+      }
+      return node.operator === "*" ? a * b : node.operator === "/" ? a / b : a % b;
+    }
+  }
+}
+
+// Throws ExpressionError if the expression can't be parsed; used to validate before saving
+export function validateExpression(source: string): void {
+  parse(source);
+}
+
+export function evaluateExpression(source: string, context: ExpressionContext): string {
+  return asString(evaluateNode(parse(source), context));
+}
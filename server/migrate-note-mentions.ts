@@ -0,0 +1,43 @@
+// One-off migration: builds the note_mentions index for notes saved before it existed. Storage
+// keeps it up to date from then on. Run it after `npm run db:push` has created the table:
+//   npm run db:push && npm run db:migrate-mentions
+// Running it again rebuilds the index from scratch.
+import { pool } from "./db";
+import type { NoteToken } from "@shared/schema";
+import { tokensToMentions } from "@shared/tokens";
+
+async function main() {
+  const { rows } = await pool.query<{ id: string; session_id: string; tokens: NoteToken[] | null }>(
+    "SELECT id, session_id, tokens FROM notes",
+  );
+
+  const client = await pool.connect();
+  let mentions = 0;
+  try {
+    await client.query("BEGIN");
+    await client.query("DELETE FROM note_mentions");
+    for (const row of rows) {
+      for (const mention of tokensToMentions(row.tokens || [])) {
+        await client.query(
+          "INSERT INTO note_mentions (note_id, session_id, variable, value, count) VALUES ($1, $2, $3, $4, $5)",
+          [row.id, row.session_id, mention.variable, mention.value, mention.count],
+        );
+        mentions++;
+      }
+    }
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+  console.log(`Indexed ${mentions} mentions in ${rows.length} notes`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Mention index migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
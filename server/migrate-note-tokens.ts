@@ -0,0 +1,100 @@
+// One-off migration: fills the `tokens` column for notes and revisions saved before it existed,
+// and strips the zero-width-space markers those notes kept in original_content.
+// Run it before `npm run db:push` so values recorded in the old variable_selections column are kept:
+//   npm run db:migrate-tokens && npm run db:push
+import { pool } from "./db";
+import type { NoteToken, Variable, VariableValue, VariableValueSource } from "@shared/schema";
+import { parseNoteText, tokensToOriginalContent } from "@shared/tokens";
+import { toVariableValue } from "@shared/variables";
+
+interface LegacySelection {
+  variable: string;
+  value: string;
+  source: VariableValueSource;
+}
+
+interface LegacyRow {
+  id: string;
+  session_id: string;
+  original_content: string;
+  variable_selections?: LegacySelection[] | null;
+}
+
+// Fills unresolved references from selections recorded per reference, in order
+function applyLegacySelections(tokens: NoteToken[], selections: LegacySelection[]): NoteToken[] {
+  let referenceIndex = 0;
+  return tokens.map(token => {
+    if (token.type !== "variable" && token.type !== "value") return token;
+    const selection = selections[referenceIndex++];
+    if (token.type === "variable" && selection?.variable === token.variable) {
+      return { type: "value", variable: selection.variable, value: selection.value, source: selection.source };
+    }
+    return token;
+  });
+}
+
+async function hasColumn(table: string, column: string): Promise<boolean> {
+  const result = await pool.query(
+    "SELECT 1 FROM information_schema.columns WHERE table_name = $1 AND column_name = $2",
+    [table, column],
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+async function migrateTable(table: "notes" | "note_revisions", variablesBySession: Map<string, Variable[]>): Promise<number> {
+  await pool.query(`ALTER TABLE ${table} ADD COLUMN IF NOT EXISTS tokens json DEFAULT '[]'::json`);
+  const withSelections = await hasColumn(table, "variable_selections");
+
+  const { rows } = await pool.query<LegacyRow>(
+    `SELECT id, session_id, original_content${withSelections ? ", variable_selections" : ""}
+     FROM ${table}
+     WHERE tokens IS NULL OR json_array_length(tokens) = 0`,
+  );
+
+  for (const row of rows) {
+    const variables = variablesBySession.get(row.session_id) || [];
+    const tokens = applyLegacySelections(parseNoteText(row.original_content, variables), row.variable_selections || []);
+
+    // content already holds the substituted text, so only the raw text and tokens change
+    await pool.query(
+      `UPDATE ${table} SET tokens = $1::json, original_content = $2 WHERE id = $3`,
+      [JSON.stringify(tokens), tokensToOriginalContent(tokens), row.id],
+    );
+  }
+
+  return rows.length;
+}
+
+async function main() {
+  // Only names and values matter for parsing, and newer variable columns may not exist yet
+  const { rows } = await pool.query<{ id: string; session_id: string; name: string; values: Array<string | VariableValue> }>(
+    "SELECT id, session_id, name, values FROM variables",
+  );
+  const variablesBySession = new Map<string, Variable[]>();
+  rows.forEach(row => {
+    const variable: Variable = {
+      id: row.id,
+      sessionId: row.session_id,
+      name: row.name,
+      // Values are plain strings until db:migrate-variable-values has run
+      values: (row.values || []).map(value => typeof value === "string" ? toVariableValue(value) : value),
+      defaultValue: null,
+      selectionPolicy: "default",
+      rotationIndex: 0,
+      expression: null,
+      subscriptionId: null,
+    };
+    variablesBySession.set(row.session_id, [...(variablesBySession.get(row.session_id) || []), variable]);
+  });
+
+  const notes = await migrateTable("notes", variablesBySession);
+  const revisions = await migrateTable("note_revisions", variablesBySession);
+  console.log(`Migrated ${notes} notes and ${revisions} revisions to tokens`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Token migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,19 @@
+// One-off migration: adds the notes.occurred_at column and fills it from created_at, so existing
+// notes keep their place in the timeline. Left to `npm run db:push`, the column's default would
+// stamp every existing note with the time of the push. Run it first:
+//   npm run db:migrate-occurred-at && npm run db:push
+import { pool } from "./db";
+
+async function main() {
+  await pool.query("ALTER TABLE notes ADD COLUMN IF NOT EXISTS occurred_at timestamp");
+  const result = await pool.query("UPDATE notes SET occurred_at = created_at WHERE occurred_at IS NULL");
+  await pool.query("ALTER TABLE notes ALTER COLUMN occurred_at SET DEFAULT now(), ALTER COLUMN occurred_at SET NOT NULL");
+  console.log(`Set occurred_at on ${result.rowCount ?? 0} notes`);
+}
+
+main()
+  .catch((error) => {
+    console.error("occurred_at migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,30 @@
+// One-off migration: turns variable values saved as plain strings into value objects with empty
+// aliases, description and attributes. The column stays json, so no `db:push` is needed:
+//   npm run db:migrate-variable-values
+// Values that are already objects are left alone, so it's safe to run again.
+import { pool } from "./db";
+import type { VariableValue } from "@shared/schema";
+import { toVariableValue } from "@shared/variables";
+
+async function main() {
+  const { rows } = await pool.query<{ id: string; values: Array<string | VariableValue> | null }>(
+    "SELECT id, values FROM variables",
+  );
+
+  let migrated = 0;
+  for (const row of rows) {
+    const values = row.values || [];
+    if (!values.some(value => typeof value === "string")) continue;
+    const converted = values.map(value => typeof value === "string" ? toVariableValue(value) : value);
+    await pool.query("UPDATE variables SET values = $1::json WHERE id = $2", [JSON.stringify(converted), row.id]);
+    migrated++;
+  }
+  console.log(`Migrated the values of ${migrated} of ${rows.length} variables`);
+}
+
+main()
+  .catch((error) => {
+    console.error("Variable value migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
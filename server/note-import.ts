@@ -0,0 +1,513 @@
+import { parse, parseISO, isValid } from "date-fns";
+import { z } from "zod";
+import {
+  noteTokenSchema,
+  variableSelectionPolicies,
+  variableValueSchema,
+  type CsvColumnMapping,
+  type ImportedNote,
+  type ImportedVariable,
+  type Note,
+  type NoteImportData,
+  type NoteImportFormat,
+  type NoteImportIssue,
+  type NoteImportPreview,
+} from "@shared/schema";
+import { parseNoteText, tokensToTags } from "@shared/tokens";
+import { normalizeFolderPath } from "@shared/folders";
+import { findVariableValue, mergeVariableValues } from "@shared/variables";
+import { isValidTimeZone } from "@shared/datetime";
+import { parseCsvRecords } from "./csv";
+import { getVariableDataError } from "./computed-variables";
+import type { IStorage } from "./storage";
+
+// Reads notes from our own JSON export, Markdown or plain text with timestamp headings, and CSV,
+// then works out what importing them would change before anything is written.
+
+// The whole file is unusable, e.g. invalid JSON or a CSV mapping naming a missing column
+export class NoteImportError extends Error {}
+
+export interface ParsedNoteImport extends NoteImportData {
+  format: NoteImportFormat;
+  errors: NoteImportIssue[];
+  columns?: string[];
+  mapping?: CsvColumnMapping;
+}
+
+// Notes with the same text this close together are taken to be the same note
+const DUPLICATE_WINDOW = 60 * 1000;
+
+// Timestamps without a zone are read in the server's local time
+const DATE_TIME_FORMATS = [
+  "MMMM d, yyyy h:mm a", // Markdown and HTML exports in English
+  "MMMM d, yyyy HH:mm",
+  "MMM d, yyyy h:mm a",
+  "M/d/yyyy H:mm:ss",
+  "M/d/yyyy H:mm",
+  "M/d/yyyy, h:mm:ss a",
+  "M/d/yyyy h:mm a",
+  "d MMMM yyyy HH:mm",
+  "yyyy-MM-dd HH:mm:ss",
+  "yyyy-MM-dd HH:mm",
+];
+const DATE_FORMATS = ["MMMM d, yyyy", "MMM d, yyyy", "EEEE, MMMM d, yyyy", "M/d/yyyy", "d/M/yyyy", "d.M.yyyy", "d MMMM yyyy", "yyyy-MM-dd"];
+const TIME_FORMATS = ["H:mm:ss", "H:mm", "h:mm a", "h:mm:ss a", "h:mma"];
+
+const HEADING_PATTERN = /^#{1,6}\s+(.*?)(?:\s+#+)?\s*$/;
+const UNDERLINE_PATTERN = /^(=+|-+)$/;
+const BREAK_PATTERN = /^((\*\s*){3,}|(-\s*){3,}|(_\s*){3,})$/;
+const FIELD_PATTERN = /^\*\*([\w ]+):\*\*\s*(.*?)$/; // "**Date:** …", as in the Markdown export
+const TAGS_LINE_PATTERN = /^Tags:\s*(.*)$/; // As in the text export
+const TIMESTAMPED_LINE_PATTERN = /^(?:[-*]\s+)?\[?(\d{4}-\d{2}-\d{2}[ T]\d{1,2}:\d{2}(?::\d{2})?)\]?\s+(.*)$/;
+const TIMED_LINE_PATTERN = /^(?:[-*]\s+)?\[?(\d{1,2}:\d{2}(?::\d{2})?(?:\s?[AaPp][Mm])?)\]?\s+(.*)$/;
+
+const COLUMN_GUESSES: Record<keyof CsvColumnMapping, RegExp> = {
+  content: /^(content|text|note|notes|body|message|entry)$/i,
+  occurredAt: /^(occurred ?at|created ?at|created|date|date ?time|time ?stamp|time|when)$/i,
+  tags: /^(tags?|labels?)$/i,
+  folder: /^(folder|notebook|path)$/i,
+};
+
+const jsonNoteSchema = z.object({
+  content: z.string().min(1, "content is required"),
+  originalContent: z.string().optional(),
+  tokens: z.array(noteTokenSchema).nullable().optional(),
+  tags: z.array(z.string()).nullable().optional(),
+  folder: z.string().nullable().optional(),
+  occurredAt: z.union([z.string(), z.number()]).optional(),
+  timeZone: z.string().nullable().optional(),
+  createdAt: z.union([z.string(), z.number()]).optional(),
+});
+
+const jsonVariableSchema = z.object({
+  name: z.string().trim().min(1, "name is required"),
+  values: z.array(variableValueSchema).default([]),
+  defaultValue: z.string().nullable().optional(),
+  selectionPolicy: z.enum(variableSelectionPolicies).optional(),
+  expression: z.string().nullable().optional(),
+});
+
+// Our JSON export, or a bare array of notes
+const jsonImportSchema = z.union([
+  z.object({
+    notes: z.array(z.unknown()).default([]),
+    variables: z.array(z.unknown()).default([]),
+    folders: z.array(z.string()).default([]),
+  }),
+  z.array(z.unknown()).transform(notes => ({ notes, variables: [], folders: [] as string[] })),
+]);
+
+export function detectImportFormat(fileName: string, text: string): NoteImportFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "md" || extension === "markdown") return "markdown";
+  if (extension === "csv" || extension === "tsv") return "csv";
+  if (extension === "txt") return "text";
+  return /^\s*[[{]/.test(text) ? "json" : "text";
+}
+
+interface ParsedTimestamp {
+  date: Date;
+  hasTime: boolean;
+}
+
+// ISO 8601, or one of the formats our exports and common tools write
+export function parseTimestamp(value: string): ParsedTimestamp | null {
+  // Intl-formatted exports put "at" between date and time and a narrow no-break space before AM/PM
+  const text = value.trim().replace(/^\[(.*)\]$/, "$1").replace(/[\u00A0\u202F]/g, " ").replace(/,? at /, " ").trim();
+  if (!text) return null;
+
+  if (/^\d{4}-\d{2}-\d{2}(T|$)/.test(text)) {
+    const date = parseISO(text);
+    if (isValid(date)) return { date, hasTime: text.includes("T") };
+  }
+
+  const reference = new Date();
+  for (const [formats, hasTime] of [[DATE_TIME_FORMATS, true], [DATE_FORMATS, false]] as const) {
+    for (const format of formats) {
+      const date = parse(text, format, reference);
+      if (isValid(date)) return { date, hasTime };
+    }
+  }
+  return null;
+}
+
+function parseTimeOfDay(value: string, day: Date): Date | null {
+  for (const format of TIME_FORMATS) {
+    const date = parse(value.trim(), format, day);
+    if (isValid(date)) return date;
+  }
+  return null;
+}
+
+function splitTags(value: string): string[] {
+  return value.split(/[,\s]+/).map(tag => tag.replace(/^#/, "")).filter(Boolean);
+}
+
+// Imported text is kept exactly as written. /names aren't resolved against the session's
+// variables, since the text already holds whatever they resolved to when it was written.
+export function literalNote(content: string, occurredAt: Date, tags: string[] = [], folder?: string | null): ImportedNote {
+  const tokens = parseNoteText(content, []).map(token =>
+    token.type === "variable" ? { type: "text" as const, text: `/${token.variable}` } : token
+  );
+  return {
+    content,
+    originalContent: content,
+    tokens,
+    tags: Array.from(new Set([...tags, ...tokensToTags(tokens)])),
+    folder: normalizeFolderPath(folder || "") || "General",
+    occurredAt,
+    timeZone: null,
+    createdAt: new Date(),
+  };
+}
+
+function parseJsonImport(text: string, errors: NoteImportIssue[]): NoteImportData {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (error) {
+    throw new NoteImportError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+  }
+  const file = jsonImportSchema.safeParse(raw);
+  if (!file.success) {
+    throw new NoteImportError("Expected a NoteTimes JSON export or an array of notes");
+  }
+
+  const notes: ImportedNote[] = [];
+  file.data.notes.forEach((item, index) => {
+    const location = `note ${index + 1}`;
+    const result = jsonNoteSchema.safeParse(item);
+    if (!result.success) {
+      errors.push({ location, message: result.error.errors.map(issue => `${issue.path.join(".") || "note"}: ${issue.message}`).join("; ") });
+      return;
+    }
+
+    // Exports from before occurredAt existed only have createdAt, which was the time shown
+    const note = result.data;
+    const createdAt = note.createdAt === undefined ? new Date() : new Date(note.createdAt);
+    const occurredAt = note.occurredAt === undefined ? createdAt : new Date(note.occurredAt);
+    if (!isValid(createdAt) || !isValid(occurredAt)) {
+      errors.push({ location, message: `Invalid ${isValid(occurredAt) ? `createdAt "${note.createdAt}"` : `occurredAt "${note.occurredAt}"`}` });
+      return;
+    }
+    // An unknown zone only loses the tooltip showing where the note was written, so it isn't an error
+    const timeZone = note.timeZone && isValidTimeZone(note.timeZone) ? note.timeZone : null;
+
+    // Notes from our own export keep their tokens, so resolved values stay linked to their variables
+    if (note.tokens && note.tokens.length > 0) {
+      notes.push({
+        content: note.content,
+        originalContent: note.originalContent ?? note.content,
+        tokens: note.tokens,
+        tags: note.tags ?? tokensToTags(note.tokens),
+        folder: normalizeFolderPath(note.folder || "") || "General",
+        occurredAt,
+        timeZone,
+        createdAt,
+      });
+    } else {
+      notes.push({ ...literalNote(note.content, occurredAt, note.tags ?? [], note.folder), originalContent: note.originalContent ?? note.content, timeZone, createdAt });
+    }
+  });
+
+  // Repeated names are combined, as they would be when merged into the session
+  const variables: ImportedVariable[] = [];
+  file.data.variables.forEach((item, index) => {
+    const location = `variable ${index + 1}`;
+    const result = jsonVariableSchema.safeParse(item);
+    if (!result.success) {
+      errors.push({ location, message: result.error.errors.map(issue => `${issue.path.join(".") || "variable"}: ${issue.message}`).join("; ") });
+      return;
+    }
+    const dataError = getVariableDataError(result.data);
+    if (dataError) {
+      errors.push({ location, message: dataError });
+      return;
+    }
+
+    const earlier = variables.find(variable => variable.name === result.data.name);
+    if (earlier) {
+      earlier.values = mergeVariableValues(earlier.values || [], result.data.values);
+    } else {
+      variables.push(result.data);
+    }
+  });
+
+  const folders = file.data.folders.map(normalizeFolderPath).filter(Boolean);
+  return { notes, folders, variables };
+}
+
+interface DraftNote {
+  location: string;
+  occurredAt: Date | null;
+  title?: string;
+  lines: string[];
+  tags: string[];
+  folder?: string;
+}
+
+function startDraft(index: number, occurredAt: Date | null, title?: string): DraftNote {
+  return { location: `line ${index + 1}`, occurredAt, title, lines: [], tags: [] };
+}
+
+function finishDraft(draft: DraftNote | null, notes: ImportedNote[], errors: NoteImportIssue[]): void {
+  const content = draft?.lines.join("\n").replace(/^\s*\n/, "").trimEnd();
+  if (!draft || !content) return;
+
+  if (draft.occurredAt) {
+    notes.push(literalNote(content, draft.occurredAt, draft.tags, draft.folder));
+  } else if (notes.length > 0) {
+    // Untimed text before the first note is the document's title or introduction
+    errors.push({ location: draft.location, message: `No timestamp for ${draft.title ? `"${draft.title}"` : "this text"}; skipped` });
+  }
+}
+
+// Markdown and plain text: a heading (or a "**Date:**" line) with a date and time starts a note and
+// everything up to the next heading or --- is its text. A heading with just a date starts a day,
+// and lines in it that begin with a time ("14:30 …", "- 2:30 PM …") are notes of their own, as
+// are lines that begin with a full "2026-10-19 14:30" timestamp.
+function parseOutlineImport(text: string, format: "markdown" | "text", errors: NoteImportIssue[]): NoteImportData {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/);
+  const notes: ImportedNote[] = [];
+  let draft: DraftNote | null = null;
+  let day: Date | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+    const underlined = trimmed !== "" && !BREAK_PATTERN.test(trimmed) && UNDERLINE_PATTERN.test(lines[i + 1]?.trim() ?? "");
+    const heading = HEADING_PATTERN.exec(trimmed)?.[1] ?? (underlined ? trimmed : undefined);
+
+    if (heading !== undefined) {
+      if (underlined) i++;
+      finishDraft(draft, notes, errors);
+      draft = null;
+      const timestamp = parseTimestamp(heading);
+      if (timestamp?.hasTime) {
+        draft = startDraft(i, timestamp.date);
+      } else if (timestamp) {
+        day = timestamp.date;
+      } else {
+        draft = startDraft(i, null, heading);
+      }
+      continue;
+    }
+
+    if (BREAK_PATTERN.test(trimmed)) {
+      finishDraft(draft, notes, errors);
+      draft = null;
+      continue;
+    }
+
+    const field = FIELD_PATTERN.exec(trimmed);
+    if (field) {
+      draft ??= startDraft(i, null);
+      const [, key, value] = field;
+      switch (key.toLowerCase()) {
+        case "date": {
+          const timestamp = parseTimestamp(value);
+          if (timestamp) {
+            draft.occurredAt = timestamp.date;
+          } else {
+            errors.push({ location: `line ${i + 1}`, message: `Unrecognised date "${value}"` });
+          }
+          break;
+        }
+        case "tags":
+          draft.tags.push(...splitTags(value));
+          break;
+        case "folder":
+          draft.folder = value;
+          break;
+        // Anything else, like the export's "**Total Notes:**", isn't note data
+      }
+      continue;
+    }
+
+    const tagsLine = format === "text" && draft ? TAGS_LINE_PATTERN.exec(trimmed) : null;
+    if (tagsLine && draft) {
+      draft.tags.push(...splitTags(tagsLine[1]));
+      continue;
+    }
+
+    const stamped = TIMESTAMPED_LINE_PATTERN.exec(trimmed);
+    const stampedAt = stamped ? parseTimestamp(stamped[1]) : null;
+    const timed = !stampedAt && day ? TIMED_LINE_PATTERN.exec(trimmed) : null;
+    const timedAt = timed && day ? parseTimeOfDay(timed[1], day) : null;
+    if (stamped && stampedAt) {
+      finishDraft(draft, notes, errors);
+      draft = startDraft(i, stampedAt.date);
+      draft.lines.push(stamped[2]);
+      continue;
+    }
+    if (timed && timedAt) {
+      finishDraft(draft, notes, errors);
+      draft = startDraft(i, timedAt);
+      draft.lines.push(timed[2]);
+      continue;
+    }
+
+    if (!draft && trimmed) {
+      draft = startDraft(i, null);
+    }
+    draft?.lines.push(line);
+  }
+  finishDraft(draft, notes, errors);
+
+  if (notes.length === 0) {
+    errors.push({ location: "file", message: "No timestamped notes found; use headings like \"## 2026-10-19 14:30\" or lines like \"14:30 text\" under a date heading" });
+  }
+  return { notes, folders: [], variables: [] };
+}
+
+function guessColumnMapping(columns: string[]): Partial<CsvColumnMapping> {
+  const guess = (field: keyof CsvColumnMapping) => columns.find(column => COLUMN_GUESSES[field].test(column));
+  return { content: guess("content"), occurredAt: guess("occurredAt"), tags: guess("tags"), folder: guess("folder") };
+}
+
+function parseCsvImport(text: string, givenMapping: CsvColumnMapping | undefined, errors: NoteImportIssue[]): ParsedNoteImport {
+  const { columns, records } = parseCsvRecords(text);
+  if (columns.length === 0) {
+    throw new NoteImportError("The CSV file is empty");
+  }
+
+  const mapping = givenMapping ?? guessColumnMapping(columns);
+  const missing = Object.values(mapping).find(column => column && !columns.includes(column));
+  if (missing) {
+    throw new NoteImportError(`There is no column named "${missing}"`);
+  }
+  if (!mapping.content) {
+    errors.push({ location: "line 1", message: "Pick the column that holds the note text" });
+    return { format: "csv", notes: [], folders: [], variables: [], errors, columns };
+  }
+
+  const notes: ImportedNote[] = [];
+  records.forEach(({ line, values }) => {
+    const location = `line ${line}`;
+    const content = values[mapping.content!];
+    if (!content) {
+      errors.push({ location, message: "No note text" });
+      return;
+    }
+
+    let occurredAt = new Date();
+    const occurredAtValue = mapping.occurredAt ? values[mapping.occurredAt] : "";
+    if (occurredAtValue) {
+      const timestamp = parseTimestamp(occurredAtValue);
+      if (!timestamp) {
+        errors.push({ location, message: `Unrecognised date "${occurredAtValue}"` });
+        return;
+      }
+      occurredAt = timestamp.date;
+    }
+
+    const tags = mapping.tags ? splitTags(values[mapping.tags]) : [];
+    notes.push(literalNote(content, occurredAt, tags, mapping.folder ? values[mapping.folder] : undefined));
+  });
+
+  return { format: "csv", notes, folders: [], variables: [], errors, columns, mapping: mapping as CsvColumnMapping };
+}
+
+export function parseNoteImport(text: string, format: NoteImportFormat, mapping?: CsvColumnMapping): ParsedNoteImport {
+  const errors: NoteImportIssue[] = [];
+  switch (format) {
+    case "json":
+      return { format, ...parseJsonImport(text, errors), errors };
+    case "markdown":
+    case "text":
+      return { format, ...parseOutlineImport(text, format, errors), errors };
+    case "csv":
+      return parseCsvImport(text, mapping, errors);
+  }
+}
+
+// Indexes notes by their trimmed text, so a match within the window is a single lookup plus a scan
+// of the few notes sharing that text
+class DuplicateFinder {
+  private timesByContent = new Map<string, number[]>();
+
+  constructor(notes: Array<Pick<Note, "content" | "occurredAt">>) {
+    notes.forEach(note => this.add(note));
+  }
+
+  has(note: Pick<Note, "content" | "occurredAt">): boolean {
+    const time = new Date(note.occurredAt).getTime();
+    return (this.timesByContent.get(note.content.trim()) || []).some(other => Math.abs(other - time) < DUPLICATE_WINDOW);
+  }
+
+  add(note: Pick<Note, "content" | "occurredAt">): void {
+    const key = note.content.trim();
+    this.timesByContent.set(key, [...(this.timesByContent.get(key) || []), new Date(note.occurredAt).getTime()]);
+  }
+}
+
+// Compares a parsed file with the session. Returns the preview for the client and the data to
+// hand to storage.importNotes if the import goes ahead.
+export async function planNoteImport(
+  storage: IStorage,
+  sessionId: string,
+  parsed: ParsedNoteImport,
+  skipDuplicates: boolean,
+): Promise<{ preview: NoteImportPreview; data: NoteImportData }> {
+  const [existingNotes, existingVariables] = await Promise.all([
+    storage.getNotes(sessionId),
+    storage.getVariables(sessionId),
+  ]);
+
+  const existing = new DuplicateFinder(existingNotes);
+  const earlierInFile = new DuplicateFinder([]);
+  const notes: NoteImportData["notes"] = [];
+  const previewNotes = parsed.notes.map(note => {
+    const duplicate = existing.has(note) ? "existing" as const : earlierInFile.has(note) ? "file" as const : null;
+    earlierInFile.add(note);
+    if (!duplicate || !skipDuplicates) notes.push(note);
+    return {
+      content: note.content,
+      occurredAt: note.occurredAt.toISOString(),
+      tags: note.tags || [],
+      folder: note.folder || "General",
+      duplicate,
+    };
+  });
+
+  const variables: ImportedVariable[] = [];
+  const previewVariables = parsed.variables.map(variable => {
+    const target = existingVariables.find(v => v.name === variable.name);
+    if (!target) {
+      variables.push(variable);
+      return { name: variable.name, status: "new" as const, addedValues: (variable.values || []).map(entry => entry.value) };
+    }
+
+    const addedValues = (variable.values || [])
+      .filter(entry => !findVariableValue(target, entry.value))
+      .map(entry => entry.value);
+    if (addedValues.length > 0) variables.push(variable);
+
+    // Settings are never overwritten; the preview just says where they differ
+    const differences = [
+      (variable.expression ?? null) !== target.expression && "expression",
+      variable.selectionPolicy && variable.selectionPolicy !== target.selectionPolicy && "selection policy",
+      variable.defaultValue && variable.defaultValue !== target.defaultValue && "default value",
+    ].filter(Boolean);
+    return {
+      name: variable.name,
+      status: addedValues.length > 0 ? "merge" as const : "unchanged" as const,
+      addedValues,
+      ...(differences.length > 0 && { conflict: `Different ${differences.join(", ")}; yours is kept` }),
+    };
+  });
+
+  return {
+    preview: {
+      format: parsed.format,
+      columns: parsed.columns,
+      mapping: parsed.mapping,
+      notes: previewNotes,
+      variables: previewVariables,
+      errors: parsed.errors,
+      imported: null,
+    },
+    data: { notes, folders: parsed.folders, variables },
+  };
+}
@@ -0,0 +1,48 @@
+import type { NoteToken } from "@shared/schema";
+import {
+  parseNoteText,
+  countUnresolvedReferences,
+  resolveVariableTokens,
+  tokensToContent,
+  tokensToOriginalContent,
+} from "@shared/tokens";
+import type { IStorage } from "./storage";
+import { computeVariableValue } from "./computed-variables";
+
+// Resolves a note's variable references into its saved tokens and content. `source` is either
+// the tokens sent by the client or plain text with /name references. Pass the note's current
+// tokens when editing so unchanged references keep their values. Built-in and expression
+// variables are computed for `now`, which is the note's occurredAt for backdated notes; callers
+// pass it through toZonedTime so its local fields are the author's wall clock.
+export async function resolveNoteTokens(
+  storage: IStorage,
+  sessionId: string,
+  source: NoteToken[] | string,
+  previous?: NoteToken[],
+  now = new Date(),
+): Promise<{ content: string; originalContent: string; tokens: NoteToken[] }> {
+  const variables = await storage.getVariables(sessionId);
+  const parsed = typeof source === "string" ? parseNoteText(source, variables) : source;
+
+  // Rotating variables and /counter hand out consecutive values, one per new reference
+  const unresolved = countUnresolvedReferences(parsed, previous);
+  const rotationStart: Record<string, number> = {};
+  for (const name of Object.keys(unresolved)) {
+    const variable = variables.find(v => v.name === name);
+    if (variable?.selectionPolicy === "rotate" && !variable.expression) {
+      rotationStart[name] = await storage.advanceVariableRotation(sessionId, name, unresolved[name]);
+    }
+  }
+  let counter = unresolved.counter ? await storage.advanceSessionCounter(sessionId, unresolved.counter) : 0;
+
+  const tokens = resolveVariableTokens(parsed, variables, {
+    previous,
+    rotationStart,
+    compute: (name) => computeVariableValue(name, variables, now, () => ++counter),
+  });
+  return {
+    content: tokensToContent(tokens),
+    originalContent: tokensToOriginalContent(tokens),
+    tokens,
+  };
+}
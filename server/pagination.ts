@@ -0,0 +1,77 @@
+import type { Note, NotePage } from "@shared/schema";
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+// Position in the (occurredAt desc, id desc) timeline; the id breaks ties between equal timestamps
+export interface NoteCursor {
+  occurredAt: Date;
+  id: string;
+}
+
+export interface PageOptions {
+  before?: NoteCursor;
+  limit?: number;
+}
+
+// Cursors are "<ISO occurredAt>,<id>" so they stay readable in URLs
+export function encodeCursor(note: Note): string {
+  return `${new Date(note.occurredAt).toISOString()},${note.id}`;
+}
+
+export function parseCursor(value: unknown): NoteCursor | null {
+  if (typeof value !== "string") return null;
+
+  const separator = value.indexOf(",");
+  if (separator === -1) return null;
+
+  const occurredAt = new Date(value.slice(0, separator));
+  const id = value.slice(separator + 1);
+  if (isNaN(occurredAt.getTime()) || !id) return null;
+
+  return { occurredAt, id };
+}
+
+export function parseLimit(value: unknown): number | null {
+  if (typeof value !== "string") return null;
+
+  const limit = parseInt(value, 10);
+  if (isNaN(limit) || limit < 1) return null;
+
+  return Math.min(limit, MAX_PAGE_SIZE);
+}
+
+// Reads ?before=&limit= from a request query; null when the request isn't paged
+export function getPageOptions(query: Record<string, unknown>): (PageOptions & { limit: number }) | null {
+  if (query.limit === undefined && query.before === undefined) return null;
+
+  const before = query.before === undefined ? undefined : parseCursor(query.before);
+  if (before === null) {
+    throw new Error("Invalid cursor");
+  }
+
+  return { before, limit: parseLimit(query.limit) ?? DEFAULT_PAGE_SIZE };
+}
+
+// Expects one more note than the page size, which only signals that another page exists
+export function buildNotePage(notes: Note[], limit: number): NotePage {
+  const hasMore = notes.length > limit;
+  const pageNotes = hasMore ? notes.slice(0, limit) : notes;
+  return {
+    notes: pageNotes,
+    nextCursor: hasMore ? encodeCursor(pageNotes[pageNotes.length - 1]) : null,
+  };
+}
+
+// True when the note sorts strictly after the cursor in the newest-first timeline
+export function isBeforeCursor(note: Note, cursor: NoteCursor): boolean {
+  const time = new Date(note.occurredAt).getTime();
+  const cursorTime = cursor.occurredAt.getTime();
+  return time < cursorTime || (time === cursorTime && note.id < cursor.id);
+}
+
+export function compareNewestFirst(a: Note, b: Note): number {
+  const diff = new Date(b.occurredAt).getTime() - new Date(a.occurredAt).getTime();
+  if (diff !== 0) return diff;
+  return a.id < b.id ? 1 : a.id > b.id ? -1 : 0;
+}
@@ -0,0 +1,37 @@
+import { scrypt, randomBytes, timingSafeEqual, type ScryptOptions } from "crypto";
+
+// scrypt parameters are stored with each hash, so they can be raised later without breaking old ones
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const KEY_LENGTH = 64;
+const SALT_LENGTH = 16;
+
+function deriveKey(password: string, salt: Buffer, options: ScryptOptions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    scrypt(password.normalize("NFKC"), salt, KEY_LENGTH, { ...options, maxmem: 64 * 1024 * 1024 }, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+// Hashes are stored as scrypt$N$r$p$salt$key, with salt and key in base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await deriveKey(password, salt, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+  return ["scrypt", N, r, p, salt.toString("base64"), key.toString("base64")].join("$");
+}
+
+// Pass the stored hash, or nothing when the username doesn't exist; a key is derived either way
+// so response times don't reveal which usernames are registered
+export async function verifyPassword(password: string, storedHash?: string | null): Promise<boolean> {
+  const [algorithm, N, r, p, salt, key] = (storedHash || "").split("$");
+  if (algorithm !== "scrypt" || !salt || !key) {
+    await deriveKey(password, randomBytes(SALT_LENGTH), SCRYPT_PARAMS);
+    return false;
+  }
+
+  const expected = Buffer.from(key, "base64");
+  const actual = await deriveKey(password, Buffer.from(salt, "base64"), { N: Number(N), r: Number(r), p: Number(p) });
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
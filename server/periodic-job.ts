@@ -0,0 +1,24 @@
+const FIRST_RUN_DELAY = 60 * 1000;
+
+// Runs a background job once shortly after startup, then every interval. A failed run is logged
+// and the next one goes ahead as usual. Returns a function that stops the job.
+export function startPeriodicJob(name: string, interval: number, job: () => Promise<void>): () => void {
+  const run = async () => {
+    try {
+      await job();
+    } catch (error) {
+      console.error(`${name} failed:`, error);
+    }
+  };
+
+  // Unref'd so the timers never keep the process alive on their own
+  const first = setTimeout(run, FIRST_RUN_DELAY);
+  const timer = setInterval(run, interval);
+  first.unref();
+  timer.unref();
+
+  return () => {
+    clearTimeout(first);
+    clearInterval(timer);
+  };
+}
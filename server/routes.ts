@@ -1,23 +1,347 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
-import { insertNoteSchema, insertVariableSchema } from "@shared/schema";
+import { insertNoteSchema, updateNoteSchema, pinNoteSchema, moveNotesSchema, noteIdsSchema, retagNotesSchema, renameFolderSchema, updateTagSchema, renameTagSchema, mergeTagsSchema, savedSearchSchema, insertVariableSchema, updateVariableSchema, variableValueSchema, credentialsSchema, claimSessionSchema, createApiTokenSchema, noteImportOptionsSchema, variableImportOptionsSchema, publishPackSchema, subscribePackSchema, displayPreferencesSchema, type Variable, type PackSubscriptionSummary, type User, type PublicUser, type ApiToken, type PublicApiToken } from "@shared/schema";
 import { z } from "zod";
-import { createSessionMiddleware, type SessionRequest } from "./session-middleware";
+import multer from "multer";
+import { nanoid } from "nanoid";
+import { createSessionMiddleware, issueSessionToken, type SessionRequest } from "./session-middleware";
+import { verifySessionToken } from "./session-tokens";
+import { startSessionCleanup } from "./session-cleanup";
+import { startTrashCleanup, TRASH_RETENTION_DAYS } from "./trash-cleanup";
+import { createApiTokenMiddleware, generateApiToken } from "./api-tokens";
+import { hashPassword, verifyPassword } from "./passwords";
+import { getPageOptions, buildNotePage } from "./pagination";
+import { resolveNoteTokens } from "./note-variables";
+import { previewComputedVariables, getVariableDataError } from "./computed-variables";
+import { parseNoteImport, planNoteImport, detectImportFormat, NoteImportError } from "./note-import";
+import { parseVariableImport, planVariableImport, detectVariableImportFormat, VariableImportError } from "./variable-import";
+import { getStarterTemplates, summarizeStarterTemplate } from "./starter-templates";
+import { buildVariablePack, readPublishedPack, syncPackSubscriptions, generateShareToken } from "./variable-packs";
+import { isInTag, isValidTagName } from "@shared/tags";
+import { parseNoteQuery, NoteQueryError } from "@shared/note-query";
+import { resolveDisplayPreferences, formatTimestamp, formatDayKey, dayKey, isValidTimeZone, toZonedTime } from "@shared/datetime";
+
+// Matches the client-side limit in FileUploader
+const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// Keep uploads in memory; storage writes them to the blob store
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_ATTACHMENT_SIZE } });
+
+// Imports are read whole into memory and parsed in one go
+const MAX_IMPORT_SIZE = 20 * 1024 * 1024;
+const importUpload = multer({ storage: multer.memoryStorage(), limits: { fileSize: MAX_IMPORT_SIZE } });
+
+// Image types that are safe to render inline; everything else is served as a download
+const INLINE_CONTENT_TYPES = ["image/png", "image/jpeg", "image/gif", "image/webp"];
+
+function toPublicApiToken({ tokenHash, ...token }: ApiToken): PublicApiToken {
+  return token;
+}
+
+function toPublicUser({ passwordHash, sessionId, ...user }: User): PublicUser {
+  return user;
+}
+
+// Storage checks for a taken username first, but two sign-ups racing for one still meet at the
+// unique index
+function isUsernameTakenError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const { code, constraint } = error as Error & { code?: string; constraint?: string };
+  return error.message === "Username is already taken" || (code === "23505" && constraint === "users_username_unique");
+}
+
+// The ways storage reports a note that is missing or belongs to another session
+const NOTE_NOT_FOUND_MESSAGES = new Set([
+  "Note not found",
+  "Note does not belong to this session",
+  "Note not found or does not belong to this session",
+]);
+
+function isNoteNotFoundError(error: unknown): error is Error {
+  return error instanceof Error && NOTE_NOT_FOUND_MESSAGES.has(error.message);
+}
+
+// Variables copied in from a subscribed pack only change when the pack does
+const SUBSCRIBED_VARIABLE_MESSAGE = "This variable comes from a subscribed pack and can't be changed";
+
+async function isSubscribedVariable(sessionId: string, matches: (variable: Variable) => boolean): Promise<boolean> {
+  const variable = (await storage.getVariables(sessionId)).find(matches);
+  return Boolean(variable?.subscriptionId);
+}
+
+// Signs this device in with a new session of its own, so whatever token it held before grants
+// nothing extra; the client picks the new token up from the response header
+async function startAccountSession(res: Response, user: User): Promise<void> {
+  const sessionId = nanoid(21);
+  await storage.createSession({ sessionId, userId: user.id });
+  issueSessionToken(res, sessionId);
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
-  // Apply session middleware to all API routes
+  // The first-run picker lists these before the client has a session, so they come before the
+  // session middleware would start one
+  app.get("/api/starter-templates", async (req, res) => {
+    try {
+      const templates = await getStarterTemplates();
+      res.json(templates.map(summarizeStarterTemplate));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch starter templates" });
+    }
+  });
+  
+  // Apply API token and session middleware to all API routes
+  app.use("/api", createApiTokenMiddleware(storage));
   app.use("/api", createSessionMiddleware(storage));
+  startSessionCleanup(storage);
+  startTrashCleanup(storage);
+  
+  // Account routes
+  app.get("/api/auth/me", async (req, res) => {
+    try {
+      const { userId } = req as SessionRequest;
+      const user = userId ? await storage.getUser(userId) : null;
+      res.json({ user: user ? toPublicUser(user) : null });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch account" });
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res) => {
+    try {
+      const { sessionId, clientSessionId, userId } = req as SessionRequest;
+      const { username, password, claimSession = true } = credentialsSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "That username is already taken" });
+      }
+      
+      // An anonymous session can become the new account's data session as it is; otherwise start empty
+      let dataSessionId = sessionId;
+      if (userId || !claimSession) {
+        dataSessionId = nanoid(21);
+        await storage.createSession({ sessionId: dataSessionId });
+      }
+      
+      const user = await storage.createUser({ username, passwordHash: await hashPassword(password), sessionId: dataSessionId });
+      if (userId) {
+        await storage.deleteSession(clientSessionId);
+      }
+      await startAccountSession(res, user);
+      res.status(201).json({ user: toPublicUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      } else if (isUsernameTakenError(error)) {
+        res.status(409).json({ message: "That username is already taken" });
+      } else {
+        res.status(500).json({ message: "Failed to create account" });
+      }
+    }
+  });
+
+  app.post("/api/auth/login", async (req, res) => {
+    try {
+      const { sessionId, clientSessionId, userId } = req as SessionRequest;
+      const { username, password, claimSession = false } = credentialsSchema.parse(req.body);
+      const user = await storage.getUserByUsername(username);
+      if (!(await verifyPassword(password, user?.passwordHash)) || !user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+      
+      if (userId) {
+        // Switching accounts: this device's previous sign-in ends
+        await storage.deleteSession(clientSessionId);
+      } else if (claimSession) {
+        await storage.mergeSession(sessionId, user.sessionId);
+      }
+      await startAccountSession(res, user);
+      res.json({ user: toPublicUser(user) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid account data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to sign in" });
+      }
+    }
+  });
+
+  app.post("/api/auth/logout", async (req, res) => {
+    try {
+      const { clientSessionId, userId } = req as SessionRequest;
+      if (userId) {
+        await storage.deleteSession(clientSessionId);
+      }
+      
+      // The client starts a fresh anonymous session on its next request
+      res.clearCookie("sessionId");
+      res.removeHeader("x-session-id");
+      res.json({ message: "Signed out" });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to sign out" });
+    }
+  });
+
+  // Merges an anonymous session, e.g. one saved on another device, into the signed-in account
+  app.post("/api/auth/claim", async (req, res) => {
+    try {
+      const { sessionId, userId } = req as SessionRequest;
+      if (!userId) {
+        return res.status(401).json({ message: "Sign in to claim a session" });
+      }
+      
+      // Claiming needs the session's signed token, not just its ID
+      const { sessionToken } = claimSessionSchema.parse(req.body);
+      const claimedSessionId = verifySessionToken(sessionToken);
+      const claimed = claimedSessionId ? await storage.getSession(claimedSessionId) : null;
+      if (!claimedSessionId || !claimed || claimed.userId) {
+        return res.status(404).json({ message: "No anonymous session with that token" });
+      }
+      
+      await storage.mergeSession(claimedSessionId, sessionId);
+      res.json({ message: "Session merged into your account" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid session data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to claim session" });
+      }
+    }
+  });
   
+  // API token routes; the secret is only ever returned by the create call
+  app.get("/api/tokens", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const tokens = await storage.getApiTokens(sessionId);
+      res.json(tokens.map(toPublicApiToken));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch API tokens" });
+    }
+  });
+
+  app.post("/api/tokens", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { name, scopes } = createApiTokenSchema.parse(req.body);
+      const { token: secret, tokenHash, prefix } = generateApiToken();
+      const token = await storage.createApiToken({ sessionId, name, scopes, tokenHash, prefix });
+      res.status(201).json({ token: toPublicApiToken(token), secret });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid token data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to create API token" });
+      }
+    }
+  });
+
+  app.delete("/api/tokens/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      await storage.deleteApiToken(sessionId, id);
+      res.json({ message: "API token revoked" });
+    } catch (error) {
+      if (error instanceof Error && error.message === "API token not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to revoke API token" });
+      }
+    }
+  });
+
+  // Display preferences belong to the data session, so every device signed in to an account shares them
+  app.get("/api/preferences", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const session = await storage.getSession(sessionId);
+      res.json(session?.preferences ?? {});
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch preferences" });
+    }
+  });
+
+  // Only the fields sent are changed; null clears one back to the device's default
+  app.put("/api/preferences", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const preferences = displayPreferencesSchema.parse(req.body);
+      res.json(await storage.updateSessionPreferences(sessionId, preferences));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid preferences", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to update preferences" });
+      }
+    }
+  });
+
   // Notes routes
+  // Without ?limit= or ?before= these return every note; with them, a NotePage.
+  // ?q= filters with the query language in shared/note-query.ts; after: and before: dates are
+  // days in ?timeZone=, or UTC without it.
   app.get("/api/notes", async (req, res) => {
     try {
       const { sessionId } = req as SessionRequest;
-      const notes = await storage.getNotes(sessionId);
+      const q = typeof req.query.q === "string" ? req.query.q.trim() : "";
+      const timeZone = typeof req.query.timeZone === "string" && isValidTimeZone(req.query.timeZone) ? req.query.timeZone : undefined;
+      const query = q ? parseNoteQuery(q, timeZone) : null;
+      const page = getPageOptions(req.query);
+      if (!page) {
+        const notes = query ? await storage.queryNotes(sessionId, query) : await storage.getNotes(sessionId);
+        return res.json(notes);
+      }
+      
+      // Fetch one extra note to learn whether there is a next page
+      const pageOptions = { ...page, limit: page.limit + 1 };
+      const notes = query ? await storage.queryNotes(sessionId, query, pageOptions) : await storage.getNotes(sessionId, pageOptions);
+      res.json(buildNotePage(notes, page.limit));
+    } catch (error) {
+      if (error instanceof NoteQueryError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof Error && error.message === "Invalid cursor") {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to fetch notes" });
+      }
+    }
+  });
+
+  // How many notes each folder holds directly, for the sidebar; subfolders aren't rolled up
+  app.get("/api/notes/folder-counts", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const counts = await storage.getFolderCounts(sessionId);
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch folder counts" });
+    }
+  });
+
+  app.get("/api/notes/pinned", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const notes = await storage.getPinnedNotes(sessionId);
       res.json(notes);
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch notes" });
+      res.status(500).json({ message: "Failed to fetch pinned notes" });
+    }
+  });
+
+  app.get("/api/notes/search", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      
+      if (!query) {
+        return res.json([]);
+      }
+      
+      const results = await storage.searchNotes(sessionId, query);
+      res.json(results);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to search notes" });
     }
   });
 
@@ -25,7 +349,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { sessionId } = req as SessionRequest;
       const noteData = insertNoteSchema.parse({ ...req.body, sessionId });
-      const note = await storage.createNote(noteData);
+      // Variable values are resolved here so rotate/random policies are applied once, server-side.
+      // Clients may send structured tokens; otherwise originalContent is parsed.
+      // /today and friends use the author's wall clock, not the server's.
+      const now = noteData.occurredAt ?? new Date();
+      const resolved = await resolveNoteTokens(storage, sessionId, noteData.tokens?.length ? noteData.tokens : noteData.originalContent, undefined, noteData.timeZone ? toZonedTime(now, noteData.timeZone) : now);
+      const note = await storage.createNote({ ...noteData, ...resolved });
       res.json(note);
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -36,27 +365,285 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/notes/:id", async (req, res) => {
+  app.post("/api/notes/move", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { noteIds, folder } = moveNotesSchema.parse(req.body);
+      const notes = await storage.moveNotes(sessionId, noteIds, folder);
+      res.json(notes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid move request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to move notes" });
+      }
+    }
+  });
+
+  app.post("/api/notes/tags", async (req, res) => {
     try {
       const { sessionId } = req as SessionRequest;
+      const { noteIds, add, remove } = retagNotesSchema.parse(req.body);
+      const notes = await storage.retagNotes(sessionId, noteIds, add, remove);
+      res.json(notes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid tag request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update tags" });
+      }
+    }
+  });
+
+  app.patch("/api/notes/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
       const { id } = req.params;
-      await storage.deleteNote(sessionId, id);
-      res.json({ message: "Note deleted" });
+      const updateData = updateNoteSchema.parse(req.body);
+      
+      if (updateData.tokens?.length || updateData.originalContent !== undefined) {
+        const existing = await storage.getNote(sessionId, id);
+        if (!existing) {
+          return res.status(404).json({ message: "Note not found" });
+        }
+        const source = updateData.tokens?.length ? updateData.tokens : updateData.originalContent!;
+        const now = existing.timeZone ? toZonedTime(new Date(), existing.timeZone) : new Date();
+        const resolved = await resolveNoteTokens(storage, sessionId, source, existing.tokens ?? [], now);
+        Object.assign(updateData, resolved);
+      }
+      
+      const note = await storage.updateNote(sessionId, id, updateData);
+      res.json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid note data", errors: error.errors });
+      } else if (isNoteNotFoundError(error)) {
+        res.status(404).json({ message: "Note not found" });
+      } else {
+        res.status(500).json({ message: "Failed to update note" });
+      }
+    }
+  });
+
+  app.put("/api/notes/:id/pin", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { pinned } = pinNoteSchema.parse(req.body);
+      const note = await storage.setNotePinned(sessionId, req.params.id, pinned);
+      res.json(note);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid pin request", errors: error.errors });
+      } else if (error instanceof Error && error.message === "Note not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to pin note" });
+      }
+    }
+  });
+
+  app.get("/api/notes/:id/revisions", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      const revisions = await storage.getNoteRevisions(sessionId, id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch note revisions" });
+    }
+  });
+
+  app.post("/api/notes/:id/revisions/:revisionId/restore", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string; revisionId: string }>;
+      const { id, revisionId } = req.params;
+      const note = await storage.restoreNoteRevision(sessionId, id, revisionId);
+      res.json(note);
+    } catch (error) {
+      if (error instanceof Error && error.message === "Revision not found") {
+        res.status(404).json({ message: error.message });
+      } else if (isNoteNotFoundError(error)) {
+        res.status(404).json({ message: "Note not found" });
+      } else {
+        res.status(500).json({ message: "Failed to restore revision" });
+      }
+    }
+  });
+
+  // Deleting moves notes to the trash; the IDs returned can be passed to /api/trash/restore to undo it
+  app.delete("/api/notes/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      const noteIds = await storage.trashNotes(sessionId, [id]);
+      if (noteIds.length === 0) {
+        return res.status(404).json({ message: "Note not found" });
+      }
+      res.json({ message: "Note moved to the trash", noteIds });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete note" });
     }
   });
 
+  app.post("/api/notes/trash", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { noteIds } = noteIdsSchema.parse(req.body);
+      const trashed = await storage.trashNotes(sessionId, noteIds);
+      res.json({ message: `${trashed.length} notes moved to the trash`, noteIds: trashed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid delete request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete notes" });
+      }
+    }
+  });
+
   app.delete("/api/notes", async (req, res) => {
     try {
       const { sessionId } = req as SessionRequest;
-      await storage.deleteAllNotes(sessionId);
-      res.json({ message: "All notes deleted" });
+      const noteIds = await storage.trashNotes(sessionId);
+      res.json({ message: "All notes moved to the trash", noteIds });
     } catch (error) {
       res.status(500).json({ message: "Failed to delete notes" });
     }
   });
 
+  // Trash routes
+  app.get("/api/trash", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const notes = await storage.getTrashedNotes(sessionId);
+      res.json({ notes, retentionDays: TRASH_RETENTION_DAYS });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch the trash" });
+    }
+  });
+
+  app.post("/api/trash/restore", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { noteIds } = noteIdsSchema.parse(req.body);
+      const notes = await storage.restoreNotes(sessionId, noteIds);
+      res.json(notes);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid restore request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to restore notes" });
+      }
+    }
+  });
+
+  app.delete("/api/trash/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      await storage.deleteNote(sessionId, id);
+      res.json({ message: "Note deleted permanently" });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete note" });
+    }
+  });
+
+  app.delete("/api/trash", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const deleted = await storage.purgeTrash(new Date(), sessionId);
+      res.json({ message: "Trash emptied", deleted });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to empty the trash" });
+    }
+  });
+
+  // Attachment routes
+  app.get("/api/attachments", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const attachments = await storage.getAttachments(sessionId);
+      res.json(attachments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.get("/api/notes/:id/attachments", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      const attachments = await storage.getAttachments(sessionId, id);
+      res.json(attachments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/notes/:id/attachments", (req, res) => {
+    upload.single("file")(req, res, async (uploadError) => {
+      try {
+        if (uploadError) {
+          const message = uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE"
+            ? `File size must be less than ${Math.round(MAX_ATTACHMENT_SIZE / 1024 / 1024)}MB`
+            : "Invalid file upload";
+          return res.status(400).json({ message });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "A file is required" });
+        }
+        
+        const { sessionId } = req as SessionRequest<{ id: string }>;
+        const { id } = req.params;
+        const attachment = await storage.createAttachment({
+          noteId: id,
+          sessionId,
+          fileName: req.file.originalname,
+          contentType: req.file.mimetype || "application/octet-stream",
+          size: req.file.size,
+        }, req.file.buffer);
+        res.json(attachment);
+      } catch (error) {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to upload attachment" });
+      }
+    });
+  });
+
+  app.get("/api/attachments/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      const attachment = await storage.getAttachment(sessionId, id);
+      if (!attachment) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      
+      const data = await storage.getAttachmentData(attachment);
+      if (!data) {
+        return res.status(404).json({ message: "Attachment data is missing" });
+      }
+      
+      const inline = INLINE_CONTENT_TYPES.includes(attachment.contentType) && req.query.download === undefined;
+      res.setHeader('Content-Type', attachment.contentType);
+      res.setHeader('Content-Length', data.length);
+      res.setHeader('X-Content-Type-Options', 'nosniff');
+      res.setHeader('Content-Disposition', `${inline ? 'inline' : 'attachment'}; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`);
+      res.send(data);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  app.delete("/api/attachments/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { id } = req.params;
+      await storage.deleteAttachment(sessionId, id);
+      res.json({ message: "Attachment deleted" });
+    } catch (error) {
+      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete attachment" });
+    }
+  });
+
   // Folder routes
   app.get("/api/folders", async (req, res) => {
     try {
@@ -70,12 +657,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/notes/folder/:folder", async (req, res) => {
     try {
-      const { sessionId } = req as SessionRequest;
+      const { sessionId } = req as SessionRequest<{ folder: string }>;
       const { folder } = req.params;
-      const notes = await storage.getNotesByFolder(sessionId, decodeURIComponent(folder));
-      res.json(notes);
+      // Pass ?descendants=true to include notes from nested subfolders
+      const includeDescendants = req.query.descendants === "true";
+      const page = getPageOptions(req.query);
+      if (!page) {
+        const notes = await storage.getNotesByFolder(sessionId, decodeURIComponent(folder), { includeDescendants });
+        return res.json(notes);
+      }
+      
+      const notes = await storage.getNotesByFolder(sessionId, decodeURIComponent(folder), { ...page, limit: page.limit + 1, includeDescendants });
+      res.json(buildNotePage(notes, page.limit));
     } catch (error) {
-      res.status(500).json({ message: "Failed to fetch notes by folder" });
+      if (error instanceof Error && error.message === "Invalid cursor") {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to fetch notes by folder" });
+      }
     }
   });
 
@@ -83,6 +682,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/variables", async (req, res) => {
     try {
       const { sessionId } = req as SessionRequest;
+      // Subscribed packs are brought up to date whenever the client reloads its variables
+      await syncPackSubscriptions(storage, sessionId);
       const variables = await storage.getVariables(sessionId);
       res.json(variables);
     } catch (error) {
@@ -90,10 +691,70 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // The session's variables as a variable pack file; ?names=user,project exports just those
+  app.get("/api/variables/export", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const names = typeof req.query.names === "string" ? req.query.names.split(",").filter(Boolean) : null;
+      const variables = (await storage.getVariables(sessionId))
+        .filter(variable => !names || names.includes(variable.name));
+      const name = typeof req.query.name === "string" && req.query.name.trim() ? req.query.name.trim() : "Variables";
+      
+      res.setHeader('Content-Type', 'application/json');
+      res.setHeader('Content-Disposition', 'attachment; filename="variables.json"');
+      res.json(buildVariablePack(name, variables));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to export variables" });
+    }
+  });
+
+  // Current values of the built-in and expression variables, for autocomplete previews.
+  // ?timeZone= is the zone the client will send with the note, so previews match what's saved.
+  app.get("/api/variables/computed", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const timeZone = typeof req.query.timeZone === "string" && isValidTimeZone(req.query.timeZone) ? req.query.timeZone : null;
+      const previews = await previewComputedVariables(storage, sessionId, timeZone ? toZonedTime(new Date(), timeZone) : new Date());
+      res.json(previews);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview computed variables" });
+    }
+  });
+
+  // Mention index routes. Counts are per note id, for sorting the timeline by mentions.
+  app.get("/api/variables/mentions", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const counts = await storage.getMentionCounts(sessionId);
+      res.json(counts);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch mention counts" });
+    }
+  });
+
+  // Every note mentioning /name, newest first; ?value= narrows them to one of its values
+  app.get("/api/variables/:name/mentions", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ name: string }>;
+      const value = typeof req.query.value === "string" ? req.query.value : undefined;
+      const mentions = await storage.getVariableMentions(sessionId, decodeURIComponent(req.params.name), value);
+      res.json(mentions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch variable mentions" });
+    }
+  });
+
   app.post("/api/variables", async (req, res) => {
     try {
       const { sessionId } = req as SessionRequest;
       const variableData = insertVariableSchema.parse({ ...req.body, sessionId });
+      const dataError = getVariableDataError(variableData);
+      if (dataError) {
+        return res.status(400).json({ message: dataError });
+      }
+      if (await isSubscribedVariable(sessionId, variable => variable.name === variableData.name)) {
+        return res.status(400).json({ message: SUBSCRIBED_VARIABLE_MESSAGE });
+      }
       const variable = await storage.createVariable(variableData);
       res.json(variable);
     } catch (error) {
@@ -107,43 +768,245 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put("/api/variables/:id", async (req, res) => {
     try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
       const { id } = req.params;
-      const updateData = insertVariableSchema.partial().parse(req.body);
-      const variable = await storage.updateVariable(id, updateData);
+      const updateData = updateVariableSchema.parse(req.body);
+      const dataError = getVariableDataError(updateData);
+      if (dataError) {
+        return res.status(400).json({ message: dataError });
+      }
+      const existing = (await storage.getVariables(sessionId)).find(variable => variable.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Variable not found" });
+      }
+      if (existing.subscriptionId) {
+        return res.status(400).json({ message: SUBSCRIBED_VARIABLE_MESSAGE });
+      }
+      const variable = await storage.updateVariable(sessionId, id, updateData);
       res.json(variable);
     } catch (error) {
       if (error instanceof z.ZodError) {
         res.status(400).json({ message: "Invalid variable data", errors: error.errors });
+      } else if (error instanceof Error && error.message === "Variable not found") {
+        res.status(404).json({ message: error.message });
       } else {
-        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update variable" });
+        res.status(500).json({ message: "Failed to update variable" });
       }
     }
   });
 
   app.delete("/api/variables/:id", async (req, res) => {
     try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
       const { id } = req.params;
-      await storage.deleteVariable(id);
+      const existing = (await storage.getVariables(sessionId)).find(variable => variable.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Variable not found" });
+      }
+      // Unsubscribing is how a pack's variables are removed
+      if (existing.subscriptionId) {
+        return res.status(400).json({ message: SUBSCRIBED_VARIABLE_MESSAGE });
+      }
+      await storage.deleteVariable(sessionId, id);
       res.json({ message: "Variable deleted" });
     } catch (error) {
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete variable" });
+      if (error instanceof Error && error.message === "Variable not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to delete variable" });
+      }
     }
   });
 
   app.post("/api/variables/:name/values", async (req, res) => {
     try {
-      const { sessionId } = req as SessionRequest;
+      const { sessionId } = req as SessionRequest<{ name: string }>;
       const { name } = req.params;
-      const { value } = req.body;
-      
-      if (!value || typeof value !== 'string') {
-        return res.status(400).json({ message: "Value is required and must be a string" });
+      // Either { value: "John Doe" } or a whole value with aliases, description and attributes
+      const value = variableValueSchema.parse(req.body);
+      if (await isSubscribedVariable(sessionId, variable => variable.name === name)) {
+        return res.status(400).json({ message: SUBSCRIBED_VARIABLE_MESSAGE });
       }
       
       const variable = await storage.addVariableValue(sessionId, name, value);
       res.json(variable);
     } catch (error) {
-      res.status(500).json({ message: error instanceof Error ? error.message : "Failed to add variable value" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid variable value", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to add variable value" });
+      }
+    }
+  });
+
+  // Variable import: a multipart upload with the file plus optional format, mode (merge or
+  // replace), namespace and dryRun fields. Dry runs, the default, only return the preview.
+  app.post("/api/variables/import", (req, res) => {
+    importUpload.single("file")(req, res, async (uploadError) => {
+      try {
+        if (uploadError) {
+          const message = uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE"
+            ? `File size must be less than ${Math.round(MAX_IMPORT_SIZE / 1024 / 1024)}MB`
+            : "Invalid file upload";
+          return res.status(400).json({ message });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "A file is required" });
+        }
+        
+        const options = variableImportOptionsSchema.parse({
+          format: req.body.format || undefined,
+          mode: req.body.mode || undefined,
+          namespace: req.body.namespace || undefined,
+          dryRun: req.body.dryRun !== "false",
+        });
+        
+        const { sessionId } = req as SessionRequest;
+        const text = req.file.buffer.toString("utf8");
+        const format = options.format ?? detectVariableImportFormat(req.file.originalname, text);
+        const parsed = parseVariableImport(text, format, options.namespace);
+        const { preview, data } = await planVariableImport(storage, sessionId, parsed, options.mode);
+        if (!options.dryRun) {
+          await storage.importVariables(sessionId, data, options.mode);
+          preview.imported = { variables: data.length };
+        }
+        res.json(preview);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid import options", errors: error.errors });
+        }
+        if (error instanceof VariableImportError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to import variables" });
+      }
+    });
+  });
+
+  // Variable pack routes. Publishing gives a pack of the session's variables a link; other
+  // sessions subscribe to the link and get read-only copies that follow the pack's changes.
+  app.get("/api/variable-packs", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const packs = await storage.getPublishedPacks(sessionId);
+      res.json(packs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch variable packs" });
+    }
+  });
+
+  app.post("/api/variable-packs", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { name, variableNames } = publishPackSchema.parse(req.body);
+      const pack = await storage.createPublishedPack({ sessionId, name, variableNames, shareToken: generateShareToken() });
+      res.status(201).json(pack);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid variable pack", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to publish variable pack" });
+      }
+    }
+  });
+
+  app.patch("/api/variable-packs/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { name, variableNames } = publishPackSchema.parse(req.body);
+      const pack = await storage.updatePublishedPack(sessionId, req.params.id, { name, variableNames });
+      res.json(pack);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid variable pack", errors: error.errors });
+      } else if (error instanceof Error && error.message === "Variable pack not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update variable pack" });
+      }
+    }
+  });
+
+  // Unpublishing breaks the link; subscribers keep what they had as ordinary variables
+  app.delete("/api/variable-packs/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      await storage.deletePublishedPack(sessionId, req.params.id);
+      res.json({ message: "Variable pack unpublished" });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Variable pack not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to unpublish variable pack" });
+      }
+    }
+  });
+
+  // What a pack link points at: the pack as it stands, in the same format as /api/variables/export
+  app.get("/api/variable-packs/shared/:token", async (req, res) => {
+    try {
+      const pack = await storage.getPublishedPackByToken(req.params.token);
+      if (!pack) {
+        return res.status(404).json({ message: "Variable pack not found" });
+      }
+      res.json(await readPublishedPack(storage, pack));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch variable pack" });
+    }
+  });
+
+  app.get("/api/pack-subscriptions", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const subscriptions = await storage.getPackSubscriptions(sessionId);
+      const withPacks = await Promise.all(subscriptions.map(async (subscription): Promise<PackSubscriptionSummary> => {
+        const pack = await storage.getPublishedPack(subscription.packId);
+        return { ...subscription, packName: pack?.name ?? null };
+      }));
+      res.json(withPacks);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch pack subscriptions" });
+    }
+  });
+
+  app.post("/api/pack-subscriptions", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { link, namespace } = subscribePackSchema.parse(req.body);
+      const pack = await storage.getPublishedPackByToken(link);
+      if (!pack) {
+        return res.status(404).json({ message: "Variable pack not found" });
+      }
+      if (pack.sessionId === sessionId) {
+        return res.status(400).json({ message: "This is one of your own packs" });
+      }
+      
+      const subscription = await storage.createPackSubscription({ sessionId, packId: pack.id, namespace: namespace ?? null });
+      await syncPackSubscriptions(storage, sessionId);
+      res.status(201).json(subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid pack subscription", errors: error.errors });
+      } else if (error instanceof Error && error.message === "Already subscribed to this pack") {
+        res.status(409).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to subscribe to variable pack" });
+      }
+    }
+  });
+
+  // Unsubscribing removes the pack's variables from the session
+  app.delete("/api/pack-subscriptions/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      await storage.deletePackSubscription(sessionId, req.params.id);
+      res.json({ message: "Unsubscribed" });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Subscription not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to unsubscribe" });
+      }
     }
   });
 
@@ -164,49 +1027,211 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.patch("/api/folders/:name", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ name: string }>;
+      const { name } = req.params;
+      const { name: newName } = renameFolderSchema.parse(req.body);
+      
+      const folderName = await storage.renameFolder(sessionId, decodeURIComponent(name), newName);
+      res.json({ name: folderName, message: "Folder renamed successfully" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid folder data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to rename folder" });
+      }
+    }
+  });
+
+  // Deletes the folder and its subfolders. Pass ?reassign=true to move their notes to General instead of refusing
   app.delete("/api/folders/:name", async (req, res) => {
     try {
-      const { sessionId } = req as SessionRequest;
+      const { sessionId } = req as SessionRequest<{ name: string }>;
       const { name } = req.params;
       const folderName = decodeURIComponent(name);
+      const reassign = req.query.reassign === "true";
       
-      // Check if folder has notes
-      const notesInFolder = await storage.getNotesByFolder(sessionId, folderName);
-      if (notesInFolder.length > 0) {
-        return res.status(400).json({ message: "Cannot delete folder with notes. Please move or delete notes first." });
+      // Check if folder or any of its subfolders has notes
+      if (!reassign) {
+        const notesInFolder = await storage.getNotesByFolder(sessionId, folderName, { limit: 1, includeDescendants: true });
+        if (notesInFolder.length > 0) {
+          return res.status(400).json({ message: "Cannot delete folder with notes. Please move or delete notes first." });
+        }
       }
       
+      await storage.deleteFolder(sessionId, folderName, reassign ? "General" : undefined);
       res.json({ message: `Folder "${folderName}" deleted` });
     } catch (error) {
       res.status(500).json({ message: error instanceof Error ? error.message : "Failed to delete folder" });
     }
   });
 
+  // Tag routes. Tags nest with "/", and renaming or merging a tag takes its subtags along.
+  app.get("/api/tags", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const tags = await storage.getTags(sessionId);
+      res.json(tags);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch tags" });
+    }
+  });
+
+  app.patch("/api/tags/:name", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ name: string }>;
+      const name = decodeURIComponent(req.params.name);
+      if (!isValidTagName(name)) {
+        return res.status(400).json({ message: "Invalid tag name" });
+      }
+      const update = updateTagSchema.parse(req.body);
+      const tag = await storage.updateTag(sessionId, name, update);
+      res.json(tag);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid tag data", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to update tag" });
+      }
+    }
+  });
+
+  app.post("/api/tags/rename", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { from, to } = renameTagSchema.parse(req.body);
+      if (isInTag(to, from, true)) {
+        return res.status(400).json({ message: "A tag can't be renamed to itself or one of its subtags" });
+      }
+      if ((await storage.getTags(sessionId)).some(tag => tag.name === to)) {
+        return res.status(409).json({ message: `#${to} already exists; merge the tags instead` });
+      }
+      
+      const rewritten = await storage.mergeTags(sessionId, [from], to);
+      res.json({ message: `#${from} renamed to #${to}`, notes: rewritten });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid rename request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to rename tag" });
+      }
+    }
+  });
+
+  app.post("/api/tags/merge", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { tags, into } = mergeTagsSchema.parse(req.body);
+      const sources = tags.filter(tag => tag !== into);
+      if (sources.some(tag => isInTag(into, tag, true))) {
+        return res.status(400).json({ message: "A tag can't be merged into one of its subtags" });
+      }
+      
+      const rewritten = sources.length > 0 ? await storage.mergeTags(sessionId, sources, into) : 0;
+      res.json({ message: `Tags merged into #${into}`, notes: rewritten });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid merge request", errors: error.errors });
+      } else {
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to merge tags" });
+      }
+    }
+  });
+
+  // Saved search routes; a search is a name for a ?q= query on /api/notes
+  app.get("/api/saved-searches", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const searches = await storage.getSavedSearches(sessionId);
+      res.json(searches);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch saved searches" });
+    }
+  });
+
+  app.post("/api/saved-searches", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest;
+      const { name, query } = savedSearchSchema.parse(req.body);
+      parseNoteQuery(query);
+      const search = await storage.createSavedSearch({ sessionId, name, query });
+      res.status(201).json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      } else if (error instanceof NoteQueryError) {
+        res.status(400).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to save search" });
+      }
+    }
+  });
+
+  app.patch("/api/saved-searches/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      const { name, query } = savedSearchSchema.parse(req.body);
+      parseNoteQuery(query);
+      const search = await storage.updateSavedSearch(sessionId, req.params.id, { name, query });
+      res.json(search);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+      } else if (error instanceof NoteQueryError) {
+        res.status(400).json({ message: error.message });
+      } else if (error instanceof Error && error.message === "Saved search not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to update saved search" });
+      }
+    }
+  });
+
+  app.delete("/api/saved-searches/:id", async (req, res) => {
+    try {
+      const { sessionId } = req as SessionRequest<{ id: string }>;
+      await storage.deleteSavedSearch(sessionId, req.params.id);
+      res.json({ message: "Saved search deleted" });
+    } catch (error) {
+      if (error instanceof Error && error.message === "Saved search not found") {
+        res.status(404).json({ message: error.message });
+      } else {
+        res.status(500).json({ message: "Failed to delete saved search" });
+      }
+    }
+  });
+
   // Export routes
+  // Dates are written in the session's preferred zone and locale. The client sends the settings it
+  // resolved as query parameters, so fields left at the device default match the browser's.
   app.get("/api/export/text", async (req, res) => {
     try {
       const { sessionId } = req as SessionRequest;
+      const overrides = displayPreferencesSchema.parse({
+        timeZone: req.query.timeZone || undefined,
+        locale: req.query.locale || undefined,
+        hourCycle: req.query.hourCycle || undefined,
+      });
+      const session = await storage.getSession(sessionId);
+      const preferences = resolveDisplayPreferences({ ...session?.preferences, ...overrides });
       const notes = await storage.getNotes(sessionId);
       let exportText = "NoteTimes Export\n";
       exportText += "================\n\n";
       
       const notesByDate = notes.reduce((acc, note) => {
-        const date = new Date(note.createdAt).toLocaleDateString();
+        const date = dayKey(note.occurredAt, preferences.timeZone);
         if (!acc[date]) acc[date] = [];
         acc[date].push(note);
         return acc;
       }, {} as Record<string, typeof notes>);
 
-      Object.entries(notesByDate).forEach(([date, dayNotes]) => {
+      Object.entries(notesByDate).forEach(([day, dayNotes]) => {
+        const date = formatDayKey(day, preferences, "date");
         exportText += `${date}\n`;
         exportText += "-".repeat(date.length) + "\n";
         dayNotes.forEach(note => {
-          const time = new Date(note.createdAt).toLocaleTimeString('en-US', { 
-            hour12: false,
-            hour: '2-digit',
-            minute: '2-digit',
-            second: '2-digit'
-          });
+          const time = formatTimestamp(note.occurredAt, preferences, "timeWithSeconds");
           exportText += `${time} ${note.content}\n`;
           if (note.tags && note.tags.length > 0) {
             exportText += `Tags: ${note.tags.join(', ')}\n`;
@@ -220,7 +1245,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.setHeader('Content-Disposition', 'attachment; filename="notes.txt"');
       res.send(exportText);
     } catch (error) {
-      res.status(500).json({ message: "Failed to export notes" });
+      if (error instanceof z.ZodError) {
+        res.status(400).json({ message: "Invalid export options", errors: error.errors });
+      } else {
+        res.status(500).json({ message: "Failed to export notes" });
+      }
     }
   });
 
@@ -229,11 +1258,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { sessionId } = req as SessionRequest;
       const notes = await storage.getNotes(sessionId);
       const variables = await storage.getVariables(sessionId);
+      const folders = await storage.getFolders(sessionId);
       
       const exportData = {
         exportedAt: new Date().toISOString(),
         notes,
-        variables
+        variables,
+        folders
       };
 
       res.setHeader('Content-Type', 'application/json');
@@ -244,6 +1275,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import route: a multipart upload with the file plus optional format, mapping (JSON) and
+  // dryRun/skipDuplicates fields. Dry runs, the default, only return the preview.
+  app.post("/api/import", (req, res) => {
+    importUpload.single("file")(req, res, async (uploadError) => {
+      try {
+        if (uploadError) {
+          const message = uploadError instanceof multer.MulterError && uploadError.code === "LIMIT_FILE_SIZE"
+            ? `File size must be less than ${Math.round(MAX_IMPORT_SIZE / 1024 / 1024)}MB`
+            : "Invalid file upload";
+          return res.status(400).json({ message });
+        }
+        if (!req.file) {
+          return res.status(400).json({ message: "A file is required" });
+        }
+        
+        let mapping: unknown;
+        try {
+          mapping = req.body.mapping ? JSON.parse(req.body.mapping) : undefined;
+        } catch {
+          return res.status(400).json({ message: "Invalid column mapping" });
+        }
+        const options = noteImportOptionsSchema.parse({
+          format: req.body.format || undefined,
+          mapping,
+          dryRun: req.body.dryRun !== "false",
+          skipDuplicates: req.body.skipDuplicates !== "false",
+        });
+        
+        const { sessionId } = req as SessionRequest;
+        const text = req.file.buffer.toString("utf8");
+        const parsed = parseNoteImport(text, options.format ?? detectImportFormat(req.file.originalname, text), options.mapping);
+        const { preview, data } = await planNoteImport(storage, sessionId, parsed, options.skipDuplicates);
+        if (!options.dryRun) {
+          await storage.importNotes(sessionId, data);
+          preview.imported = { notes: data.notes.length, variables: data.variables.length };
+        }
+        res.json(preview);
+      } catch (error) {
+        if (error instanceof z.ZodError) {
+          return res.status(400).json({ message: "Invalid import options", errors: error.errors });
+        }
+        if (error instanceof NoteImportError) {
+          return res.status(400).json({ message: error.message });
+        }
+        res.status(500).json({ message: error instanceof Error ? error.message : "Failed to import notes" });
+      }
+    });
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
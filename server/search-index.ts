@@ -0,0 +1,127 @@
+// Characters that separate searchable terms in note content
+const TOKEN_PATTERN = /[^\s.,;:!?"'`()[\]{}<>/\\|#@*&^%$=+~\u200B-]+/g;
+
+// Characters of context shown on each side of the first match in a snippet
+const SNIPPET_RADIUS = 60;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) || []);
+}
+
+// In-process inverted index used by MemStorage for ranked full-text search
+export class InvertedIndex {
+  // term -> document id -> term frequency
+  private postings: Map<string, Map<string, number>> = new Map();
+  // document id -> distinct terms, so a document can be removed without a full scan
+  private documentTerms: Map<string, string[]> = new Map();
+
+  add(id: string, text: string): void {
+    this.remove(id);
+
+    const frequencies = new Map<string, number>();
+    tokenize(text).forEach(term => frequencies.set(term, (frequencies.get(term) || 0) + 1));
+
+    frequencies.forEach((frequency, term) => {
+      if (!this.postings.has(term)) {
+        this.postings.set(term, new Map());
+      }
+      this.postings.get(term)!.set(id, frequency);
+    });
+    this.documentTerms.set(id, Array.from(frequencies.keys()));
+  }
+
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) return;
+
+    terms.forEach(term => {
+      const posting = this.postings.get(term);
+      posting?.delete(id);
+      if (posting && posting.size === 0) {
+        this.postings.delete(term);
+      }
+    });
+    this.documentTerms.delete(id);
+  }
+
+  // Returns ids of documents containing every query term, best matches first (tf-idf)
+  search(query: string): Array<{ id: string; score: number }> {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0) return [];
+
+    const termPostings = terms.map(term => this.postings.get(term));
+    if (termPostings.some(posting => !posting)) return [];
+
+    const totalDocuments = this.documentTerms.size;
+    const [first, ...rest] = termPostings as Map<string, number>[];
+    const results: Array<{ id: string; score: number }> = [];
+
+    first.forEach((_, id) => {
+      if (!rest.every(posting => posting.has(id))) return;
+
+      const score = (termPostings as Map<string, number>[]).reduce((sum, posting) => {
+        const idf = Math.log(1 + totalDocuments / posting.size);
+        return sum + posting.get(id)! * idf;
+      }, 0);
+      results.push({ id, score });
+    });
+
+    return results.sort((a, b) => b.score - a.score);
+  }
+}
+
+// Builds a snippet around the first matched term with highlight offsets relative to the snippet
+export function buildSnippet(content: string, query: string): { snippet: string; highlights: Array<{ start: number; end: number }> } {
+  const terms = new Set(tokenize(query));
+  const matches: Array<{ start: number; end: number }> = [];
+
+  const pattern = new RegExp(TOKEN_PATTERN.source, 'g');
+  let match;
+  while ((match = pattern.exec(content)) !== null) {
+    if (terms.has(match[0].toLowerCase())) {
+      matches.push({ start: match.index, end: match.index + match[0].length });
+    }
+  }
+
+  if (matches.length === 0) {
+    const snippet = content.length > SNIPPET_RADIUS * 2 ? content.slice(0, SNIPPET_RADIUS * 2) + '…' : content;
+    return { snippet, highlights: [] };
+  }
+
+  const windowStart = Math.max(0, matches[0].start - SNIPPET_RADIUS);
+  const windowEnd = Math.min(content.length, matches[0].end + SNIPPET_RADIUS);
+  const prefix = windowStart > 0 ? '…' : '';
+  const suffix = windowEnd < content.length ? '…' : '';
+
+  return {
+    snippet: prefix + content.slice(windowStart, windowEnd) + suffix,
+    highlights: matches
+      .filter(m => m.start >= windowStart && m.end <= windowEnd)
+      .map(m => ({ start: m.start - windowStart + prefix.length, end: m.end - windowStart + prefix.length })),
+  };
+}
+
+// Strips start/stop markers (as emitted by Postgres ts_headline) and records what they enclosed
+export function parseHeadline(marked: string, startSel: string, stopSel: string): { snippet: string; highlights: Array<{ start: number; end: number }> } {
+  const highlights: Array<{ start: number; end: number }> = [];
+  let snippet = '';
+  let rest = marked;
+
+  while (rest.length > 0) {
+    const startIndex = rest.indexOf(startSel);
+    if (startIndex === -1) {
+      snippet += rest;
+      break;
+    }
+    snippet += rest.slice(0, startIndex);
+    rest = rest.slice(startIndex + startSel.length);
+
+    const stopIndex = rest.indexOf(stopSel);
+    const highlighted = stopIndex === -1 ? rest : rest.slice(0, stopIndex);
+    highlights.push({ start: snippet.length, end: snippet.length + highlighted.length });
+    snippet += highlighted;
+    rest = stopIndex === -1 ? '' : rest.slice(stopIndex + stopSel.length);
+  }
+
+  return { snippet, highlights };
+}
@@ -0,0 +1,24 @@
+import type { IStorage } from "./storage";
+import { SESSION_TTL } from "./session-middleware";
+import { log } from "./vite";
+import { startPeriodicJob } from "./periodic-job";
+
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // Hourly
+
+export async function purgeExpiredSessions(storage: IStorage, now = Date.now()): Promise<number> {
+  return await storage.purgeExpiredSessions({
+    anonymousBefore: new Date(now - SESSION_TTL.anonymous),
+    accountBefore: new Date(now - SESSION_TTL.account),
+  });
+}
+
+// Hourly purges abandoned anonymous sessions with their notes, variables and folders, and
+// expired sign-ins
+export function startSessionCleanup(storage: IStorage, interval = CLEANUP_INTERVAL): () => void {
+  return startPeriodicJob("Session cleanup", interval, async () => {
+    const purged = await purgeExpiredSessions(storage);
+    if (purged > 0) {
+      log(`purged ${purged} expired sessions`, "cleanup");
+    }
+  });
+}
@@ -1,56 +1,120 @@
 import type { Request, Response, NextFunction } from "express";
+import type { ParamsDictionary } from "express-serve-static-core";
 import { nanoid } from "nanoid";
+import type { UserSession, ApiTokenScope } from "@shared/schema";
 import { IStorage } from "./storage";
+import { signSessionId, verifySessionToken, isUnsignedSessionId } from "./session-tokens";
+import { resolveStarterData } from "./starter-templates";
 
-export interface SessionRequest extends Request {
-  sessionId: string;
+// Generic over the route parameters so handlers with typed params can cast to it
+export interface SessionRequest<P = ParamsDictionary> extends Request<P> {
+  sessionId: string; // Whose data the request works on; the account's data session once signed in
+  clientSessionId: string; // The session the client presented, i.e. this device's
+  userId?: string;
+  apiToken?: { id: string; scopes: ApiTokenScope[] }; // Set when authenticated with a bearer token
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// How long a session lasts without requests. Expired anonymous sessions are purged with their
+// notes by the cleanup job; for an account only that device's sign-in ends.
+export const SESSION_TTL = {
+  anonymous: 90 * DAY,
+  account: 30 * DAY,
+};
+
+export function isSessionExpired(session: UserSession, now = Date.now()): boolean {
+  const ttl = session.userId ? SESSION_TTL.account : SESSION_TTL.anonymous;
+  return now - new Date(session.lastActiveAt).getTime() > ttl;
+}
+
+// Hands the client a signed token for the session, as a cookie for browsers and a header for the
+// client-side session manager
+export function issueSessionToken(res: Response, sessionId: string): void {
+  const token = signSessionId(sessionId);
+  res.cookie('sessionId', token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax',
+    maxAge: 365 * 24 * 60 * 60 * 1000 // 1 year
+  });
+  res.header('x-session-id', token);
+}
+
+// Unknown, forged and expired tokens are refused rather than turned into a new session, so the
+// client knows to drop its token and start over
+function rejectSession(res: Response): void {
+  res.clearCookie('sessionId');
+  res.header('x-session-invalid', '1');
+  res.status(401).json({ message: "Session expired or invalid" });
 }
 
 export function createSessionMiddleware(storage: IStorage) {
   return async (req: Request, res: Response, next: NextFunction) => {
     try {
-      let sessionId = req.headers['x-session-id'] as string;
-      
-      // If no session ID in header, try cookie
-      if (!sessionId) {
-        sessionId = req.cookies?.sessionId;
+      // Already authenticated by an API token
+      if ((req as SessionRequest).apiToken) {
+        return next();
+      }
+
+      // Header first, then cookie
+      const token: string | undefined = (req.headers['x-session-id'] as string) || req.cookies?.sessionId;
+      const sessionRequest = req as SessionRequest;
+
+      // No token at all: this is a new visitor, starting from the template they picked if any
+      if (!token) {
+        const sessionId = nanoid(21); // 21 characters for URL-safe unique ID
+        const starter = await resolveStarterData(req.headers['x-starter-template'] as string | undefined);
+        await storage.createSession({ sessionId }, starter);
+        issueSessionToken(res, sessionId);
+        sessionRequest.sessionId = sessionId;
+        sessionRequest.clientSessionId = sessionId;
+        return next();
       }
-      
-      // If still no session ID, create a new one
-      if (!sessionId) {
-        sessionId = nanoid(21); // 21 characters for URL-safe unique ID
-        
-        // Create session in storage
-        await storage.createSession({ sessionId });
-        
-        // Set cookie for browser
-        res.cookie('sessionId', sessionId, {
-          httpOnly: true,
-          secure: process.env.NODE_ENV === 'production',
-          sameSite: 'lax',
-          maxAge: 365 * 24 * 60 * 60 * 1000 // 1 year
-        });
-      } else {
-        // Check if session exists, if not create it
-        const existingSession = await storage.getSession(sessionId);
-        if (!existingSession) {
-          await storage.createSession({ sessionId });
-        } else {
-          // Update last activity
-          await storage.updateSessionActivity(sessionId);
+
+      let sessionId = verifySessionToken(token);
+      if (!sessionId && isUnsignedSessionId(token) && await storage.upgradeLegacySession(token)) {
+        // Browsers from before tokens were signed keep their notes; the bare ID stops working shortly after
+        sessionId = token;
+        issueSessionToken(res, token);
+      }
+
+      const session = sessionId ? await storage.getSession(sessionId) : null;
+      if (!session) {
+        return rejectSession(res);
+      }
+      if (isSessionExpired(session)) {
+        if (session.userId) {
+          await storage.deleteSession(session.sessionId);
+        }
+        return rejectSession(res);
+      }
+
+      let dataSessionId = session.sessionId;
+      if (session.userId) {
+        // A device signed in to an account works on the account's data. The account's data session
+        // itself is never handed to a client, so it can't be used to sign in.
+        const user = await storage.getUser(session.userId);
+        if (!user || user.sessionId === session.sessionId) {
+          return rejectSession(res);
         }
+        dataSessionId = user.sessionId;
+        sessionRequest.userId = user.id;
       }
-      
-      // Add session ID to request
-      (req as SessionRequest).sessionId = sessionId;
-      
-      // Send session ID in response header for client-side storage
-      res.header('x-session-id', sessionId);
-      
+
+      await storage.updateSessionActivity(session.sessionId);
+      sessionRequest.sessionId = dataSessionId;
+      sessionRequest.clientSessionId = session.sessionId;
+
+      // Send the token in the response header for client-side storage
+      if (!res.getHeader('x-session-id')) {
+        res.header('x-session-id', signSessionId(session.sessionId));
+      }
+
       next();
     } catch (error) {
       console.error('Session middleware error:', error);
       next(error);
     }
   };
-}
\ No newline at end of file
+}
@@ -0,0 +1,43 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Clients hold "<sessionId>.<signature>" rather than the bare ID, so a session can't be used by
+// anyone who merely learns or guesses its ID
+const DEV_SECRET = "notetimes-development-session-secret";
+
+function getSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (secret) return secret;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production");
+  }
+  return DEV_SECRET;
+}
+
+const secret = getSecret();
+if (secret === DEV_SECRET) {
+  console.warn("SESSION_SECRET is not set; using an insecure development secret for session tokens");
+}
+
+function sign(sessionId: string): string {
+  return createHmac("sha256", secret).update(sessionId).digest("base64url");
+}
+
+export function signSessionId(sessionId: string): string {
+  return `${sessionId}.${sign(sessionId)}`;
+}
+
+// Returns the session ID if the token's signature is valid, otherwise null
+export function verifySessionToken(token: string): string | null {
+  const separator = token.lastIndexOf(".");
+  if (separator <= 0) return null;
+
+  const sessionId = token.slice(0, separator);
+  const signature = Buffer.from(token.slice(separator + 1));
+  const expected = Buffer.from(sign(sessionId));
+  return signature.length === expected.length && timingSafeEqual(signature, expected) ? sessionId : null;
+}
+
+// Bare IDs handed out before tokens were signed; they never contain a "."
+export function isUnsignedSessionId(token: string): boolean {
+  return /^[\w-]{21}$/.test(token);
+}
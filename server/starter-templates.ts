@@ -0,0 +1,138 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import type { NoteImportData, StarterTemplateSummary } from "@shared/schema";
+import { normalizeFolderPath } from "@shared/folders";
+import { literalNote } from "./note-import";
+import { parseVariableData } from "./variable-import";
+
+// Starter templates: what a new session starts with instead of an empty notebook. Each is a
+// JSON or YAML file in the starter-templates directory, named by its file name:
+//
+//   name: Consulting
+//   description: Clients, projects and a note on how variables work
+//   folders: [Clients, Internal]
+//   variables:
+//     client: [Acme Inc|Acme, Globex]
+//   notes:
+//     - Type /client to insert a client
+//     - { content: "Weekly review #planning", folder: Internal }
+//     - { content: "Start here", pinned: true }
+//
+// Variables take any form the variable importer reads. Templates are read once, so changes
+// need a restart.
+
+export const STARTER_TEMPLATES_DIR = process.env.STARTER_TEMPLATES_DIR || path.resolve(process.cwd(), "starter-templates");
+
+export interface StarterTemplate extends StarterTemplateSummary {
+  data: Omit<NoteImportData, "notes">;
+  starterNotes: Array<{ content: string; folder: string | null; tags: string[]; pinned: boolean }>;
+}
+
+const templateNoteSchema = z.union([
+  z.string().min(1).transform(content => ({ content, folder: null, tags: [] as string[], pinned: false })),
+  z.object({
+    content: z.string().min(1, "content is required"),
+    folder: z.string().nullable().default(null),
+    tags: z.array(z.string()).default([]),
+    pinned: z.boolean().default(false),
+  }),
+]);
+
+const templateFileSchema = z.object({
+  name: z.string().trim().min(1, "name is required"),
+  description: z.string().trim().nullable().default(null),
+  folders: z.array(z.string()).default([]),
+  variables: z.unknown().optional(),
+  notes: z.array(templateNoteSchema).default([]),
+});
+
+const TEMPLATE_FILE = /^([\w-]+)\.(json|ya?ml)$/i;
+
+async function readTemplateFile(dir: string, fileName: string, id: string): Promise<StarterTemplate> {
+  const text = await fs.readFile(path.join(dir, fileName), "utf8");
+  const raw = fileName.toLowerCase().endsWith(".json") ? JSON.parse(text) : parseYaml(text);
+  const file = templateFileSchema.parse(raw);
+
+  const { variables, errors } = file.variables === undefined
+    ? { variables: [], errors: [] }
+    : parseVariableData(file.variables);
+  if (errors.length > 0) {
+    throw new Error(errors.map(issue => `${issue.location}: ${issue.message}`).join("; "));
+  }
+
+  const folders = file.folders.map(folder => normalizeFolderPath(folder)).filter(Boolean);
+  return {
+    id,
+    name: file.name,
+    description: file.description,
+    variables: variables.map(variable => variable.name),
+    folders,
+    notes: file.notes.length,
+    data: { folders, variables },
+    starterNotes: file.notes,
+  };
+}
+
+// A template that can't be read is left out of the picker rather than stopping the server
+async function readStarterTemplates(dir: string): Promise<StarterTemplate[]> {
+  let fileNames: string[];
+  try {
+    fileNames = (await fs.readdir(dir)).sort();
+  } catch (error) {
+    // No directory means no templates, so every session starts empty
+    return [];
+  }
+
+  const templates: StarterTemplate[] = [];
+  for (const fileName of fileNames) {
+    const match = fileName.match(TEMPLATE_FILE);
+    if (!match) continue;
+    const id = match[1].toLowerCase();
+    if (id === "empty" || templates.some(template => template.id === id)) {
+      console.error(`Skipping starter template ${fileName}: "${id}" is ${id === "empty" ? "reserved" : "already taken"}`);
+      continue;
+    }
+    try {
+      templates.push(await readTemplateFile(dir, fileName, id));
+    } catch (error) {
+      const message = error instanceof z.ZodError
+        ? error.errors.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ")
+        : error instanceof Error ? error.message : String(error);
+      console.error(`Skipping starter template ${fileName}: ${message}`);
+    }
+  }
+  return templates;
+}
+
+let templates: Promise<StarterTemplate[]> | null = null;
+
+export function getStarterTemplates(): Promise<StarterTemplate[]> {
+  templates ??= readStarterTemplates(STARTER_TEMPLATES_DIR);
+  return templates;
+}
+
+export function summarizeStarterTemplate({ id, name, description, variables, folders, notes }: StarterTemplate): StarterTemplateSummary {
+  return { id, name, description, variables, folders, notes };
+}
+
+// What createSession seeds a session with. Notes are dated now, a second apart, so the timeline
+// shows them in the order the template lists them.
+export function buildStarterData(template: StarterTemplate, now = new Date()): NoteImportData {
+  return {
+    ...template.data,
+    notes: template.starterNotes.map((note, index) => {
+      const occurredAt = new Date(now.getTime() - index * 1000);
+      // Pinned at the note's own time, so pinned notes also keep the template's order
+      return { ...literalNote(note.content, occurredAt, note.tags, note.folder), pinnedAt: note.pinned ? occurredAt : null };
+    }),
+  };
+}
+
+// The starter data for the template a new client picked; "empty" or an unknown id gets none
+export async function resolveStarterData(templateId: string | undefined): Promise<NoteImportData | undefined> {
+  if (!templateId || templateId === "empty") return undefined;
+  const template = (await getStarterTemplates()).find(t => t.id === templateId);
+  return template ? buildStarterData(template) : undefined;
+}
@@ -1,61 +1,204 @@
-import { type Note, type InsertNote, type Variable, type InsertVariable, type UserSession, type InsertUserSession } from "@shared/schema";
+import { type Note, type InsertNote, type UpdateNote, type NoteRevision, type NoteSearchResult, type Attachment, type InsertAttachment, type Variable, type InsertVariable, type UpdateVariable, type VariableValue, type UserSession, type InsertUserSession, type User, type InsertUser, type ApiToken, type InsertApiToken, type NoteImportData, type ImportedVariable, type VariableImportMode, type PublishedPack, type InsertPublishedPack, type PackSubscription, type InsertPackSubscription, type DisplayPreferences, type Tag, type UpdateTag, type TagSummary, type SavedSearch, type InsertSavedSearch, type VariableMentions } from "@shared/schema";
 import { randomUUID } from "crypto";
+import { InvertedIndex, buildSnippet } from "./search-index";
+import { type BlobStore, LocalDiskBlobStore } from "./blob-store";
+import { type PageOptions, isBeforeCursor, compareNewestFirst } from "./pagination";
+import { normalizeFolderPath, ancestorFolderPaths, isInFolder, replaceFolderPrefix } from "@shared/folders";
+import { retagNote, renameNoteTags, tokensToMentions, type TokenMention } from "@shared/tokens";
+import { isInTag, replaceTagPrefix, summarizeTags } from "@shared/tags";
+import { applyVariableImport, mergeVariableValues } from "@shared/variables";
+import { type NoteQuery, matchesNoteQuery } from "@shared/note-query";
+
+export interface FolderNotesOptions extends PageOptions {
+  includeDescendants?: boolean;
+}
+
+// Sessions idle since before these are purged; see server/session-cleanup.ts
+export interface SessionPurgeCutoffs {
+  anonymousBefore: Date;
+  accountBefore: Date;
+}
+
+// A bare session ID from before tokens were signed is accepted the first time it's seen and for
+// this long after, so the burst of requests a page makes on load all get through
+export const LEGACY_SESSION_GRACE = 5 * 60 * 1000;
 
 export interface IStorage {
   // Sessions
-  createSession(session: InsertUserSession): Promise<UserSession>;
+  createSession(session: InsertUserSession, starter?: NoteImportData): Promise<UserSession>; // Seeded with a starter template's data, if given, as one transaction
   getSession(sessionId: string): Promise<UserSession | null>;
   updateSessionActivity(sessionId: string): Promise<void>;
+  advanceSessionCounter(sessionId: string, steps: number): Promise<number>;
+  updateSessionPreferences(sessionId: string, preferences: DisplayPreferences): Promise<DisplayPreferences>;
+  deleteSession(sessionId: string): Promise<void>;
+  mergeSession(fromSessionId: string, intoSessionId: string): Promise<void>;
+  upgradeLegacySession(sessionId: string): Promise<boolean>;
+  purgeExpiredSessions(cutoffs: SessionPurgeCutoffs): Promise<number>;
+  
+  // Users
+  createUser(user: InsertUser): Promise<User>;
+  getUser(userId: string): Promise<User | null>;
+  getUserByUsername(username: string): Promise<User | null>;
+  
+  // API tokens
+  getApiTokens(sessionId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | null>;
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  touchApiToken(tokenId: string): Promise<void>;
+  deleteApiToken(sessionId: string, tokenId: string): Promise<void>;
   
   // Notes
-  getNotes(sessionId: string): Promise<Note[]>;
-  getNotesByFolder(sessionId: string, folder: string): Promise<Note[]>;
+  getNotes(sessionId: string, page?: PageOptions): Promise<Note[]>;
+  getNotesByFolder(sessionId: string, folder: string, options?: FolderNotesOptions): Promise<Note[]>;
+  searchNotes(sessionId: string, query: string, limit?: number): Promise<NoteSearchResult[]>;
+  queryNotes(sessionId: string, query: NoteQuery, page?: PageOptions): Promise<Note[]>;
+  getNote(sessionId: string, noteId: string): Promise<Note | null>;
   createNote(note: InsertNote): Promise<Note>;
-  deleteNote(sessionId: string, noteId: string): Promise<void>;
+  updateNote(sessionId: string, noteId: string, update: UpdateNote): Promise<Note>;
+  getPinnedNotes(sessionId: string): Promise<Note[]>; // Most recently pinned first, trash excluded
+  setNotePinned(sessionId: string, noteId: string, pinned: boolean): Promise<Note>; // Not an edit; no revision is kept
+  deleteNote(sessionId: string, noteId: string): Promise<void>; // Permanently; only notes in the trash
   deleteAllNotes(sessionId: string): Promise<void>;
+  trashNotes(sessionId: string, noteIds?: string[]): Promise<string[]>; // Every note when noteIds is omitted
+  getTrashedNotes(sessionId: string): Promise<Note[]>;
+  restoreNotes(sessionId: string, noteIds: string[]): Promise<Note[]>;
+  purgeTrash(deletedBefore: Date, sessionId?: string): Promise<number>; // Every session's when sessionId is omitted
+  moveNotes(sessionId: string, noteIds: string[], folder: string): Promise<Note[]>;
+  retagNotes(sessionId: string, noteIds: string[], add: string[], remove: string[]): Promise<Note[]>;
+  importNotes(sessionId: string, data: NoteImportData): Promise<void>;
   getFolders(sessionId: string): Promise<string[]>;
+  getFolderCounts(sessionId: string): Promise<Record<string, number>>; // Notes directly in each folder, trash excluded
   createFolder(sessionId: string, name: string): Promise<string>;
+  renameFolder(sessionId: string, name: string, newName: string): Promise<string>;
+  deleteFolder(sessionId: string, name: string, reassignTo?: string): Promise<void>;
+  
+  // Tags
+  getTags(sessionId: string): Promise<TagSummary[]>;
+  updateTag(sessionId: string, name: string, update: UpdateTag): Promise<Tag>;
+  mergeTags(sessionId: string, tags: string[], into: string): Promise<number>; // Notes rewritten; a rename is a merge into an unused name
+  
+  // Variable mentions, indexed from each note's tokens as it's saved
+  getVariableMentions(sessionId: string, variable: string, value?: string): Promise<VariableMentions>; // value narrows the notes to that value
+  getMentionCounts(sessionId: string): Promise<Record<string, number>>; // Mentions per note id
+  
+  // Saved searches
+  getSavedSearches(sessionId: string): Promise<SavedSearch[]>;
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(sessionId: string, searchId: string, update: Pick<SavedSearch, "name" | "query">): Promise<SavedSearch>;
+  deleteSavedSearch(sessionId: string, searchId: string): Promise<void>;
+  
+  // Note revisions
+  getNoteRevisions(sessionId: string, noteId: string): Promise<NoteRevision[]>;
+  restoreNoteRevision(sessionId: string, noteId: string, revisionId: string): Promise<Note>;
+  
+  // Attachments
+  getAttachments(sessionId: string, noteId?: string): Promise<Attachment[]>;
+  getAttachment(sessionId: string, attachmentId: string): Promise<Attachment | null>;
+  getAttachmentData(attachment: Attachment): Promise<Buffer | null>;
+  createAttachment(attachment: InsertAttachment, data: Buffer): Promise<Attachment>;
+  deleteAttachment(sessionId: string, attachmentId: string): Promise<void>;
   
   // Variables
   getVariables(sessionId: string): Promise<Variable[]>;
   createVariable(variable: InsertVariable): Promise<Variable>;
-  updateVariable(id: string, variable: Partial<InsertVariable>): Promise<Variable>;
-  deleteVariable(id: string): Promise<void>;
-  addVariableValue(sessionId: string, name: string, value: string): Promise<Variable>;
+  updateVariable(sessionId: string, id: string, variable: UpdateVariable): Promise<Variable>;
+  deleteVariable(sessionId: string, id: string): Promise<void>;
+  // Adds a value, or fills in the aliases and attributes of the one with the same text
+  addVariableValue(sessionId: string, name: string, value: VariableValue): Promise<Variable>;
+  // Creates the variables that don't exist yet and merges into or replaces the ones that do; see applyVariableImport
+  importVariables(sessionId: string, variables: ImportedVariable[], mode: VariableImportMode): Promise<void>;
+  advanceVariableRotation(sessionId: string, name: string, steps: number): Promise<number>;
+  
+  // Variable packs published by link, and subscriptions to other sessions' packs; see server/variable-packs.ts
+  getPublishedPacks(sessionId: string): Promise<PublishedPack[]>;
+  getPublishedPack(packId: string): Promise<PublishedPack | null>; // Any session's, for subscribers
+  getPublishedPackByToken(shareToken: string): Promise<PublishedPack | null>;
+  createPublishedPack(pack: InsertPublishedPack): Promise<PublishedPack>;
+  updatePublishedPack(sessionId: string, packId: string, update: Pick<PublishedPack, "name" | "variableNames">): Promise<PublishedPack>;
+  deletePublishedPack(sessionId: string, packId: string): Promise<void>; // Subscribers keep their copies as ordinary variables
+  getPackSubscriptions(sessionId: string): Promise<PackSubscription[]>;
+  createPackSubscription(subscription: InsertPackSubscription): Promise<PackSubscription>;
+  deletePackSubscription(sessionId: string, subscriptionId: string): Promise<void>; // Deletes the copied variables too
+  // Replaces a subscription's copies with `variables`, leaving out names the session uses for its own variables
+  syncPackSubscription(subscriptionId: string, variables: ImportedVariable[], contentHash: string): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
   private notes: Map<string, Note>;
+  private noteRevisions: Map<string, NoteRevision>;
+  private attachments: Map<string, Attachment>;
   private variables: Map<string, Variable>;
   private sessions: Map<string, UserSession>;
+  private users: Map<string, User>;
+  private apiTokens: Map<string, ApiToken>;
   private folders: Map<string, Set<string>>;
+  private tags: Map<string, Tag>;
+  private savedSearches: Map<string, SavedSearch>;
+  private publishedPacks: Map<string, PublishedPack>;
+  private packSubscriptions: Map<string, PackSubscription>;
+  private searchIndexes: Map<string, InvertedIndex>;
+  // note id -> the variables it mentions
+  private mentions: Map<string, TokenMention[]>;
 
-  constructor() {
+  constructor(private blobStore: BlobStore = new LocalDiskBlobStore()) {
     this.notes = new Map();
+    this.noteRevisions = new Map();
+    this.attachments = new Map();
     this.variables = new Map();
     this.sessions = new Map();
+    this.users = new Map();
+    this.apiTokens = new Map();
     this.folders = new Map();
+    this.tags = new Map();
+    this.savedSearches = new Map();
+    this.publishedPacks = new Map();
+    this.packSubscriptions = new Map();
+    this.searchIndexes = new Map();
+    this.mentions = new Map();
   }
 
-  async createSession(insertSession: InsertUserSession): Promise<UserSession> {
+  private getSearchIndex(sessionId: string): InvertedIndex {
+    if (!this.searchIndexes.has(sessionId)) {
+      this.searchIndexes.set(sessionId, new InvertedIndex());
+    }
+    return this.searchIndexes.get(sessionId)!;
+  }
+
+  async createSession(insertSession: InsertUserSession, starter?: NoteImportData): Promise<UserSession> {
     const session: UserSession = {
       id: randomUUID(),
       sessionId: insertSession.sessionId,
+      userId: insertSession.userId ?? null,
       createdAt: new Date(),
       lastActiveAt: new Date(),
+      counter: 0,
+      tokenIssuedAt: new Date(),
+      preferences: {},
     };
-    this.sessions.set(insertSession.sessionId, session);
     
-    // Initialize default folder for this session
-    if (!this.folders.has(insertSession.sessionId)) {
-      this.folders.set(insertSession.sessionId, new Set(["General"]));
+    // A device signed in to an account works on the account's data, so its own session stays empty
+    if (!session.userId) {
+      // Seeded before the session is stored, and undone if seeding fails, as DbStorage's transaction would
+      if (starter) {
+        try {
+          await this.importNotes(insertSession.sessionId, starter);
+        } catch (error) {
+          await this.deleteAllNotes(insertSession.sessionId);
+          Array.from(this.variables.values())
+            .filter(variable => variable.sessionId === insertSession.sessionId)
+            .forEach(variable => this.variables.delete(variable.id));
+          this.folders.delete(insertSession.sessionId);
+          throw error;
+        }
+      }
+      
+      // Initialize default folder for this session
+      if (!this.folders.has(insertSession.sessionId)) {
+        this.folders.set(insertSession.sessionId, new Set(["General"]));
+      }
     }
     
-    // Add some default variables for this session
-    await this.createVariable({ sessionId: insertSession.sessionId, name: "user", values: ["John Doe", "Jane Smith", "Bob Wilson"] });
-    await this.createVariable({ sessionId: insertSession.sessionId, name: "company", values: ["Acme Inc", "Tech Corp", "Innovation Labs"] });
-    await this.createVariable({ sessionId: insertSession.sessionId, name: "project", values: ["Alpha", "Beta", "Gamma"] });
-    
+    this.sessions.set(insertSession.sessionId, session);
     return session;
   }
 
@@ -70,34 +213,372 @@ export class MemStorage implements IStorage {
     }
   }
 
-  async getNotes(sessionId: string): Promise<Note[]> {
-    return Array.from(this.notes.values())
-      .filter(note => note.sessionId === sessionId)
+  async advanceSessionCounter(sessionId: string, steps: number): Promise<number> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    
+    const start = session.counter;
+    session.counter += steps;
+    return start;
+  }
+
+  async updateSessionPreferences(sessionId: string, preferences: DisplayPreferences): Promise<DisplayPreferences> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    
+    session.preferences = { ...session.preferences, ...preferences };
+    return session.preferences;
+  }
+
+  async deleteSession(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+
+  async mergeSession(fromSessionId: string, intoSessionId: string): Promise<void> {
+    if (!this.sessions.has(fromSessionId) || !this.sessions.has(intoSessionId)) {
+      throw new Error("Session not found");
+    }
+    
+    Array.from(this.notes.values())
+      .filter(note => note.sessionId === fromSessionId)
+      .forEach(note => {
+        this.notes.set(note.id, { ...note, sessionId: intoSessionId });
+        if (!note.deletedAt) this.getSearchIndex(intoSessionId).add(note.id, note.content);
+      });
+    this.searchIndexes.delete(fromSessionId);
+    
+    Array.from(this.noteRevisions.values())
+      .filter(revision => revision.sessionId === fromSessionId)
+      .forEach(revision => this.noteRevisions.set(revision.id, { ...revision, sessionId: intoSessionId }));
+    Array.from(this.attachments.values())
+      .filter(attachment => attachment.sessionId === fromSessionId)
+      .forEach(attachment => this.attachments.set(attachment.id, { ...attachment, sessionId: intoSessionId }));
+    Array.from(this.apiTokens.values())
+      .filter(token => token.sessionId === fromSessionId)
+      .forEach(token => this.apiTokens.set(token.id, { ...token, sessionId: intoSessionId }));
+    Array.from(this.savedSearches.values())
+      .filter(search => search.sessionId === fromSessionId)
+      .forEach(search => this.savedSearches.set(search.id, { ...search, sessionId: intoSessionId }));
+    
+    const targetFolders = this.folders.get(intoSessionId) || new Set(["General"]);
+    Array.from(this.folders.get(fromSessionId) || []).forEach(folder => targetFolders.add(folder));
+    this.folders.set(intoSessionId, targetFolders);
+    this.folders.delete(fromSessionId);
+    
+    // Tags with details in both sessions keep the target's
+    const targetTags = new Set(Array.from(this.tags.values()).filter(tag => tag.sessionId === intoSessionId).map(tag => tag.name));
+    Array.from(this.tags.values())
+      .filter(tag => tag.sessionId === fromSessionId)
+      .forEach(tag => targetTags.has(tag.name)
+        ? this.tags.delete(tag.id)
+        : this.tags.set(tag.id, { ...tag, sessionId: intoSessionId }));
+    
+    Array.from(this.publishedPacks.values())
+      .filter(pack => pack.sessionId === fromSessionId)
+      .forEach(pack => this.publishedPacks.set(pack.id, { ...pack, sessionId: intoSessionId }));
+    // A pack both sessions subscribe to keeps the target's subscription; the other's copies are
+    // combined with the target's like any other variables
+    const targetPacks = new Set((await this.getPackSubscriptions(intoSessionId)).map(subscription => subscription.packId));
+    (await this.getPackSubscriptions(fromSessionId)).forEach(subscription => {
+      if (targetPacks.has(subscription.packId)) {
+        this.detachSubscription(subscription.id);
+      } else {
+        this.packSubscriptions.set(subscription.id, { ...subscription, sessionId: intoSessionId });
+      }
+    });
+    
+    // Variables with the same name are combined; the target keeps its own settings
+    const targetVariables = await this.getVariables(intoSessionId);
+    (await this.getVariables(fromSessionId)).forEach(variable => {
+      const target = targetVariables.find(v => v.name === variable.name);
+      if (target) {
+        const values = mergeVariableValues(target.values || [], variable.values || []);
+        this.variables.set(target.id, { ...target, values });
+        this.variables.delete(variable.id);
+      } else {
+        this.variables.set(variable.id, { ...variable, sessionId: intoSessionId });
+      }
+    });
+    
+    this.sessions.delete(fromSessionId);
+  }
+
+  async upgradeLegacySession(sessionId: string): Promise<boolean> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return false;
+    }
+    if (!session.tokenIssuedAt) {
+      session.tokenIssuedAt = new Date();
+      return true;
+    }
+    
+    // Sessions created with signed tokens never had a usable bare ID
+    const issuedAt = session.tokenIssuedAt.getTime();
+    const upgraded = new Date(session.createdAt).getTime() < issuedAt - 60 * 1000;
+    return upgraded && Date.now() - issuedAt < LEGACY_SESSION_GRACE;
+  }
+
+  async purgeExpiredSessions({ anonymousBefore, accountBefore }: SessionPurgeCutoffs): Promise<number> {
+    // Account data sessions are never purged, only the sign-ins pointing at them
+    const dataSessionIds = new Set(Array.from(this.users.values()).map(user => user.sessionId));
+    const expired = Array.from(this.sessions.values()).filter(session =>
+      !dataSessionIds.has(session.sessionId) &&
+      new Date(session.lastActiveAt) < (session.userId ? accountBefore : anonymousBefore)
+    );
+    
+    for (const session of expired) {
+      if (!session.userId) {
+        await this.deleteAllNotes(session.sessionId);
+        Array.from(this.variables.values())
+          .filter(variable => variable.sessionId === session.sessionId)
+          .forEach(variable => this.variables.delete(variable.id));
+        Array.from(this.apiTokens.values())
+          .filter(token => token.sessionId === session.sessionId)
+          .forEach(token => this.apiTokens.delete(token.id));
+        this.folders.delete(session.sessionId);
+        Array.from(this.tags.values())
+          .filter(tag => tag.sessionId === session.sessionId)
+          .forEach(tag => this.tags.delete(tag.id));
+        Array.from(this.savedSearches.values())
+          .filter(search => search.sessionId === session.sessionId)
+          .forEach(search => this.savedSearches.delete(search.id));
+        (await this.getPackSubscriptions(session.sessionId))
+          .forEach(subscription => this.packSubscriptions.delete(subscription.id));
+        for (const pack of await this.getPublishedPacks(session.sessionId)) {
+          await this.deletePublishedPack(session.sessionId, pack.id);
+        }
+      }
+      this.sessions.delete(session.sessionId);
+    }
+    return expired.length;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error("Username is already taken");
+    }
+    const session = this.sessions.get(insertUser.sessionId);
+    if (!session) {
+      throw new Error("Session not found");
+    }
+    
+    const user: User = {
+      ...insertUser,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    session.userId = user.id;
+    return user;
+  }
+
+  async getUser(userId: string): Promise<User | null> {
+    return this.users.get(userId) || null;
+  }
+
+  async getUserByUsername(username: string): Promise<User | null> {
+    return Array.from(this.users.values()).find(user => user.username === username) || null;
+  }
+
+  async getApiTokens(sessionId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter(token => token.sessionId === sessionId)
       .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
   }
 
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | null> {
+    return Array.from(this.apiTokens.values()).find(token => token.tokenHash === tokenHash) || null;
+  }
+
+  async createApiToken(insertToken: InsertApiToken): Promise<ApiToken> {
+    const token: ApiToken = {
+      ...insertToken,
+      id: randomUUID(),
+      scopes: [...insertToken.scopes],
+      createdAt: new Date(),
+      lastUsedAt: null,
+    };
+    this.apiTokens.set(token.id, token);
+    return token;
+  }
+
+  async touchApiToken(tokenId: string): Promise<void> {
+    const token = this.apiTokens.get(tokenId);
+    if (token) {
+      token.lastUsedAt = new Date();
+    }
+  }
+
+  async deleteApiToken(sessionId: string, tokenId: string): Promise<void> {
+    const token = this.apiTokens.get(tokenId);
+    if (!token || token.sessionId !== sessionId) {
+      throw new Error("API token not found");
+    }
+    this.apiTokens.delete(tokenId);
+  }
+
+  async getNotes(sessionId: string, page?: PageOptions): Promise<Note[]> {
+    return this.paginate(Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt), page);
+  }
+
+  async queryNotes(sessionId: string, query: NoteQuery, page?: PageOptions): Promise<Note[]> {
+    const withAttachments = new Set(Array.from(this.attachments.values())
+      .filter(attachment => attachment.sessionId === sessionId)
+      .map(attachment => attachment.noteId));
+    
+    return this.paginate(Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt)
+      .filter(note => matchesNoteQuery(note, query, withAttachments.has(note.id))), page);
+  }
+
+  private paginate(notes: Note[], page?: PageOptions): Note[] {
+    const sorted = notes.sort(compareNewestFirst);
+    const before = page?.before;
+    const remaining = before ? sorted.filter(note => isBeforeCursor(note, before)) : sorted;
+    return page?.limit ? remaining.slice(0, page.limit) : remaining;
+  }
+
+  async getNote(sessionId: string, noteId: string): Promise<Note | null> {
+    const note = this.notes.get(noteId);
+    if (!note || note.sessionId !== sessionId || note.deletedAt) {
+      return null;
+    }
+    return note;
+  }
+
   async createNote(insertNote: InsertNote): Promise<Note> {
     const id = randomUUID();
+    const now = new Date();
     const note: Note = {
       ...insertNote,
       id,
-      createdAt: new Date(),
+      occurredAt: insertNote.occurredAt ?? now,
+      timeZone: insertNote.timeZone ?? null,
+      createdAt: now,
+      updatedAt: null,
+      deletedAt: null,
+      pinnedAt: null,
+      tokens: insertNote.tokens ? [...insertNote.tokens] : [],
       tags: insertNote.tags ? [...insertNote.tags] : [],
       folder: insertNote.folder || "General",
     };
     this.notes.set(id, note);
+    this.getSearchIndex(note.sessionId).add(id, note.content);
+    this.mentions.set(id, tokensToMentions(note.tokens ?? []));
     return note;
   }
 
+  async importNotes(sessionId: string, data: NoteImportData): Promise<void> {
+    data.notes.forEach(imported => {
+      const id = randomUUID();
+      const note: Note = {
+        ...imported,
+        id,
+        sessionId,
+        updatedAt: null,
+        deletedAt: null,
+        pinnedAt: imported.pinnedAt ?? null,
+        tokens: imported.tokens ? [...imported.tokens] : [],
+        tags: imported.tags ? [...imported.tags] : [],
+        folder: imported.folder || "General",
+      };
+      this.notes.set(id, note);
+      this.getSearchIndex(sessionId).add(id, note.content);
+      this.mentions.set(id, tokensToMentions(note.tokens ?? []));
+    });
+    
+    await Promise.all(data.folders.map(folder => this.createFolder(sessionId, folder)));
+    
+    // Variables with the same name are combined; the existing one keeps its own settings
+    const existing = await this.getVariables(sessionId);
+    await Promise.all(data.variables.map(async variable => {
+      const target = existing.find(v => v.name === variable.name);
+      if (target) {
+        const values = mergeVariableValues(target.values || [], variable.values || []);
+        this.variables.set(target.id, { ...target, values });
+      } else {
+        await this.createVariable({ ...variable, sessionId });
+      }
+    }));
+  }
+
+  async updateNote(sessionId: string, noteId: string, update: UpdateNote): Promise<Note> {
+    const existing = this.notes.get(noteId);
+    if (!existing || existing.deletedAt) {
+      throw new Error("Note not found");
+    }
+    if (existing.sessionId !== sessionId) {
+      throw new Error("Note does not belong to this session");
+    }
+    
+    // Keep the current version before overwriting it
+    const revision: NoteRevision = {
+      id: randomUUID(),
+      noteId,
+      sessionId,
+      content: existing.content,
+      originalContent: existing.originalContent,
+      tokens: existing.tokens ? [...existing.tokens] : [],
+      tags: existing.tags ? [...existing.tags] : [],
+      folder: existing.folder,
+      occurredAt: existing.occurredAt,
+      createdAt: new Date(),
+    };
+    this.noteRevisions.set(revision.id, revision);
+    
+    const updated: Note = {
+      ...existing,
+      ...(update.content !== undefined && { content: update.content }),
+      ...(update.originalContent !== undefined && { originalContent: update.originalContent }),
+      ...(update.tokens !== undefined && { tokens: update.tokens ? [...update.tokens] : [] }),
+      ...(update.tags !== undefined && { tags: update.tags ? [...update.tags] : [] }),
+      ...(update.folder !== undefined && { folder: update.folder || "General" }),
+      ...(update.occurredAt !== undefined && { occurredAt: update.occurredAt }),
+      updatedAt: new Date(),
+    };
+    this.notes.set(noteId, updated);
+    this.getSearchIndex(sessionId).add(noteId, updated.content);
+    this.mentions.set(noteId, tokensToMentions(updated.tokens ?? []));
+    return updated;
+  }
+
+  async getPinnedNotes(sessionId: string): Promise<Note[]> {
+    return Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && note.pinnedAt && !note.deletedAt)
+      .sort((a, b) => new Date(b.pinnedAt!).getTime() - new Date(a.pinnedAt!).getTime());
+  }
+
+  async setNotePinned(sessionId: string, noteId: string, pinned: boolean): Promise<Note> {
+    const existing = this.notes.get(noteId);
+    if (!existing || existing.sessionId !== sessionId || existing.deletedAt) {
+      throw new Error("Note not found");
+    }
+    
+    // Pinning an already pinned note keeps its place
+    const updated: Note = { ...existing, pinnedAt: pinned ? existing.pinnedAt ?? new Date() : null };
+    this.notes.set(noteId, updated);
+    return updated;
+  }
+
   async deleteNote(sessionId: string, noteId: string): Promise<void> {
     const note = this.notes.get(noteId);
-    if (!note) {
+    if (!note || !note.deletedAt) {
       throw new Error("Note not found");
     }
     if (note.sessionId !== sessionId) {
       throw new Error("Note does not belong to this session");
     }
     this.notes.delete(noteId);
+    this.getSearchIndex(sessionId).remove(noteId);
+    this.mentions.delete(noteId);
+    this.deleteRevisionsForNotes([noteId]);
+    await this.deleteAttachmentsForNotes([noteId]);
   }
 
   async deleteAllNotes(sessionId: string): Promise<void> {
@@ -105,7 +586,141 @@ export class MemStorage implements IStorage {
       .filter(([, note]) => note.sessionId === sessionId)
       .map(([id]) => id);
     
-    notesToDelete.forEach(id => this.notes.delete(id));
+    notesToDelete.forEach(id => {
+      this.notes.delete(id);
+      this.mentions.delete(id);
+    });
+    this.searchIndexes.delete(sessionId);
+    this.deleteRevisionsForNotes(notesToDelete);
+    await this.deleteAttachmentsForNotes(notesToDelete);
+  }
+
+  async trashNotes(sessionId: string, noteIds?: string[]): Promise<string[]> {
+    const deletedAt = new Date();
+    const trashed = Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt && (!noteIds || noteIds.includes(note.id)));
+    
+    trashed.forEach(note => {
+      this.notes.set(note.id, { ...note, deletedAt });
+      this.getSearchIndex(sessionId).remove(note.id);
+    });
+    return trashed.map(note => note.id);
+  }
+
+  async getTrashedNotes(sessionId: string): Promise<Note[]> {
+    return Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && note.deletedAt)
+      .sort((a, b) => new Date(b.deletedAt!).getTime() - new Date(a.deletedAt!).getTime());
+  }
+
+  async restoreNotes(sessionId: string, noteIds: string[]): Promise<Note[]> {
+    const restored = Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && note.deletedAt && noteIds.includes(note.id))
+      .map(note => ({ ...note, deletedAt: null }));
+    
+    for (const note of restored) {
+      this.notes.set(note.id, note);
+      this.getSearchIndex(sessionId).add(note.id, note.content);
+      // The note's folder may have been deleted while it was in the trash
+      await this.createFolder(sessionId, note.folder || "General");
+    }
+    return restored;
+  }
+
+  async purgeTrash(deletedBefore: Date, sessionId?: string): Promise<number> {
+    const notesToDelete = Array.from(this.notes.values())
+      .filter(note => note.deletedAt && new Date(note.deletedAt) <= deletedBefore && (!sessionId || note.sessionId === sessionId))
+      .map(note => note.id);
+    
+    notesToDelete.forEach(id => {
+      this.notes.delete(id);
+      this.mentions.delete(id);
+    });
+    this.deleteRevisionsForNotes(notesToDelete);
+    await this.deleteAttachmentsForNotes(notesToDelete);
+    return notesToDelete.length;
+  }
+
+  async getNoteRevisions(sessionId: string, noteId: string): Promise<NoteRevision[]> {
+    return Array.from(this.noteRevisions.values())
+      .filter(revision => revision.sessionId === sessionId && revision.noteId === noteId)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  }
+
+  async restoreNoteRevision(sessionId: string, noteId: string, revisionId: string): Promise<Note> {
+    const revision = this.noteRevisions.get(revisionId);
+    if (!revision || revision.noteId !== noteId || revision.sessionId !== sessionId) {
+      throw new Error("Revision not found");
+    }
+    
+    // Restoring is itself an edit, so the version being replaced stays in history
+    return this.updateNote(sessionId, noteId, {
+      content: revision.content,
+      originalContent: revision.originalContent,
+      tokens: revision.tokens,
+      tags: revision.tags,
+      folder: revision.folder,
+      ...(revision.occurredAt && { occurredAt: revision.occurredAt }),
+    });
+  }
+
+  private deleteRevisionsForNotes(noteIds: string[]): void {
+    Array.from(this.noteRevisions.entries())
+      .filter(([, revision]) => noteIds.includes(revision.noteId))
+      .forEach(([id]) => this.noteRevisions.delete(id));
+  }
+
+  async getAttachments(sessionId: string, noteId?: string): Promise<Attachment[]> {
+    return Array.from(this.attachments.values())
+      .filter(attachment => attachment.sessionId === sessionId && (!noteId || attachment.noteId === noteId))
+      .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+  }
+
+  async getAttachment(sessionId: string, attachmentId: string): Promise<Attachment | null> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment || attachment.sessionId !== sessionId) {
+      return null;
+    }
+    return attachment;
+  }
+
+  async getAttachmentData(attachment: Attachment): Promise<Buffer | null> {
+    return this.blobStore.get(attachment.storageKey);
+  }
+
+  async createAttachment(insertAttachment: InsertAttachment, data: Buffer): Promise<Attachment> {
+    const note = await this.getNote(insertAttachment.sessionId, insertAttachment.noteId);
+    if (!note) {
+      throw new Error("Note not found");
+    }
+    
+    const id = randomUUID();
+    const attachment: Attachment = {
+      ...insertAttachment,
+      id,
+      storageKey: `${insertAttachment.sessionId}/${id}`,
+      createdAt: new Date(),
+    };
+    await this.blobStore.put(attachment.storageKey, data);
+    this.attachments.set(id, attachment);
+    return attachment;
+  }
+
+  async deleteAttachment(sessionId: string, attachmentId: string): Promise<void> {
+    const attachment = this.attachments.get(attachmentId);
+    if (!attachment || attachment.sessionId !== sessionId) {
+      throw new Error("Attachment not found");
+    }
+    this.attachments.delete(attachmentId);
+    await this.blobStore.delete(attachment.storageKey);
+  }
+
+  private async deleteAttachmentsForNotes(noteIds: string[]): Promise<void> {
+    const toDelete = Array.from(this.attachments.values())
+      .filter(attachment => noteIds.includes(attachment.noteId));
+    
+    toDelete.forEach(attachment => this.attachments.delete(attachment.id));
+    await Promise.all(toDelete.map(attachment => this.blobStore.delete(attachment.storageKey)));
   }
 
   async getVariables(sessionId: string): Promise<Variable[]> {
@@ -118,14 +733,19 @@ export class MemStorage implements IStorage {
     const variable: Variable = {
       ...insertVariable,
       id,
+      defaultValue: insertVariable.defaultValue ?? null,
+      selectionPolicy: insertVariable.selectionPolicy ?? "default",
+      rotationIndex: 0,
+      expression: insertVariable.expression ?? null,
+      subscriptionId: null,
     };
     this.variables.set(id, variable);
     return variable;
   }
 
-  async updateVariable(id: string, updateData: Partial<InsertVariable>): Promise<Variable> {
+  async updateVariable(sessionId: string, id: string, updateData: UpdateVariable): Promise<Variable> {
     const existing = this.variables.get(id);
-    if (!existing) {
+    if (!existing || existing.sessionId !== sessionId) {
       throw new Error("Variable not found");
     }
     
@@ -137,42 +757,269 @@ export class MemStorage implements IStorage {
     return updated;
   }
 
-  async deleteVariable(id: string): Promise<void> {
-    if (!this.variables.has(id)) {
+  async deleteVariable(sessionId: string, id: string): Promise<void> {
+    if (this.variables.get(id)?.sessionId !== sessionId) {
       throw new Error("Variable not found");
     }
     this.variables.delete(id);
   }
 
-  async getNotesByFolder(sessionId: string, folder: string): Promise<Note[]> {
-    return Array.from(this.notes.values())
-      .filter(note => note.sessionId === sessionId && note.folder === folder)
-      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+  async getNotesByFolder(sessionId: string, folder: string, options?: FolderNotesOptions): Promise<Note[]> {
+    return this.paginate(Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt && isInFolder(note.folder || "General", folder, options?.includeDescendants)), options);
+  }
+
+  async searchNotes(sessionId: string, query: string, limit = 50): Promise<NoteSearchResult[]> {
+    return this.getSearchIndex(sessionId).search(query)
+      .slice(0, limit)
+      .map(({ id, score }) => {
+        const note = this.notes.get(id)!;
+        return { note, rank: score, ...buildSnippet(note.content, query) };
+      });
   }
 
   async getFolders(sessionId: string): Promise<string[]> {
-    // Combine explicitly created folders with folders from notes
+    // Combine explicitly created folders with folders from notes, plus any missing parents
     const sessionFolders = this.folders.get(sessionId) || new Set(["General"]);
-    const folders = new Set(sessionFolders);
+    const folders = new Set(Array.from(sessionFolders));
     
-    for (const note of this.notes.values()) {
-      if (note.sessionId === sessionId) {
-        folders.add(note.folder || "General");
-      }
-    }
+    Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt)
+      .forEach(note => folders.add(note.folder || "General"));
+    
+    Array.from(folders).forEach(folder => ancestorFolderPaths(folder).forEach(ancestor => folders.add(ancestor)));
     return Array.from(folders).sort();
   }
 
+  async getFolderCounts(sessionId: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt)
+      .forEach(note => {
+        const folder = note.folder || "General";
+        counts[folder] = (counts[folder] || 0) + 1;
+      });
+    return counts;
+  }
+
   async createFolder(sessionId: string, name: string): Promise<string> {
-    const trimmedName = name.trim();
+    const path = normalizeFolderPath(name);
+    if (!path) {
+      throw new Error("Folder name is required");
+    }
     if (!this.folders.has(sessionId)) {
       this.folders.set(sessionId, new Set(["General"]));
     }
-    this.folders.get(sessionId)!.add(trimmedName);
-    return trimmedName;
+    
+    const sessionFolders = this.folders.get(sessionId)!;
+    ancestorFolderPaths(path).forEach(ancestor => sessionFolders.add(ancestor));
+    sessionFolders.add(path);
+    return path;
+  }
+
+  async renameFolder(sessionId: string, name: string, newName: string): Promise<string> {
+    const path = normalizeFolderPath(newName);
+    if (name === "General") {
+      throw new Error("The General folder cannot be renamed");
+    }
+    if (!path) {
+      throw new Error("Folder name is required");
+    }
+    if (isInFolder(path, name, true) && path !== name) {
+      throw new Error("A folder cannot be moved inside itself");
+    }
+    
+    const existing = await this.getFolders(sessionId);
+    if (!existing.includes(name)) {
+      throw new Error("Folder not found");
+    }
+    if (path !== name && existing.includes(path)) {
+      throw new Error(`A folder named "${path}" already exists`);
+    }
+    
+    // Renaming a folder carries its whole subtree along
+    const sessionFolders = this.folders.get(sessionId) || new Set(["General"]);
+    const renamed = new Set(Array.from(sessionFolders).map(folder => replaceFolderPrefix(folder, name, path)));
+    ancestorFolderPaths(path).forEach(ancestor => renamed.add(ancestor));
+    renamed.add(path);
+    this.folders.set(sessionId, renamed);
+    
+    Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && isInFolder(note.folder || "General", name, true))
+      .forEach(note => this.notes.set(note.id, { ...note, folder: replaceFolderPrefix(note.folder!, name, path) }));
+    
+    return path;
+  }
+
+  async deleteFolder(sessionId: string, name: string, reassignTo?: string): Promise<void> {
+    if (name === "General") {
+      throw new Error("The General folder cannot be deleted");
+    }
+    
+    // Deleting a folder removes its subfolders too
+    const notesInFolder = await this.getNotesByFolder(sessionId, name, { includeDescendants: true });
+    
+    if (notesInFolder.length > 0) {
+      if (!reassignTo) {
+        throw new Error("Cannot delete folder with notes. Please move or delete notes first.");
+      }
+      await this.moveNotes(sessionId, notesInFolder.map(note => note.id), reassignTo);
+    }
+    
+    const sessionFolders = this.folders.get(sessionId);
+    Array.from(sessionFolders || [])
+      .filter(folder => isInFolder(folder, name, true))
+      .forEach(folder => sessionFolders!.delete(folder));
+  }
+
+  async moveNotes(sessionId: string, noteIds: string[], folder: string): Promise<Note[]> {
+    const targetFolder = await this.createFolder(sessionId, folder);
+    
+    const moved: Note[] = [];
+    for (const noteId of noteIds) {
+      const note = this.notes.get(noteId);
+      if (!note || note.sessionId !== sessionId || note.deletedAt) continue;
+      
+      // A move is an edit of the note's folder, so it goes through revision history
+      moved.push(note.folder === targetFolder ? note : await this.updateNote(sessionId, noteId, { folder: targetFolder }));
+    }
+    return moved;
+  }
+
+  async retagNotes(sessionId: string, noteIds: string[], add: string[], remove: string[]): Promise<Note[]> {
+    const retagged: Note[] = [];
+    for (const noteId of noteIds) {
+      const note = this.notes.get(noteId);
+      if (!note || note.sessionId !== sessionId || note.deletedAt) continue;
+      
+      const update = retagNote(note, add, remove);
+      retagged.push(update ? await this.updateNote(sessionId, noteId, update) : note);
+    }
+    return retagged;
+  }
+
+  async getTags(sessionId: string): Promise<TagSummary[]> {
+    const noteTags = Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt)
+      .map(note => note.tags);
+    const details = Array.from(this.tags.values()).filter(tag => tag.sessionId === sessionId);
+    return summarizeTags(noteTags, details);
+  }
+
+  async updateTag(sessionId: string, name: string, update: UpdateTag): Promise<Tag> {
+    const existing = Array.from(this.tags.values()).find(tag => tag.sessionId === sessionId && tag.name === name);
+    const tag: Tag = {
+      ...(existing ?? { id: randomUUID(), sessionId, name, color: null, description: null, createdAt: new Date() }),
+      ...(update.color !== undefined && { color: update.color }),
+      ...(update.description !== undefined && { description: update.description || null }),
+    };
+    this.tags.set(tag.id, tag);
+    return tag;
+  }
+
+  async mergeTags(sessionId: string, tags: string[], into: string): Promise<number> {
+    const rename = (tag: string) => {
+      const source = tags.find(source => isInTag(tag, source, true));
+      return source ? replaceTagPrefix(tag, source, into) : tag;
+    };
+    
+    let rewritten = 0;
+    for (const note of Array.from(this.notes.values())) {
+      if (note.sessionId !== sessionId) continue;
+      const update = renameNoteTags(note, rename);
+      if (!update) continue;
+      
+      // Notes in the trash are rewritten in place so they come back with the new name
+      if (note.deletedAt) {
+        this.notes.set(note.id, { ...note, ...update });
+      } else {
+        await this.updateNote(sessionId, note.id, update);
+      }
+      rewritten++;
+    }
+    
+    // Details move to the new name unless it already has its own
+    const sessionTags = Array.from(this.tags.values()).filter(tag => tag.sessionId === sessionId);
+    const names = new Set(sessionTags.map(tag => tag.name));
+    sessionTags.filter(tag => rename(tag.name) !== tag.name).forEach(tag => {
+      const name = rename(tag.name);
+      if (names.has(name)) {
+        this.tags.delete(tag.id);
+      } else {
+        this.tags.set(tag.id, { ...tag, name });
+        names.add(name);
+      }
+    });
+    return rewritten;
+  }
+
+  async getVariableMentions(sessionId: string, variable: string, value?: string): Promise<VariableMentions> {
+    const valueCounts = new Map<string | null, number>();
+    const notes: Note[] = [];
+    Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt)
+      .forEach(note => {
+        const mentions = (this.mentions.get(note.id) ?? []).filter(mention => mention.variable === variable);
+        mentions.forEach(mention => valueCounts.set(mention.value, (valueCounts.get(mention.value) ?? 0) + 1));
+        if (mentions.some(mention => value === undefined || mention.value === value)) {
+          notes.push(note);
+        }
+      });
+    
+    // Most mentioned first; bare references last
+    const values = Array.from(valueCounts, ([value, notes]) => ({ value, notes }))
+      .sort((a, b) => b.notes - a.notes || (a.value === null ? 1 : b.value === null ? -1 : a.value.localeCompare(b.value)));
+    return { variable, value: value ?? null, values, notes: notes.sort(compareNewestFirst) };
   }
 
-  async addVariableValue(sessionId: string, name: string, value: string): Promise<Variable> {
+  async getMentionCounts(sessionId: string): Promise<Record<string, number>> {
+    const counts: Record<string, number> = {};
+    Array.from(this.notes.values())
+      .filter(note => note.sessionId === sessionId && !note.deletedAt)
+      .forEach(note => {
+        const mentions = this.mentions.get(note.id) ?? [];
+        if (mentions.length > 0) {
+          counts[note.id] = mentions.reduce((sum, mention) => sum + mention.count, 0);
+        }
+      });
+    return counts;
+  }
+
+  async getSavedSearches(sessionId: string): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values())
+      .filter(search => search.sessionId === sessionId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async createSavedSearch(insertSearch: InsertSavedSearch): Promise<SavedSearch> {
+    const search: SavedSearch = {
+      ...insertSearch,
+      id: randomUUID(),
+      createdAt: new Date(),
+    };
+    this.savedSearches.set(search.id, search);
+    return search;
+  }
+
+  async updateSavedSearch(sessionId: string, searchId: string, update: Pick<SavedSearch, "name" | "query">): Promise<SavedSearch> {
+    const search = this.savedSearches.get(searchId);
+    if (!search || search.sessionId !== sessionId) {
+      throw new Error("Saved search not found");
+    }
+    const updated = { ...search, ...update };
+    this.savedSearches.set(searchId, updated);
+    return updated;
+  }
+
+  async deleteSavedSearch(sessionId: string, searchId: string): Promise<void> {
+    const search = this.savedSearches.get(searchId);
+    if (!search || search.sessionId !== sessionId) {
+      throw new Error("Saved search not found");
+    }
+    this.savedSearches.delete(searchId);
+  }
+
+  async addVariableValue(sessionId: string, name: string, value: VariableValue): Promise<Variable> {
     // Find variable by name and session
     const variable = Array.from(this.variables.values())
       .find(v => v.sessionId === sessionId && v.name === name);
@@ -180,18 +1027,146 @@ export class MemStorage implements IStorage {
       throw new Error("Variable not found");
     }
     
-    // Add value if it doesn't already exist
-    const currentValues = variable.values || [];
-    if (!currentValues.includes(value)) {
-      const updated: Variable = {
-        ...variable,
-        values: [...currentValues, value],
-      };
-      this.variables.set(variable.id, updated);
-      return updated;
+    const updated: Variable = {
+      ...variable,
+      values: mergeVariableValues(variable.values || [], [value]),
+    };
+    this.variables.set(variable.id, updated);
+    return updated;
+  }
+
+  async importVariables(sessionId: string, variables: ImportedVariable[], mode: VariableImportMode): Promise<void> {
+    const existing = await this.getVariables(sessionId);
+    for (const variable of variables) {
+      const target = existing.find(v => v.name === variable.name);
+      if (target) {
+        this.variables.set(target.id, applyVariableImport(target, variable, mode));
+      } else {
+        await this.createVariable({ ...variable, sessionId });
+      }
+    }
+  }
+
+  async getPublishedPacks(sessionId: string): Promise<PublishedPack[]> {
+    return Array.from(this.publishedPacks.values())
+      .filter(pack => pack.sessionId === sessionId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getPublishedPack(packId: string): Promise<PublishedPack | null> {
+    return this.publishedPacks.get(packId) || null;
+  }
+
+  async getPublishedPackByToken(shareToken: string): Promise<PublishedPack | null> {
+    return Array.from(this.publishedPacks.values()).find(pack => pack.shareToken === shareToken) || null;
+  }
+
+  async createPublishedPack(insertPack: InsertPublishedPack): Promise<PublishedPack> {
+    const pack: PublishedPack = {
+      ...insertPack,
+      id: randomUUID(),
+      variableNames: insertPack.variableNames ?? [],
+      createdAt: new Date(),
+    };
+    this.publishedPacks.set(pack.id, pack);
+    return pack;
+  }
+
+  async updatePublishedPack(sessionId: string, packId: string, update: Pick<PublishedPack, "name" | "variableNames">): Promise<PublishedPack> {
+    const pack = this.publishedPacks.get(packId);
+    if (!pack || pack.sessionId !== sessionId) {
+      throw new Error("Variable pack not found");
+    }
+    const updated: PublishedPack = { ...pack, ...update };
+    this.publishedPacks.set(packId, updated);
+    return updated;
+  }
+
+  async deletePublishedPack(sessionId: string, packId: string): Promise<void> {
+    const pack = this.publishedPacks.get(packId);
+    if (!pack || pack.sessionId !== sessionId) {
+      throw new Error("Variable pack not found");
+    }
+    Array.from(this.packSubscriptions.values())
+      .filter(subscription => subscription.packId === packId)
+      .forEach(subscription => this.detachSubscription(subscription.id));
+    this.publishedPacks.delete(packId);
+  }
+
+  // Ends a subscription but keeps its copies, as ordinary variables
+  private detachSubscription(subscriptionId: string): void {
+    Array.from(this.variables.values())
+      .filter(variable => variable.subscriptionId === subscriptionId)
+      .forEach(variable => this.variables.set(variable.id, { ...variable, subscriptionId: null }));
+    this.packSubscriptions.delete(subscriptionId);
+  }
+
+  async getPackSubscriptions(sessionId: string): Promise<PackSubscription[]> {
+    return Array.from(this.packSubscriptions.values())
+      .filter(subscription => subscription.sessionId === sessionId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createPackSubscription(insertSubscription: InsertPackSubscription): Promise<PackSubscription> {
+    const existing = await this.getPackSubscriptions(insertSubscription.sessionId);
+    if (existing.some(subscription => subscription.packId === insertSubscription.packId)) {
+      throw new Error("Already subscribed to this pack");
+    }
+    const subscription: PackSubscription = {
+      ...insertSubscription,
+      id: randomUUID(),
+      namespace: insertSubscription.namespace ?? null,
+      contentHash: null,
+      syncedAt: null,
+      createdAt: new Date(),
+    };
+    this.packSubscriptions.set(subscription.id, subscription);
+    return subscription;
+  }
+
+  async deletePackSubscription(sessionId: string, subscriptionId: string): Promise<void> {
+    const subscription = this.packSubscriptions.get(subscriptionId);
+    if (!subscription || subscription.sessionId !== sessionId) {
+      throw new Error("Subscription not found");
+    }
+    Array.from(this.variables.values())
+      .filter(variable => variable.subscriptionId === subscriptionId)
+      .forEach(variable => this.variables.delete(variable.id));
+    this.packSubscriptions.delete(subscriptionId);
+  }
+
+  async syncPackSubscription(subscriptionId: string, variables: ImportedVariable[], contentHash: string): Promise<void> {
+    const subscription = this.packSubscriptions.get(subscriptionId);
+    if (!subscription) {
+      throw new Error("Subscription not found");
     }
     
-    return variable;
+    const existing = await this.getVariables(subscription.sessionId);
+    const names = new Set(variables.map(variable => variable.name));
+    existing
+      .filter(variable => variable.subscriptionId === subscriptionId && !names.has(variable.name))
+      .forEach(variable => this.variables.delete(variable.id));
+    for (const variable of variables) {
+      const target = existing.find(v => v.name === variable.name);
+      if (!target) {
+        const created = await this.createVariable({ ...variable, sessionId: subscription.sessionId });
+        this.variables.set(created.id, { ...created, subscriptionId });
+      } else if (target.subscriptionId === subscriptionId) {
+        this.variables.set(target.id, applyVariableImport(target, variable, "replace"));
+      }
+    }
+    this.packSubscriptions.set(subscriptionId, { ...subscription, contentHash, syncedAt: new Date() });
+  }
+
+  async advanceVariableRotation(sessionId: string, name: string, steps: number): Promise<number> {
+    const variable = Array.from(this.variables.values())
+      .find(v => v.sessionId === sessionId && v.name === name);
+    if (!variable) {
+      throw new Error("Variable not found");
+    }
+    
+    this.variables.set(variable.id, { ...variable, rotationIndex: variable.rotationIndex + steps });
+    return variable.rotationIndex;
   }
 }
 
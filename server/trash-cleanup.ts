@@ -0,0 +1,24 @@
+import type { IStorage } from "./storage";
+import { log } from "./vite";
+import { startPeriodicJob } from "./periodic-job";
+
+const DAY = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL = 60 * 60 * 1000; // Hourly
+
+// How long deleted notes stay in the trash; set TRASH_RETENTION_DAYS to change it
+export const TRASH_RETENTION_DAYS = Math.max(1, parseInt(process.env.TRASH_RETENTION_DAYS || "30", 10) || 30);
+
+export async function purgeExpiredTrash(storage: IStorage, now = Date.now()): Promise<number> {
+  return await storage.purgeTrash(new Date(now - TRASH_RETENTION_DAYS * DAY));
+}
+
+// Hourly deletes notes that have been in the trash longer than TRASH_RETENTION_DAYS, along with
+// their revisions and attachments
+export function startTrashCleanup(storage: IStorage, interval = CLEANUP_INTERVAL): () => void {
+  return startPeriodicJob("Trash cleanup", interval, async () => {
+    const purged = await purgeExpiredTrash(storage);
+    if (purged > 0) {
+      log(`purged ${purged} notes from the trash`, "cleanup");
+    }
+  });
+}
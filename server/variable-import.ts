@@ -0,0 +1,295 @@
+import { z } from "zod";
+import { parse as parseYaml } from "yaml";
+import {
+  VARIABLE_PACK_FORMAT,
+  VARIABLE_PACK_VERSION,
+  variableSelectionPolicies,
+  variableValueSchema,
+  type ImportedVariable,
+  type NoteImportIssue,
+  type Variable,
+  type VariableImportFormat,
+  type VariableImportMode,
+  type VariableImportPreview,
+  type VariableValue,
+} from "@shared/schema";
+import { applyVariableImport, findVariableValue, mergeVariableValues } from "@shared/variables";
+import { parseCsv } from "./csv";
+import { getVariableDataError } from "./computed-variables";
+import type { IStorage } from "./storage";
+import { namespacedName } from "./variable-packs";
+
+// Reads variables from CSV (a name column plus any number of value columns), JSON, YAML or
+// name=value lines, then works out what importing them would change before anything is written.
+// In every format a value can be written as "John Doe|JD|Johnny" to give it aliases; JSON and
+// YAML can also give whole value objects with a description, attributes and archived flag.
+
+// The whole file is unusable, e.g. invalid JSON or a CSV without a name column
+export class VariableImportError extends Error {}
+
+export interface ParsedVariableImport {
+  format: VariableImportFormat;
+  variables: ImportedVariable[];
+  errors: NoteImportIssue[];
+}
+
+const NAME_COLUMN = /^(name|variable)$/i;
+const TEXT_LINE_PATTERN = /^\/?([\w-]+)\s*[:=,]\s*(.+)$/; // As the old importer took them: name=value, name:value, name,value
+
+const fileVariableSchema = z.object({
+  name: z.string().trim().min(1, "name is required"),
+  values: z.array(z.unknown()).default([]),
+  defaultValue: z.string().nullable().optional(),
+  selectionPolicy: z.enum(variableSelectionPolicies).optional(),
+  expression: z.string().nullable().optional(),
+});
+
+export function detectVariableImportFormat(fileName: string, text: string): VariableImportFormat {
+  const extension = fileName.toLowerCase().split(".").pop();
+  if (extension === "json") return "json";
+  if (extension === "yaml" || extension === "yml") return "yaml";
+  if (extension === "csv" || extension === "tsv") return "csv";
+  if (extension === "txt") return "text";
+
+  // Pasted text has no file name to go by
+  if (/^\s*[[{]/.test(text)) return "json";
+  const firstLine = text.trimStart().split(/\r?\n/, 1)[0];
+  if (/^(name|variable)\s*[,;\t]/i.test(firstLine)) return "csv";
+  if (/^[\w-]+:\s*$/m.test(text) || /^\s*-\s/m.test(text)) return "yaml";
+  return "text";
+}
+
+// "John Doe|JD|Johnny" is John Doe with two aliases
+function parseValueCell(cell: string): unknown {
+  const [value, ...aliases] = cell.split("|").map(part => part.trim());
+  return { value, aliases: aliases.filter(Boolean) };
+}
+
+function issueMessage(error: z.ZodError, subject: string): string {
+  return error.errors.map(issue => `${issue.path.join(".") || subject}: ${issue.message}`).join("; ");
+}
+
+class VariableCollector {
+  readonly variables: ImportedVariable[] = [];
+  readonly errors: NoteImportIssue[] = [];
+
+  // Reports the name or values when they can't be used; repeated names are combined, as they would be on import
+  add(location: string, variable: Omit<ImportedVariable, "values">, values: Array<{ location: string; value: unknown }>): void {
+    const dataError = getVariableDataError(variable);
+    if (dataError) {
+      this.errors.push({ location, message: dataError });
+      return;
+    }
+
+    const parsed: VariableValue[] = [];
+    values.forEach(entry => {
+      const result = variableValueSchema.safeParse(entry.value);
+      if (result.success) {
+        parsed.push(result.data);
+      } else {
+        this.errors.push({ location: entry.location, message: issueMessage(result.error, "value") });
+      }
+    });
+
+    // A variable whose values were all unreadable is left out rather than imported empty
+    if (values.length > 0 && parsed.length === 0) return;
+
+    const earlier = this.variables.find(other => other.name === variable.name);
+    if (earlier) {
+      earlier.values = mergeVariableValues(earlier.values, parsed);
+    } else {
+      this.variables.push({ ...variable, values: mergeVariableValues([], parsed) });
+    }
+  }
+}
+
+function parseCsvImport(text: string, collector: VariableCollector): void {
+  const [{ cells: header } = { cells: [] }, ...rows] = parseCsv(text);
+  const nameColumn = header.findIndex(column => NAME_COLUMN.test(column.trim()));
+  if (nameColumn === -1) {
+    throw new VariableImportError('The CSV needs a header row with a "name" column');
+  }
+
+  rows.forEach(({ line, cells }) => {
+    const location = `line ${line}`;
+    const name = (cells[nameColumn] ?? "").trim();
+    if (!name) {
+      collector.errors.push({ location, message: "name is missing" });
+      return;
+    }
+    const values = cells
+      .map((cell, column) => ({ cell: cell.trim(), column }))
+      .filter(({ cell, column }) => column !== nameColumn && cell)
+      .map(({ cell, column }) => ({ location: `${location}, column ${column + 1}`, value: parseValueCell(cell) }));
+    collector.add(location, { name }, values);
+  });
+}
+
+// A list of variables, a variable pack's { variables: [...] }, or an object of names to values
+function structuredEntries(raw: unknown): Array<{ location: string; item: unknown }> {
+  const list = Array.isArray(raw)
+    ? raw
+    : raw && typeof raw === "object" && Array.isArray((raw as { variables?: unknown }).variables)
+      ? (raw as { variables: unknown[] }).variables
+      : null;
+  if (list) {
+    return list.map((item, index) => ({ location: `variable ${index + 1}`, item }));
+  }
+
+  if (raw && typeof raw === "object") {
+    return Object.entries(raw).map(([name, entry]) => ({
+      location: `variable "${name}"`,
+      item: Array.isArray(entry)
+        ? { name, values: entry }
+        : entry && typeof entry === "object"
+          ? { ...entry, name }
+          : { name, values: entry === null || entry === undefined ? [] : [String(entry)] },
+    }));
+  }
+  throw new VariableImportError("Expected a list of variables or an object of variable names and their values");
+}
+
+function parseStructuredImport(raw: unknown, collector: VariableCollector): void {
+  // Variable packs from a newer version may mean something this one would misread
+  const pack = raw as { format?: unknown; version?: unknown } | null;
+  if (pack && pack.format === VARIABLE_PACK_FORMAT && typeof pack.version === "number" && pack.version > VARIABLE_PACK_VERSION) {
+    throw new VariableImportError(`This variable pack is version ${pack.version}; only up to version ${VARIABLE_PACK_VERSION} can be imported`);
+  }
+  structuredEntries(raw).forEach(({ location, item }) => {
+    const result = fileVariableSchema.safeParse(item);
+    if (!result.success) {
+      collector.errors.push({ location, message: issueMessage(result.error, "variable") });
+      return;
+    }
+    const { values, ...variable } = result.data;
+    collector.add(location, variable, values.map((value, index) => ({
+      location: `${location}, value ${index + 1}`,
+      value: typeof value === "string" ? parseValueCell(value) : value,
+    })));
+  });
+}
+
+function parseTextImport(text: string, collector: VariableCollector): void {
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith("#")) return;
+    const location = `line ${index + 1}`;
+    const match = line.trim().match(TEXT_LINE_PATTERN);
+    if (!match) {
+      collector.errors.push({ location, message: "Expected name=value" });
+      return;
+    }
+    collector.add(location, { name: match[1] }, [{ location, value: parseValueCell(match[2]) }]);
+  });
+}
+
+// A namespace imports /user as /acme.user, so a shared pack can't collide with the session's own variables
+// Variables already read from JSON or YAML, e.g. the variables section of a starter template
+export function parseVariableData(raw: unknown): Pick<ParsedVariableImport, "variables" | "errors"> {
+  const collector = new VariableCollector();
+  parseStructuredImport(raw, collector);
+  return { variables: collector.variables, errors: collector.errors };
+}
+
+export function parseVariableImport(text: string, format: VariableImportFormat, namespace?: string): ParsedVariableImport {
+  const collector = new VariableCollector();
+  switch (format) {
+    case "csv":
+      parseCsvImport(text, collector);
+      break;
+    case "json": {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(text);
+      } catch (error) {
+        throw new VariableImportError(`Invalid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+      parseStructuredImport(raw, collector);
+      break;
+    }
+    case "yaml": {
+      let raw: unknown;
+      try {
+        raw = parseYaml(text);
+      } catch (error) {
+        throw new VariableImportError(`Invalid YAML: ${error instanceof Error ? error.message : error}`);
+      }
+      parseStructuredImport(raw, collector);
+      break;
+    }
+    case "text":
+      parseTextImport(text, collector);
+      break;
+  }
+  const variables = collector.variables.map(variable => ({ ...variable, name: namespacedName(namespace, variable.name) }));
+  return { format, variables, errors: collector.errors };
+}
+
+// Values are compared by their text; a value that stays but gets other details is "changed"
+function diffValues(before: VariableValue[], after: VariableValue[]) {
+  return {
+    addedValues: after.filter(entry => !findVariableValue({ values: before }, entry.value)).map(entry => entry.value),
+    removedValues: before.filter(entry => !findVariableValue({ values: after }, entry.value)).map(entry => entry.value),
+    changedValues: after.filter(entry => {
+      const earlier = findVariableValue({ values: before }, entry.value);
+      return earlier && JSON.stringify(earlier) !== JSON.stringify(entry);
+    }).map(entry => entry.value),
+  };
+}
+
+// Compares the parsed variables with the session's and returns the preview plus the variables
+// that importing would create or change
+export async function planVariableImport(
+  storage: IStorage,
+  sessionId: string,
+  parsed: ParsedVariableImport,
+  mode: VariableImportMode,
+): Promise<{ preview: VariableImportPreview; data: ImportedVariable[] }> {
+  const existingVariables = await storage.getVariables(sessionId);
+
+  const data: ImportedVariable[] = [];
+  const errors = [...parsed.errors];
+  const previewVariables = parsed.variables.flatMap(variable => {
+    const target = existingVariables.find(v => v.name === variable.name);
+    // Subscribed variables are overwritten by their pack, so importing into them would be lost
+    if (target?.subscriptionId) {
+      errors.push({ location: `/${variable.name}`, message: "comes from a subscribed pack and can't be changed; import it under a namespace instead" });
+      return [];
+    }
+    if (!target) {
+      data.push(variable);
+      return { name: variable.name, status: "new" as const, addedValues: variable.values.map(entry => entry.value), removedValues: [], changedValues: [] };
+    }
+
+    const updated: Variable = applyVariableImport(target, variable, mode);
+    const diff = diffValues(target.values || [], updated.values);
+    const settingsChanged = updated.defaultValue !== target.defaultValue
+      || updated.selectionPolicy !== target.selectionPolicy
+      || updated.expression !== target.expression;
+    const changed = settingsChanged || diff.addedValues.length + diff.removedValues.length + diff.changedValues.length > 0;
+    if (changed) data.push(variable);
+
+    // Merging never overwrites settings; the preview just says where they differ
+    const differences = mode === "merge" ? [
+      variable.expression !== undefined && (variable.expression ?? null) !== target.expression && "expression",
+      variable.selectionPolicy && variable.selectionPolicy !== target.selectionPolicy && "selection policy",
+      variable.defaultValue && variable.defaultValue !== target.defaultValue && "default value",
+    ].filter(Boolean) : [];
+    return {
+      name: variable.name,
+      status: changed ? "update" as const : "unchanged" as const,
+      ...diff,
+      ...(differences.length > 0 && { conflict: `Different ${differences.join(", ")}; yours is kept` }),
+    };
+  });
+
+  return {
+    preview: {
+      format: parsed.format,
+      mode,
+      variables: previewVariables,
+      errors,
+      imported: null,
+    },
+    data,
+  };
+}
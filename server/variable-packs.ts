@@ -0,0 +1,58 @@
+import { createHash } from "crypto";
+import { nanoid } from "nanoid";
+import {
+  VARIABLE_PACK_FORMAT,
+  VARIABLE_PACK_VERSION,
+  type ImportedVariable,
+  type PublishedPack,
+  type Variable,
+  type VariablePack,
+} from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Variable packs: the versioned file GET /api/variables/export writes, and the same thing
+// published by link for other sessions to subscribe to. Subscribed variables are copied into the
+// subscriber's session and re-copied whenever the pack has changed since.
+
+export function generateShareToken(): string {
+  return nanoid(24);
+}
+
+export function buildVariablePack(name: string, variables: Variable[]): VariablePack {
+  return {
+    format: VARIABLE_PACK_FORMAT,
+    version: VARIABLE_PACK_VERSION,
+    name,
+    exportedAt: new Date().toISOString(),
+    variables: variables.map(({ name, values, defaultValue, selectionPolicy, expression }) =>
+      ({ name, values, defaultValue, selectionPolicy, expression })),
+  };
+}
+
+// A published pack as it stands, built from its owner's variables. Variables the owner has since
+// deleted or renamed just drop out of it.
+export async function readPublishedPack(storage: IStorage, pack: PublishedPack): Promise<VariablePack> {
+  const variables = (await storage.getVariables(pack.sessionId))
+    .filter(variable => pack.variableNames.includes(variable.name) && !variable.subscriptionId);
+  return buildVariablePack(pack.name, variables);
+}
+
+export function namespacedName(namespace: string | null | undefined, name: string): string {
+  return namespace ? `${namespace}.${name}` : name;
+}
+
+// Copies every subscription's pack into the session where it has changed since the last copy
+export async function syncPackSubscriptions(storage: IStorage, sessionId: string): Promise<void> {
+  for (const subscription of await storage.getPackSubscriptions(sessionId)) {
+    const pack = await storage.getPublishedPack(subscription.packId);
+    if (!pack) continue;
+
+    const { variables } = await readPublishedPack(storage, pack);
+    const contentHash = createHash("sha256").update(JSON.stringify(variables)).digest("hex");
+    if (contentHash === subscription.contentHash) continue;
+
+    const copies: ImportedVariable[] = variables.map(variable =>
+      ({ ...variable, name: namespacedName(subscription.namespace, variable.name) }));
+    await storage.syncPackSubscription(subscription.id, copies, contentHash);
+  }
+}
@@ -0,0 +1,13 @@
+// Variables every session has without defining them; their values are computed when a note is saved
+export const BUILTIN_VARIABLES = [
+  { name: "today", description: "Today's date, e.g. 2026-10-19" },
+  { name: "now", description: "The current time, e.g. 14:30" },
+  { name: "week", description: "The ISO week, e.g. 2026-W43" },
+  { name: "counter", description: "A number that goes up by one for every use in this session" },
+] as const;
+
+export type BuiltinVariableName = typeof BUILTIN_VARIABLES[number]["name"];
+
+export function isBuiltinVariable(name: string): name is BuiltinVariableName {
+  return BUILTIN_VARIABLES.some(variable => variable.name === name);
+}
@@ -0,0 +1,135 @@
+import type { DisplayPreferences } from "./schema";
+
+// Time-zone aware formatting with Intl, so the server's exports and the browser's timeline show
+// the same wall-clock times for whatever zone, locale and clock the session has chosen.
+
+export type ResolvedDisplayPreferences = {
+  [Key in keyof DisplayPreferences]-?: NonNullable<DisplayPreferences[Key]>;
+};
+
+export type TimestampStyle = "time" | "timeWithSeconds" | "date" | "longDate" | "shortDateTime" | "dateTime" | "dateTimeWithSeconds";
+
+const STYLE_OPTIONS: Record<TimestampStyle, Intl.DateTimeFormatOptions> = {
+  time: { hour: "2-digit", minute: "2-digit" },
+  timeWithSeconds: { hour: "2-digit", minute: "2-digit", second: "2-digit" },
+  date: { year: "numeric", month: "short", day: "numeric" },
+  longDate: { year: "numeric", month: "long", day: "numeric" },
+  shortDateTime: { month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" },
+  dateTime: { year: "numeric", month: "long", day: "numeric", hour: "numeric", minute: "2-digit" },
+  dateTimeWithSeconds: { year: "numeric", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit", second: "2-digit" },
+};
+
+// Building a DateTimeFormat is slow compared to using one, and the timeline formats thousands of times
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(locale: string, options: Intl.DateTimeFormatOptions): Intl.DateTimeFormat {
+  const key = `${locale}|${JSON.stringify(options)}`;
+  let formatter = formatters.get(key);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat(locale, options);
+    formatters.set(key, formatter);
+  }
+  return formatter;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidLocale(locale: string): boolean {
+  try {
+    return Intl.DateTimeFormat.supportedLocalesOf([locale]).length > 0;
+  } catch {
+    return false;
+  }
+}
+
+// What this machine would use on its own: the browser's settings on the client, the server's on the server
+export function getDevicePreferences(): ResolvedDisplayPreferences {
+  const options = new Intl.DateTimeFormat(undefined, { hour: "numeric" }).resolvedOptions();
+  return {
+    timeZone: options.timeZone,
+    locale: options.locale,
+    hourCycle: options.hourCycle === "h11" || options.hourCycle === "h12" ? "12" : "24",
+  };
+}
+
+// Unset preferences fall back to the device's own, one field at a time
+export function resolveDisplayPreferences(
+  preferences: DisplayPreferences | null | undefined,
+  fallback: ResolvedDisplayPreferences = getDevicePreferences(),
+): ResolvedDisplayPreferences {
+  return {
+    timeZone: preferences?.timeZone || fallback.timeZone,
+    locale: preferences?.locale || fallback.locale,
+    hourCycle: preferences?.hourCycle || fallback.hourCycle,
+  };
+}
+
+export function formatTimestamp(date: Date | string, preferences: ResolvedDisplayPreferences, style: TimestampStyle): string {
+  const options: Intl.DateTimeFormatOptions = { ...STYLE_OPTIONS[style], timeZone: preferences.timeZone };
+  if (options.hour) options.hourCycle = preferences.hourCycle === "12" ? "h12" : "h23";
+  return getFormatter(preferences.locale, options).format(new Date(date));
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  const parts = getFormatter("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+  }).formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => parseInt(parts.find(p => p.type === type)?.value ?? "0", 10);
+  return { year: part("year"), month: part("month"), day: part("day"), hour: part("hour"), minute: part("minute"), second: part("second") };
+}
+
+function offsetAt(date: Date, timeZone: string): number {
+  const wall = wallClock(date, timeZone);
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second);
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// The calendar day `date` falls on in `timeZone`, as yyyy-MM-dd; used to group the timeline by day
+export function dayKey(date: Date | string, timeZone: string): string {
+  const wall = wallClock(new Date(date), timeZone);
+  return `${wall.year}-${String(wall.month).padStart(2, "0")}-${String(wall.day).padStart(2, "0")}`;
+}
+
+// A day key from dayKey(), formatted for display; it's a calendar day, so no zone conversion applies
+export function formatDayKey(key: string, preferences: ResolvedDisplayPreferences, style: "date" | "longDate" = "longDate"): string {
+  return formatTimestamp(`${key}T12:00:00Z`, { ...preferences, timeZone: "UTC" }, style);
+}
+
+// A Date whose local fields read as the wall-clock time in `timeZone`, for date-fns arithmetic and
+// <input type="datetime-local"> values. Convert back with fromZonedTime.
+export function toZonedTime(date: Date | string, timeZone: string): Date {
+  const instant = new Date(date);
+  const wall = wallClock(instant, timeZone);
+  return new Date(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second, instant.getMilliseconds());
+}
+
+// The instant at which the wall clock in `timeZone` shows the local fields of `wall`
+export function fromZonedTime(wall: Date, timeZone: string): Date {
+  const asUtc = Date.UTC(wall.getFullYear(), wall.getMonth(), wall.getDate(), wall.getHours(), wall.getMinutes(), wall.getSeconds(), wall.getMilliseconds());
+  // The offset can differ either side of a DST change, so check it at the first guess
+  const guess = asUtc - offsetAt(new Date(asUtc), timeZone);
+  return new Date(asUtc - offsetAt(new Date(guess), timeZone));
+}
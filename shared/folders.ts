@@ -0,0 +1,78 @@
+// Folders are stored as "/"-separated paths, e.g. "Clients/Acme/Standups"
+export const FOLDER_SEPARATOR = "/";
+
+export interface FolderNode {
+  path: string;
+  name: string;
+  children: FolderNode[];
+}
+
+// Trims each segment and drops empty ones, so " Clients//Acme/ " becomes "Clients/Acme"
+export function normalizeFolderPath(path: string): string {
+  return path
+    .split(FOLDER_SEPARATOR)
+    .map(segment => segment.trim())
+    .filter(Boolean)
+    .join(FOLDER_SEPARATOR);
+}
+
+export function folderName(path: string): string {
+  const index = path.lastIndexOf(FOLDER_SEPARATOR);
+  return index === -1 ? path : path.slice(index + 1);
+}
+
+export function parentFolderPath(path: string): string | null {
+  const index = path.lastIndexOf(FOLDER_SEPARATOR);
+  return index === -1 ? null : path.slice(0, index);
+}
+
+// "Clients/Acme/Standups" -> ["Clients", "Clients/Acme"]
+export function ancestorFolderPaths(path: string): string[] {
+  const segments = path.split(FOLDER_SEPARATOR);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join(FOLDER_SEPARATOR));
+}
+
+export function isInFolder(path: string, folder: string, includeDescendants = false): boolean {
+  return path === folder || (includeDescendants && path.startsWith(folder + FOLDER_SEPARATOR));
+}
+
+// Swaps the `from` prefix of a path for `to`; paths outside `from` are returned unchanged
+export function replaceFolderPrefix(path: string, from: string, to: string): string {
+  return isInFolder(path, from, true) ? to + path.slice(from.length) : path;
+}
+
+// Builds a sorted tree from folder paths, filling in any missing ancestors. General stays first.
+export function buildFolderTree(paths: string[]): FolderNode[] {
+  const nodes = new Map<string, FolderNode>();
+  const roots: FolderNode[] = [];
+
+  const ensureNode = (path: string): FolderNode => {
+    const existing = nodes.get(path);
+    if (existing) return existing;
+
+    const node: FolderNode = { path, name: folderName(path), children: [] };
+    nodes.set(path, node);
+
+    const parent = parentFolderPath(path);
+    if (parent === null) {
+      roots.push(node);
+    } else {
+      ensureNode(parent).children.push(node);
+    }
+    return node;
+  };
+
+  paths.map(normalizeFolderPath).filter(Boolean).forEach(ensureNode);
+
+  const sortNodes = (list: FolderNode[]) => {
+    list.sort((a, b) => {
+      if (a.path === "General") return -1;
+      if (b.path === "General") return 1;
+      return a.name.localeCompare(b.name);
+    });
+    list.forEach(node => sortNodes(node.children));
+  };
+  sortNodes(roots);
+
+  return roots;
+}
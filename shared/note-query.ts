@@ -0,0 +1,137 @@
+import type { Note } from "./schema";
+import { fromZonedTime } from "./datetime";
+import { isInFolder, normalizeFolderPath } from "./folders";
+import { isInTag } from "./tags";
+
+// Timeline filters such as
+//   tag:bug -tag:done folder:Acme after:2026-09-01 has:attachment var:user="Jane Smith" "exact phrase"
+// Every term has to match, and a "-" in front of one leaves out the notes it matches instead.
+//   tag:name          tagged with name or one of its subtags
+//   folder:path       in the folder or one of its subfolders
+//   after:yyyy-MM-dd  happened on or after that day; before: is before it. Days are in the given zone.
+//   has:attachment, has:tag, has:variable
+//   var:name          mentions /name; var:name=value only where it stood for that value
+//   word, "a phrase"  text the note contains, ignoring case
+// Storage runs the parsed query; MemStorage with matchesNoteQuery, DbStorage as SQL.
+
+export const NOTE_QUERY_HAS = ["attachment", "tag", "variable"] as const;
+export type NoteQueryHas = typeof NOTE_QUERY_HAS[number];
+
+export type NoteQueryTerm = { negated: boolean } & (
+  | { type: "tag"; tag: string }
+  | { type: "folder"; folder: string }
+  | { type: "after" | "before"; date: Date }
+  | { type: "has"; has: NoteQueryHas }
+  | { type: "var"; variable: string; value?: string }
+  | { type: "text"; text: string }
+);
+
+export interface NoteQuery {
+  terms: NoteQueryTerm[];
+}
+
+// The query can't be run as written, e.g. after:yesterday; the message says which term
+export class NoteQueryError extends Error {}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const KEYED_PATTERN = /^(tag|folder|after|before|has|var):(.*)$/;
+
+// Splits on whitespace outside double quotes, so var:user="Jane Smith" stays one word
+function splitQuery(input: string): string[] {
+  const words: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (const char of input) {
+    if (char === '"') quoted = !quoted;
+    if (/\s/.test(char) && !quoted) {
+      if (current) words.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  if (current) words.push(current);
+  return words;
+}
+
+const unquote = (value: string) => value.replace(/"/g, "");
+
+function parseDay(key: string, value: string, timeZone: string): Date {
+  const match = value.match(DATE_PATTERN);
+  const wall = match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : null;
+  if (!wall || wall.getMonth() !== Number(match![2]) - 1 || wall.getDate() !== Number(match![3])) {
+    throw new NoteQueryError(`${key}:${value} isn't a date; use yyyy-MM-dd, e.g. ${key}:2026-09-01`);
+  }
+  return fromZonedTime(wall, timeZone);
+}
+
+function parseTerm(word: string, timeZone: string): NoteQueryTerm {
+  const negated = word.length > 1 && word.startsWith("-");
+  const body = negated ? word.slice(1) : word;
+
+  const keyed = body.match(KEYED_PATTERN);
+  if (!keyed) {
+    return { negated, type: "text", text: unquote(body) };
+  }
+
+  const key = keyed[1];
+  const value = unquote(keyed[2]).trim();
+  if (!value) {
+    throw new NoteQueryError(`${key}: needs a value`);
+  }
+
+  switch (key) {
+    case "tag":
+      return { negated, type: "tag", tag: value.replace(/^#/, "") };
+    case "folder":
+      return { negated, type: "folder", folder: normalizeFolderPath(value) };
+    case "after":
+    case "before":
+      return { negated, type: key, date: parseDay(key, value, timeZone) };
+    case "has":
+      if (!(NOTE_QUERY_HAS as readonly string[]).includes(value)) {
+        throw new NoteQueryError(`has:${value} isn't supported; use ${NOTE_QUERY_HAS.map(has => `has:${has}`).join(", ")}`);
+      }
+      return { negated, type: "has", has: value as NoteQueryHas };
+    default: {
+      const separator = value.indexOf("=");
+      if (separator === -1) {
+        return { negated, type: "var", variable: value.replace(/^\//, "") };
+      }
+      return { negated, type: "var", variable: value.slice(0, separator).replace(/^\//, ""), value: value.slice(separator + 1) };
+    }
+  }
+}
+
+// Throws NoteQueryError for terms that can't be run
+export function parseNoteQuery(input: string, timeZone = "UTC"): NoteQuery {
+  return { terms: splitQuery(input).map(word => parseTerm(word, timeZone)) };
+}
+
+function matchesTerm(note: Note, term: NoteQueryTerm, hasAttachments: boolean): boolean {
+  const tokens = note.tokens ?? [];
+  switch (term.type) {
+    case "tag":
+      return (note.tags ?? []).some(tag => isInTag(tag, term.tag, true));
+    case "folder":
+      return isInFolder(note.folder || "General", term.folder, true);
+    case "after":
+      return new Date(note.occurredAt) >= term.date;
+    case "before":
+      return new Date(note.occurredAt) < term.date;
+    case "has":
+      if (term.has === "attachment") return hasAttachments;
+      if (term.has === "tag") return (note.tags ?? []).length > 0;
+      return tokens.some(token => token.type === "variable" || token.type === "value");
+    case "var":
+      return tokens.some(token => term.value === undefined
+        ? (token.type === "variable" || token.type === "value") && token.variable === term.variable
+        : token.type === "value" && token.variable === term.variable && token.value.toLowerCase() === term.value.toLowerCase());
+    case "text":
+      return note.content.toLowerCase().includes(term.text.toLowerCase());
+  }
+}
+
+export function matchesNoteQuery(note: Note, query: NoteQuery, hasAttachments = false): boolean {
+  return query.terms.every(term => matchesTerm(note, term, hasAttachments) !== term.negated);
+}
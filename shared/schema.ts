@@ -1,13 +1,60 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, timestamp, json, unique } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, timestamp, json, unique, index, integer } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { isValidLocale, isValidTimeZone } from "./datetime";
+import { TAG_COLORS, isValidTagName, type TagColor } from "./tags";
+
+// How a bare /name reference picks one of the variable's values when a note is saved
+export const variableSelectionPolicies = ["default", "rotate", "random"] as const;
+export type VariableSelectionPolicy = typeof variableSelectionPolicies[number];
+
+// One of a variable's values. Aliases are other names it's found by in the autocomplete ("JD" for
+// "John Doe"); attributes are free-form facts about it like an email or role. Archived values stay
+// recognised in existing notes but aren't offered or picked any more.
+export interface VariableValue {
+  value: string;
+  aliases: string[];
+  description: string | null;
+  attributes: Record<string, string>;
+  archived: boolean;
+}
+
+// What a personal API token may do: read is any GET, write is any other request, export is /api/export
+export const apiTokenScopes = ["read", "write", "export"] as const;
+export type ApiTokenScope = typeof apiTokenScopes[number];
+
+// Where a resolved value came from: picked in the autocomplete, chosen by the variable's policy,
+// or computed from a built-in or expression variable
+export type VariableValueSource = "picked" | "computed" | VariableSelectionPolicy;
+
+// Structured form of a note's text; see shared/tokens.ts for parsing and rendering
+export type NoteToken =
+  | { type: "text"; text: string }
+  | { type: "variable"; variable: string } // A /name reference that hasn't been resolved
+  | { type: "value"; variable: string; value: string; source: VariableValueSource }
+  | { type: "tag"; tag: string }
+  | { type: "attachment"; kind: "image" | "file"; fileName: string };
+
+// Local accounts. An account's notes, variables and folders live under its own data session;
+// each device it signs in on gets a separate session that points back at it through userId.
+export const users = pgTable("users", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  sessionId: varchar("session_id").notNull().unique(), // The account's data session
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
 
 export const userSessions = pgTable("user_sessions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().unique(),
+  userId: varchar("user_id").references(() => users.id), // Null for anonymous sessions
   createdAt: timestamp("created_at").defaultNow().notNull(),
   lastActiveAt: timestamp("last_active_at").defaultNow().notNull(),
+  counter: integer("counter").notNull().default(0), // Last value handed out by the /counter variable
+  tokenIssuedAt: timestamp("token_issued_at"), // Null until a signed token was issued; see server/session-tokens.ts
+  preferences: json("preferences").$type<DisplayPreferences>().notNull().default({}),
 });
 
 export const notes = pgTable("notes", {
@@ -15,8 +62,88 @@ export const notes = pgTable("notes", {
   sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
   content: text("content").notNull(),
   originalContent: text("original_content").notNull(), // Content before variable substitution
+  tokens: json("tokens").$type<NoteToken[]>().default([]),
   tags: json("tags").$type<string[]>().default([]),
   folder: text("folder").default("General"),
+  occurredAt: timestamp("occurred_at").defaultNow().notNull(), // When it happened; the timeline is ordered by this
+  timeZone: text("time_zone"), // The author's IANA zone when it was written; null for notes from before zones were kept
+  createdAt: timestamp("created_at").defaultNow().notNull(), // When it was saved
+  updatedAt: timestamp("updated_at"), // Set when the note is edited
+  deletedAt: timestamp("deleted_at"), // Set while the note is in the trash; see server/trash-cleanup.ts
+  pinnedAt: timestamp("pinned_at"), // Set while the note is pinned above the timeline
+}, (table) => ({
+  // Full-text search over the substituted note content
+  contentSearchIdx: index("notes_content_search_idx").using("gin", sql`to_tsvector('english', ${table.content})`),
+}));
+
+// Snapshot of a note taken before each edit, so any prior version can be restored
+export const noteRevisions = pgTable("note_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  content: text("content").notNull(),
+  originalContent: text("original_content").notNull(),
+  tokens: json("tokens").$type<NoteToken[]>().default([]),
+  tags: json("tags").$type<string[]>().default([]),
+  folder: text("folder").default("General"),
+  occurredAt: timestamp("occurred_at"), // Null on revisions saved before the note's time was kept
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// File metadata for note attachments; the bytes live in the blob store under storageKey
+export const attachments = pgTable("attachments", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  fileName: text("file_name").notNull(),
+  contentType: text("content_type").notNull(),
+  size: integer("size").notNull(),
+  storageKey: text("storage_key").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const folders = pgTable("folders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  name: text("name").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  // Unique constraint to prevent duplicate folder names per session
+  uniqueSessionFolder: unique().on(table.sessionId, table.name)
+}));
+
+// Details for a tag. Tags themselves live in notes.tags, so most have no row here until they're edited.
+export const tags = pgTable("tags", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  name: text("name").notNull(),
+  color: text("color").$type<TagColor>(), // Null for the colour derived from the name
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueSessionTag: unique().on(table.sessionId, table.name)
+}));
+
+// Index of the variables each note mentions, one row per value (or bare /name reference) with how
+// often it appears in the note. Storage rewrites a note's rows whenever its tokens change.
+export const noteMentions = pgTable("note_mentions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  noteId: varchar("note_id").notNull().references(() => notes.id, { onDelete: "cascade" }),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  variable: text("variable").notNull(),
+  value: text("value"), // Null for references saved without a value
+  count: integer("count").notNull().default(1),
+}, (table) => ({
+  sessionVariableIdx: index("note_mentions_session_variable_idx").on(table.sessionId, table.variable),
+  noteIdx: index("note_mentions_note_idx").on(table.noteId),
+}));
+
+// A named timeline filter shown in the sidebar; see shared/note-query.ts for the query syntax
+export const savedSearches = pgTable("saved_searches", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -24,30 +151,459 @@ export const variables = pgTable("variables", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
   name: text("name").notNull(),
-  values: json("values").$type<string[]>().notNull().default([]), // Array of values for each variable
+  values: json("values").$type<VariableValue[]>().notNull().default([]), // Array of values for each variable
+  defaultValue: text("default_value"), // Used by the "default" policy; falls back to the first value
+  selectionPolicy: text("selection_policy").$type<VariableSelectionPolicy>().notNull().default("default"),
+  rotationIndex: integer("rotation_index").notNull().default(0), // Next value for the "rotate" policy
+  expression: text("expression"), // When set, the value is computed from this instead of picked from values
+  // Set on copies of a subscribed pack's variables, which are read-only and kept in step with the pack.
+  // They become ordinary variables if the pack is unpublished.
+  subscriptionId: varchar("subscription_id").references(() => packSubscriptions.id, { onDelete: "set null" }),
 }, (table) => ({
   // Unique constraint to prevent duplicate variable names per session
   uniqueSessionVariable: unique().on(table.sessionId, table.name)
 }));
 
+// Variables a session shares by link. The pack is built from the owner's variables whenever it's
+// read, so subscribers get the owner's changes.
+export const publishedPacks = pgTable("published_variable_packs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  name: text("name").notNull(),
+  shareToken: text("share_token").notNull().unique(),
+  variableNames: json("variable_names").$type<string[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// A session's subscription to another session's published pack; the pack's variables are copied
+// into the session, under namespace if one is given (/acme.user)
+export const packSubscriptions = pgTable("pack_subscriptions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  packId: varchar("pack_id").notNull().references(() => publishedPacks.id, { onDelete: "cascade" }),
+  namespace: text("namespace"),
+  contentHash: text("content_hash"), // Of the pack as last copied, to tell when it has changed
+  syncedAt: timestamp("synced_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  uniqueSessionPack: unique().on(table.sessionId, table.packId),
+}));
+
+// Personal API tokens for scripts; only a hash of the token is stored, plus a prefix to recognise it by
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sessionId: varchar("session_id").notNull().references(() => userSessions.sessionId),
+  name: text("name").notNull(),
+  tokenHash: text("token_hash").notNull().unique(),
+  prefix: text("prefix").notNull(),
+  scopes: json("scopes").$type<ApiTokenScope[]>().notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  lastUsedAt: timestamp("last_used_at"),
+});
+
 export const insertUserSessionSchema = createInsertSchema(userSessions).omit({
   id: true,
   createdAt: true,
   lastActiveAt: true,
+  counter: true,
+  tokenIssuedAt: true,
+  preferences: true,
+});
+
+export const insertUserSchema = createInsertSchema(users).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const credentialsSchema = z.object({
+  username: z.string().trim().toLowerCase()
+    .min(3, "Username must be at least 3 characters")
+    .max(32, "Username must be at most 32 characters")
+    .regex(/^[a-z0-9_.-]+$/, "Username may only contain letters, numbers, dots, dashes and underscores"),
+  password: z.string()
+    .min(8, "Password must be at least 8 characters")
+    .max(256, "Password must be at most 256 characters"),
+  // Whether the anonymous session making the request should be merged into the account
+  claimSession: z.boolean().optional(),
+});
+
+export const claimSessionSchema = z.object({
+  sessionToken: z.string().min(1, "Session token is required"),
+});
+
+export const insertApiTokenSchema = createInsertSchema(apiTokens, {
+  scopes: z.array(z.enum(apiTokenScopes)),
+}).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true,
 });
 
-export const insertNoteSchema = createInsertSchema(notes).omit({
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1, "Token name is required").max(100, "Token name is too long"),
+  scopes: z.array(z.enum(apiTokenScopes)).min(1, "Pick at least one scope"),
+});
+
+export const noteTokenSchema: z.ZodType<NoteToken> = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("text"), text: z.string() }),
+  z.object({ type: z.literal("variable"), variable: z.string().min(1) }),
+  z.object({
+    type: z.literal("value"),
+    variable: z.string(),
+    value: z.string(),
+    source: z.enum(["picked", "computed", ...variableSelectionPolicies]),
+  }),
+  z.object({ type: z.literal("tag"), tag: z.string().min(1) }),
+  z.object({ type: z.literal("attachment"), kind: z.enum(["image", "file"]), fileName: z.string().min(1) }),
+]);
+
+export const insertNoteSchema = createInsertSchema(notes, {
+  tokens: z.array(noteTokenSchema).nullable().optional(),
+  // Backdated or scheduled notes; defaults to when the note is saved
+  occurredAt: z.coerce.date().optional(),
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable().optional(),
+}).omit({
   id: true,
   createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+  pinnedAt: true,
+});
+
+export const updateNoteSchema = insertNoteSchema.pick({
+  content: true,
+  originalContent: true,
+  tokens: true,
+  tags: true,
+  folder: true,
+  occurredAt: true,
+}).partial();
+
+// How dates and times are shown, for the timeline and exports alike. A null or missing field
+// means the device's own setting; see shared/datetime.ts.
+export const displayPreferencesSchema = z.object({
+  timeZone: z.string().refine(isValidTimeZone, "Unknown time zone").nullable(),
+  locale: z.string().refine(isValidLocale, "Unknown locale").nullable(),
+  hourCycle: z.enum(["12", "24"]).nullable(),
+}).partial();
+
+export const insertAttachmentSchema = createInsertSchema(attachments).omit({
+  id: true,
+  storageKey: true,
+  createdAt: true,
+});
+
+export const insertFolderSchema = createInsertSchema(folders).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const renameFolderSchema = z.object({
+  name: z.string().trim().min(1, "Folder name is required"),
+});
+
+export const moveNotesSchema = z.object({
+  noteIds: z.array(z.string()).min(1, "At least one note is required"),
+  folder: z.string().trim().min(1, "Folder name is required"),
 });
 
-export const insertVariableSchema = createInsertSchema(variables).omit({
+export const pinNoteSchema = z.object({
+  pinned: z.boolean(),
+});
+
+// Notes picked for a bulk action, e.g. moving to or restoring from the trash
+export const noteIdsSchema = z.object({
+  noteIds: z.array(z.string()).min(1, "At least one note is required"),
+});
+
+// Tags are written into the note as #tag, so they're limited to what a tag token can hold
+const tagNameSchema = z.string().trim()
+  .transform(tag => tag.replace(/^#/, ""))
+  .pipe(z.string().refine(isValidTagName, "Tags can only contain letters, numbers and underscores, with / between levels"));
+
+export const retagNotesSchema = z.object({
+  noteIds: z.array(z.string()).min(1, "At least one note is required"),
+  add: z.array(tagNameSchema).default([]),
+  remove: z.array(tagNameSchema).default([]),
+}).refine(({ add, remove }) => add.length > 0 || remove.length > 0, {
+  message: "At least one tag to add or remove is required",
+});
+
+export const updateTagSchema = z.object({
+  color: z.enum(TAG_COLORS).nullable().optional(),
+  description: z.string().trim().max(500).nullable().optional(),
+});
+
+export const renameTagSchema = z.object({
+  from: tagNameSchema,
+  to: tagNameSchema,
+});
+
+export const mergeTagsSchema = z.object({
+  tags: z.array(tagNameSchema).min(1, "At least one tag to merge is required"),
+  into: tagNameSchema,
+});
+
+export const insertSavedSearchSchema = createInsertSchema(savedSearches).omit({
   id: true,
+  createdAt: true,
 });
 
+export const savedSearchSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  query: z.string().trim().min(1, "Query is required"),
+});
+
+export const variableValueSchema: z.ZodType<VariableValue, z.ZodTypeDef, unknown> = z.union([
+  // Values used to be plain strings, and scripts and older clients may still send them that way
+  z.string().trim().min(1, "Value is required").transform(value => ({ value, aliases: [], description: null, attributes: {}, archived: false })),
+  z.object({
+    value: z.string().trim().min(1, "Value is required"),
+    aliases: z.array(z.string().trim().min(1)).default([]),
+    description: z.string().trim().nullable().default(null).transform(description => description || null),
+    attributes: z.record(z.string()).default({}),
+    archived: z.boolean().default(false),
+  }),
+]);
+
+export const insertVariableSchema = createInsertSchema(variables, {
+  values: z.array(variableValueSchema).optional(),
+  selectionPolicy: z.enum(variableSelectionPolicies).optional(),
+}).omit({
+  id: true,
+  rotationIndex: true,
+  subscriptionId: true,
+});
+
+// A variable stays in the session it was created in
+export const updateVariableSchema = insertVariableSchema.omit({ sessionId: true }).partial();
+
+// Namespaces prefix imported or subscribed variable names: acme gives /acme.user
+export const VARIABLE_NAMESPACE_PATTERN = /^[A-Za-z0-9_-]+$/;
+const variableNamespaceSchema = z.string().trim()
+  .regex(VARIABLE_NAMESPACE_PATTERN, "Namespaces can only have letters, digits, - and _");
+
+// The file GET /api/variables/export writes and shared pack links return. The version goes up
+// whenever a change would trip older importers up.
+export const VARIABLE_PACK_FORMAT = "notetimes-variable-pack";
+export const VARIABLE_PACK_VERSION = 1;
+export interface VariablePack {
+  format: typeof VARIABLE_PACK_FORMAT;
+  version: number;
+  name: string;
+  exportedAt: string;
+  variables: Array<Pick<Variable, "name" | "values" | "defaultValue" | "selectionPolicy" | "expression">>;
+}
+
+export const insertPublishedPackSchema = createInsertSchema(publishedPacks, {
+  variableNames: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertPackSubscriptionSchema = createInsertSchema(packSubscriptions).omit({
+  id: true,
+  contentHash: true,
+  syncedAt: true,
+  createdAt: true,
+});
+
+export const publishPackSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name is too long"),
+  variableNames: z.array(z.string()).min(1, "Pick at least one variable"),
+});
+
+// A share link or just its token
+export const subscribePackSchema = z.object({
+  link: z.string().trim().min(1, "Paste a pack link").transform(link => link.replace(/\/+$/, "").split("/").pop()!),
+  namespace: variableNamespaceSchema.optional(),
+});
+
+// File formats POST /api/import understands; see server/note-import.ts
+export const noteImportFormats = ["json", "markdown", "text", "csv"] as const;
+export type NoteImportFormat = typeof noteImportFormats[number];
+
+// Which CSV column holds each note field, by header name; only the content column is required
+export const csvColumnMappingSchema = z.object({
+  content: z.string().min(1, "Pick the column that holds the note text"),
+  occurredAt: z.string().optional(),
+  tags: z.string().optional(),
+  folder: z.string().optional(),
+});
+
+export const noteImportOptionsSchema = z.object({
+  format: z.enum(noteImportFormats).optional(), // Guessed from the file name when missing
+  mapping: csvColumnMappingSchema.optional(), // Guessed from the header row when missing
+  dryRun: z.boolean().default(true),
+  skipDuplicates: z.boolean().default(true),
+});
+
+// File formats POST /api/variables/import understands; see server/variable-import.ts
+export const variableImportFormats = ["csv", "json", "yaml", "text"] as const;
+export type VariableImportFormat = typeof variableImportFormats[number];
+
+// merge adds a file's values to variables that already exist and keeps their settings; replace
+// swaps their values, and any settings the file gives, for the file's. Other variables are left alone.
+export const variableImportModes = ["merge", "replace"] as const;
+export type VariableImportMode = typeof variableImportModes[number];
+
+export const variableImportOptionsSchema = z.object({
+  format: z.enum(variableImportFormats).optional(), // Guessed from the file name or contents when missing
+  mode: z.enum(variableImportModes).default("merge"),
+  namespace: variableNamespaceSchema.optional(),
+  dryRun: z.boolean().default(true),
+});
+
+export type InsertUser = z.infer<typeof insertUserSchema>;
+export type User = typeof users.$inferSelect;
+export type PublicUser = Omit<User, "passwordHash" | "sessionId">;
+export type Credentials = z.infer<typeof credentialsSchema>;
+export type InsertApiToken = z.infer<typeof insertApiTokenSchema>;
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type PublicApiToken = Omit<ApiToken, "tokenHash">;
 export type InsertUserSession = z.infer<typeof insertUserSessionSchema>;
 export type UserSession = typeof userSessions.$inferSelect;
+export type DisplayPreferences = z.infer<typeof displayPreferencesSchema>;
 export type InsertNote = z.infer<typeof insertNoteSchema>;
 export type Note = typeof notes.$inferSelect;
+export type UpdateNote = z.infer<typeof updateNoteSchema>;
+export type NoteRevision = typeof noteRevisions.$inferSelect;
+export type InsertAttachment = z.infer<typeof insertAttachmentSchema>;
+export type Attachment = typeof attachments.$inferSelect;
+export type InsertFolder = z.infer<typeof insertFolderSchema>;
+export type Folder = typeof folders.$inferSelect;
+export type NoteMention = typeof noteMentions.$inferSelect;
+export type Tag = typeof tags.$inferSelect;
+export type UpdateTag = z.infer<typeof updateTagSchema>;
+export type InsertSavedSearch = z.infer<typeof insertSavedSearchSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
 export type InsertVariable = z.infer<typeof insertVariableSchema>;
+export type UpdateVariable = z.infer<typeof updateVariableSchema>;
 export type Variable = typeof variables.$inferSelect;
+export type PublishedPack = typeof publishedPacks.$inferSelect;
+export type InsertPublishedPack = z.infer<typeof insertPublishedPackSchema>;
+export type PackSubscription = typeof packSubscriptions.$inferSelect;
+export type InsertPackSubscription = z.infer<typeof insertPackSubscriptionSchema>;
+// As GET /api/pack-subscriptions lists them; packName is null once the pack is unpublished
+export type PackSubscriptionSummary = PackSubscription & { packName: string | null };
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+export type NoteImportOptions = z.infer<typeof noteImportOptionsSchema>;
+export type VariableImportOptions = z.infer<typeof variableImportOptionsSchema>;
+
+// A note read from an import file, stored with its original timestamp
+export type ImportedNote = Pick<Note, "content" | "originalContent" | "tokens" | "tags" | "folder" | "occurredAt" | "timeZone" | "createdAt"> & Partial<Pick<Note, "pinnedAt">>;
+export type ImportedVariable = Pick<Variable, "name" | "values"> & Partial<Pick<Variable, "defaultValue" | "selectionPolicy" | "expression">>;
+
+// Everything an import adds to a session; variables are combined with existing ones by name
+export interface NoteImportData {
+  notes: ImportedNote[];
+  folders: string[];
+  variables: ImportedVariable[];
+}
+
+// One page of the notes timeline; pass nextCursor back as ?before= to get the following page
+export interface NotePage {
+  notes: Note[];
+  nextCursor: string | null;
+}
+
+// A tag as listed by /api/tags, with the number of notes tagged with it or one of its subtags
+export interface TagSummary {
+  name: string;
+  color: TagColor;
+  description: string | null;
+  count: number;
+}
+
+// Notes in the trash, most recently deleted first. Each is deleted for good retentionDays after
+// its deletedAt.
+export interface TrashContents {
+  notes: Note[];
+  retentionDays: number;
+}
+
+// A ranked full-text search hit; highlight offsets are relative to the snippet
+export interface NoteSearchResult {
+  note: Note;
+  rank: number;
+  snippet: string;
+  highlights: Array<{ start: number; end: number }>;
+}
+
+// Every note mentioning a variable, or one of its values, as listed by /api/variables/:name/mentions.
+// values counts the notes mentioning each of the variable's values, most mentioned first.
+export interface VariableMentions {
+  variable: string;
+  value: string | null;
+  values: Array<{ value: string | null; notes: number }>;
+  notes: Note[];
+}
+
+// The value a built-in or expression variable would insert right now, for autocomplete previews
+export interface ComputedVariablePreview {
+  name: string;
+  kind: "builtin" | "expression";
+  description: string;
+  value: string | null;
+  error?: string;
+}
+
+// Something in an import file that couldn't be read, e.g. "line 12" or "row 4" and why
+export interface NoteImportIssue {
+  location: string;
+  message: string;
+}
+
+// What POST /api/import found in a file and, unless it was a dry run, what it imported. Notes
+// that match an existing note (same text within the same minute) or an earlier one in the same
+// file are duplicates; variables are new, add values to an existing one, or add nothing.
+export interface NoteImportPreview {
+  format: NoteImportFormat;
+  columns?: string[]; // CSV header row, for picking the column mapping
+  mapping?: CsvColumnMapping; // The CSV mapping used, whether given or guessed
+  notes: Array<{
+    content: string;
+    occurredAt: string;
+    tags: string[];
+    folder: string;
+    duplicate: "existing" | "file" | null;
+  }>;
+  variables: Array<{
+    name: string;
+    status: "new" | "merge" | "unchanged";
+    addedValues: string[];
+    conflict?: string; // Settings that differ from the existing variable; the existing ones are kept
+  }>;
+  errors: NoteImportIssue[];
+  imported: { notes: number; variables: number } | null; // Null for a dry run
+}
+
+// What POST /api/variables/import found in a file and, unless it was a dry run, how many
+// variables it created or changed. Values are listed by their text; changedValues are ones whose
+// aliases, description, attributes or archived flag would change.
+export interface VariableImportPreview {
+  format: VariableImportFormat;
+  mode: VariableImportMode;
+  variables: Array<{
+    name: string;
+    status: "new" | "update" | "unchanged";
+    addedValues: string[];
+    removedValues: string[]; // Only ever set when replacing
+    changedValues: string[];
+    conflict?: string; // When merging, settings that differ from the existing variable's; those are kept
+  }>;
+  errors: NoteImportIssue[];
+  imported: { variables: number } | null; // Null for a dry run
+}
+
+// A starter template as GET /api/starter-templates lists it for the first-run picker. The
+// templates themselves are files the server's admin puts in its starter-templates directory.
+export interface StarterTemplateSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  variables: string[];
+  folders: string[];
+  notes: number;
+}
@@ -0,0 +1,93 @@
+import type { TagSummary } from "./schema";
+
+// Tags are written as #name in notes and nest with "/", e.g. #proj/alpha is alpha under proj
+export const TAG_SEPARATOR = "/";
+
+// Each level is a run of word characters, so "#proj/alpha" is one tag and "#proj/" is just #proj
+export const TAG_PATTERN = /#(\w+(?:\/\w+)*)/g;
+const TAG_NAME_PATTERN = /^\w+(?:\/\w+)*$/;
+
+export const TAG_COLORS = ["blue", "green", "yellow", "purple", "pink", "indigo", "red", "orange", "teal", "gray"] as const;
+export type TagColor = typeof TAG_COLORS[number];
+
+export interface TagSpan {
+  start: number;
+  end: number;
+  tag: string;
+}
+
+export function findTags(text: string): TagSpan[] {
+  return Array.from(text.matchAll(TAG_PATTERN), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+    tag: match[1],
+  }));
+}
+
+// Each tag once, in order of appearance
+export function extractTags(text: string): string[] {
+  return Array.from(new Set(findTags(text).map(span => span.tag)));
+}
+
+export function isValidTagName(name: string): boolean {
+  return TAG_NAME_PATTERN.test(name);
+}
+
+// "proj/alpha/notes" -> ["proj", "proj/alpha"]
+export function tagAncestors(tag: string): string[] {
+  const segments = tag.split(TAG_SEPARATOR);
+  return segments.slice(0, -1).map((_, index) => segments.slice(0, index + 1).join(TAG_SEPARATOR));
+}
+
+export function tagDepth(tag: string): number {
+  return tag.split(TAG_SEPARATOR).length - 1;
+}
+
+export function tagLabel(tag: string): string {
+  return tag.slice(tag.lastIndexOf(TAG_SEPARATOR) + 1);
+}
+
+export function isInTag(tag: string, parent: string, includeDescendants = false): boolean {
+  return tag === parent || (includeDescendants && tag.startsWith(parent + TAG_SEPARATOR));
+}
+
+// Swaps the `from` prefix of a tag for `to`; tags outside `from` are returned unchanged
+export function replaceTagPrefix(tag: string, from: string, to: string): string {
+  return isInTag(tag, from, true) ? to + tag.slice(from.length) : tag;
+}
+
+// Tags nobody has picked a colour for get one from their name, so a tag looks the same everywhere
+export function defaultTagColor(name: string): TagColor {
+  let hash = 0;
+  for (const char of name) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  return TAG_COLORS[hash % TAG_COLORS.length];
+}
+
+// Every tag in use or with saved details, plus any missing parents, sorted so parents come
+// right before their subtags. A tag's count includes notes tagged with one of its subtags.
+export function summarizeTags(
+  noteTags: Array<string[] | null>,
+  details: Array<{ name: string; color: string | null; description: string | null }>,
+): TagSummary[] {
+  const counts = new Map<string, number>();
+  const count = (tag: string, notes: number) => counts.set(tag, (counts.get(tag) ?? 0) + notes);
+
+  noteTags.forEach(tags => {
+    const withParents = new Set((tags ?? []).flatMap(tag => [...tagAncestors(tag), tag]));
+    withParents.forEach(tag => count(tag, 1));
+  });
+  details.forEach(detail => [...tagAncestors(detail.name), detail.name].forEach(tag => count(tag, 0)));
+
+  // Tag names are word characters and "/", which sorts before all of them
+  return Array.from(counts.keys()).sort((a, b) => a < b ? -1 : a > b ? 1 : 0).map(name => {
+    const detail = details.find(d => d.name === name);
+    return {
+      name,
+      color: (detail?.color as TagColor | null) ?? defaultTagColor(name),
+      description: detail?.description ?? null,
+      count: counts.get(name)!,
+    };
+  });
+}
@@ -0,0 +1,90 @@
+import { addDays, isValid, parse, set, subDays, subHours, subMinutes } from "date-fns";
+import { fromZonedTime, toZonedTime } from "./datetime";
+
+// A leading "@when" on a note's text, e.g. "@14:30 Call with Dana", "@yesterday 9am Standup" or
+// "@-20m Left the office". The note is saved with that time as its occurredAt and without the prefix.
+export interface TimePrefix {
+  occurredAt: Date;
+  label: string; // The prefix as typed, without the "@"
+  text: string; // The rest of the note
+}
+
+const PREFIX_PATTERN = /^@(\S+)(?:[ \t]+(\S+))?/;
+const DAY_PATTERN = /^(today|yesterday|tomorrow|\d{4}-\d{2}-\d{2})$/i;
+const TIME_PATTERN = /^(\d{1,2})(?::(\d{2}))?(am|pm)?$/i;
+const OFFSET_PATTERN = /^-(\d+)(m|min|h|d)$/i;
+
+// "14:30", "9am", "9:15pm"; a bare number isn't a time, so "@3 people" stays text
+function parseTimeOfDay(word: string): { hours: number; minutes: number } | null {
+  const match = TIME_PATTERN.exec(word);
+  if (!match || (match[2] === undefined && match[3] === undefined)) return null;
+
+  let hours = parseInt(match[1], 10);
+  const minutes = match[2] === undefined ? 0 : parseInt(match[2], 10);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    hours = (hours % 12) + (meridiem === "pm" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return { hours, minutes };
+}
+
+function parseDay(word: string, now: Date): Date | null {
+  switch (word.toLowerCase()) {
+    case "today":
+      return now;
+    case "yesterday":
+      return subDays(now, 1);
+    case "tomorrow":
+      return addDays(now, 1);
+  }
+  const date = parse(word, "yyyy-MM-dd", now);
+  return isValid(date) ? date : null;
+}
+
+function atTime(day: Date, time: { hours: number; minutes: number }): Date {
+  return set(day, { hours: time.hours, minutes: time.minutes, seconds: 0, milliseconds: 0 });
+}
+
+// Null when the text doesn't start with a recognised "@when". Days and times of day are read in
+// `timeZone` when given, otherwise in the local zone.
+export function parseTimePrefix(text: string, now = new Date(), timeZone?: string): TimePrefix | null {
+  const match = PREFIX_PATTERN.exec(text);
+  if (!match) return null;
+  const [, first, second] = match;
+
+  // Relative offsets like "-2h" don't depend on the zone
+  if (timeZone && !OFFSET_PATTERN.test(first)) {
+    const prefix = parseTimePrefix(text, toZonedTime(now, timeZone));
+    return prefix && { ...prefix, occurredAt: fromZonedTime(prefix.occurredAt, timeZone) };
+  }
+
+  let occurredAt: Date | null = null;
+  let words = 1;
+
+  const offset = OFFSET_PATTERN.exec(first);
+  if (offset) {
+    const amount = parseInt(offset[1], 10);
+    const unit = offset[2].toLowerCase();
+    occurredAt = unit === "d" ? subDays(now, amount) : unit === "h" ? subHours(now, amount) : subMinutes(now, amount);
+  } else if (DAY_PATTERN.test(first)) {
+    const day = parseDay(first, now);
+    const time = second ? parseTimeOfDay(second) : null;
+    if (day && time) {
+      occurredAt = atTime(day, time);
+      words = 2;
+    } else if (day) {
+      // A day on its own keeps the current time of day
+      occurredAt = set(day, { hours: now.getHours(), minutes: now.getMinutes(), seconds: now.getSeconds() });
+    }
+  } else {
+    const time = parseTimeOfDay(first);
+    if (time) occurredAt = atTime(now, time);
+  }
+  if (!occurredAt) return null;
+
+  const label = words === 2 ? `${first} ${second}` : first;
+  const prefixLength = words === 2 ? match[0].length : 1 + first.length;
+  return { occurredAt, label, text: text.slice(prefixLength).replace(/^[ \t]*\n?/, "") };
+}
@@ -0,0 +1,287 @@
+import type { Note, NoteMention, NoteToken, Variable } from "./schema";
+import { findVariableReferences, pickVariableValue, PICKED_VALUE_MARKER } from "./variables";
+import { findTags } from "./tags";
+
+// Attachment references added by NoteInput, one per line
+const ATTACHMENT_PATTERN = /^(📷|📎) (.+)$/gm;
+
+interface TokenSpan {
+  start: number;
+  end: number;
+  token: NoteToken;
+}
+
+// Turns note text (as typed in the editor, or a plain originalContent) into tokens.
+// Overlapping matches resolve in favour of picked values, then attachments, then references, then tags.
+export function parseNoteText(text: string, variables: Variable[]): NoteToken[] {
+  const spans: TokenSpan[] = [];
+  const references = findVariableReferences(text, variables);
+
+  references
+    .filter(reference => reference.pickedValue !== undefined)
+    .forEach(reference => spans.push({
+      start: reference.start,
+      end: reference.end,
+      token: { type: "value", variable: reference.variable, value: reference.pickedValue!, source: "picked" },
+    }));
+
+  let match;
+  ATTACHMENT_PATTERN.lastIndex = 0;
+  while ((match = ATTACHMENT_PATTERN.exec(text)) !== null) {
+    spans.push({
+      start: match.index,
+      end: match.index + match[0].length,
+      token: { type: "attachment", kind: match[1] === "📷" ? "image" : "file", fileName: match[2] },
+    });
+  }
+
+  references
+    .filter(reference => reference.pickedValue === undefined)
+    .forEach(reference => spans.push({
+      start: reference.start,
+      end: reference.end,
+      token: { type: "variable", variable: reference.variable },
+    }));
+
+  findTags(text).forEach(({ start, end, tag }) => spans.push({ start, end, token: { type: "tag", tag } }));
+
+  // Spans were collected in priority order, so keep the first of any that overlap
+  const accepted: TokenSpan[] = [];
+  spans.forEach(span => {
+    if (!accepted.some(other => span.start < other.end && other.start < span.end)) {
+      accepted.push(span);
+    }
+  });
+  accepted.sort((a, b) => a.start - b.start);
+
+  const tokens: NoteToken[] = [];
+  let lastIndex = 0;
+  accepted.forEach(span => {
+    if (span.start > lastIndex) {
+      tokens.push({ type: "text", text: text.slice(lastIndex, span.start) });
+    }
+    tokens.push(span.token);
+    lastIndex = span.end;
+  });
+  if (lastIndex < text.length) {
+    tokens.push({ type: "text", text: text.slice(lastIndex) });
+  }
+
+  return tokens;
+}
+
+// The text a token contributes to the note's saved content
+export function tokenText(token: NoteToken): string {
+  switch (token.type) {
+    case "text":
+      return token.text;
+    case "variable":
+      return `/${token.variable}`;
+    case "value":
+      return token.value;
+    case "tag":
+      return `#${token.tag}`;
+    case "attachment":
+      return `${token.kind === "image" ? "📷" : "📎"} ${token.fileName}`;
+  }
+}
+
+// Content with every reference replaced by its value
+export function tokensToContent(tokens: NoteToken[]): string {
+  return tokens.map(tokenText).join("");
+}
+
+// Content before substitution: policy-resolved values go back to their /name reference
+export function tokensToOriginalContent(tokens: NoteToken[]): string {
+  return tokens.map(token =>
+    token.type === "value" && token.source !== "picked" && token.variable ? `/${token.variable}` : tokenText(token)
+  ).join("");
+}
+
+// Text for editing a saved note; picked values get their editor markers back so they stay pinned
+export function tokensToEditorText(tokens: NoteToken[]): string {
+  return tokens.map(token =>
+    token.type === "value" && token.source === "picked"
+      ? `${PICKED_VALUE_MARKER}${token.value}${PICKED_VALUE_MARKER}`
+      : token.type === "value" && token.variable
+        ? `/${token.variable}`
+        : tokenText(token)
+  ).join("");
+}
+
+// Each tag once, in order of appearance
+export function tokensToTags(tokens: NoteToken[]): string[] {
+  return Array.from(new Set(tokens.flatMap(token => token.type === "tag" ? [token.tag] : [])));
+}
+
+export type TokenMention = Pick<NoteMention, "variable" | "value" | "count">;
+
+// The rows a note gets in the mention index: each value, or bare /name reference, once with how
+// often it appears. Values from before tokens recorded their variable aren't anyone's mention.
+export function tokensToMentions(tokens: NoteToken[]): TokenMention[] {
+  const mentions = new Map<string, TokenMention>();
+  tokens.forEach(token => {
+    if ((token.type !== "variable" && token.type !== "value") || !token.variable) return;
+    const value = token.type === "value" ? token.value : null;
+    const key = JSON.stringify([token.variable, value]);
+    const mention = mentions.get(key);
+    if (mention) {
+      mention.count++;
+    } else {
+      mentions.set(key, { variable: token.variable, value, count: 1 });
+    }
+  });
+  return Array.from(mentions.values());
+}
+
+// Appends text, joining it to the last token when that's text as well
+function pushText(tokens: NoteToken[], text: string) {
+  const last = tokens[tokens.length - 1];
+  if (last?.type === "text") {
+    tokens[tokens.length - 1] = { type: "text", text: last.text + text };
+  } else if (text) {
+    tokens.push({ type: "text", text });
+  }
+}
+
+type TaggedNote = Pick<Note, "content" | "originalContent" | "tokens" | "tags">;
+type RetaggedNote = Pick<Note, "content" | "originalContent" | "tokens" | "tags">;
+
+// Notes saved before tokens were stored are parsed as they are; references in them stay text
+function storedTokens(note: TaggedNote): NoteToken[] {
+  return note.tokens && note.tokens.length > 0 ? note.tokens : parseNoteText(note.originalContent || note.content, []);
+}
+
+// Imported notes can have tags that aren't in their text; `otherTags` keeps those
+function retaggedNote(tokens: NoteToken[], otherTags: string[]): RetaggedNote {
+  return {
+    content: tokensToContent(tokens),
+    originalContent: tokensToOriginalContent(tokens),
+    tokens,
+    tags: Array.from(new Set([...tokensToTags(tokens), ...otherTags])),
+  };
+}
+
+// Renaming and merging tags: each of the note's tags is replaced with rename(tag), in its text too.
+// Null when none of them change.
+export function renameNoteTags(note: TaggedNote, rename: (tag: string) => string): RetaggedNote | null {
+  const tags = note.tags ?? [];
+  let changed = tags.some(tag => rename(tag) !== tag);
+  const tokens = storedTokens(note).map(token => {
+    if (token.type !== "tag") return token;
+    const tag = rename(token.tag);
+    if (tag === token.tag) return token;
+    changed = true;
+    return { ...token, tag };
+  });
+  return changed ? retaggedNote(tokens, tags.map(rename)) : null;
+}
+
+// Bulk tagging: removed tags are taken out of the note's text wherever they appear and added ones
+// go on the end, so an edit of the note later keeps them. Null when there's nothing to change.
+export function retagNote(note: TaggedNote, add: string[], remove: string[]): RetaggedNote | null {
+  const tokens = storedTokens(note);
+  const removed = new Set(remove);
+  const retagged: NoteToken[] = [];
+  const otherTags = (note.tags ?? []).filter(tag => !removed.has(tag));
+  let changed = otherTags.length < (note.tags ?? []).length;
+  tokens.forEach(token => {
+    if (token.type === "tag" && removed.has(token.tag)) {
+      // Take the space before the tag with it, so "a #b c" becomes "a c"
+      const last = retagged[retagged.length - 1];
+      if (last?.type === "text" && /[ \t]$/.test(last.text)) {
+        retagged[retagged.length - 1] = { type: "text", text: last.text.slice(0, -1) };
+      }
+      changed = true;
+    } else if (token.type === "text") {
+      pushText(retagged, token.text);
+    } else {
+      retagged.push(token);
+    }
+  });
+
+  const present = new Set(tokensToTags(retagged));
+  Array.from(new Set(add)).filter(tag => !present.has(tag)).forEach(tag => {
+    const last = retagged[retagged.length - 1];
+    if (last && !(last.type === "text" && /\s$/.test(last.text))) {
+      pushText(retagged, " ");
+    }
+    retagged.push({ type: "tag", tag });
+    changed = true;
+  });
+
+  if (!changed) return null;
+  const first = retagged[0];
+  if (first?.type === "text") {
+    const text = first.text.trimStart();
+    if (text) retagged[0] = { type: "text", text };
+    else retagged.shift();
+  }
+  return retaggedNote(retagged, otherTags);
+}
+
+// Variable and value tokens, i.e. one entry per reference in the note
+function referenceTokens(tokens: NoteToken[]): NoteToken[] {
+  return tokens.filter(token => token.type === "variable" || token.type === "value");
+}
+
+// A reference keeps the value it resolved to before an edit if the same variable is still
+// mentioned at that position, so editing a note doesn't re-roll rotate/random picks
+function earlierValue(previous: NoteToken[], index: number, variable: string): NoteToken | undefined {
+  const earlier = previous[index];
+  return earlier?.type === "value" && earlier.variable === variable && earlier.source !== "picked" ? earlier : undefined;
+}
+
+// Counts the references per variable that a save will have to resolve afresh, e.g. how many
+// rotate positions or counter values it needs
+export function countUnresolvedReferences(tokens: NoteToken[], previous: NoteToken[] = []): Record<string, number> {
+  const earlierReferences = referenceTokens(previous);
+  const counts: Record<string, number> = {};
+  referenceTokens(tokens).forEach((token, index) => {
+    if (token.type !== "variable" || earlierValue(earlierReferences, index, token.variable)) return;
+    counts[token.variable] = (counts[token.variable] || 0) + 1;
+  });
+  return counts;
+}
+
+// Replaces variable tokens with value tokens using each variable's selection policy.
+// `rotationStart` is where each rotating variable's positions begin for this save, and `compute`
+// supplies values for built-in and expression variables (the server evaluates those).
+export function resolveVariableTokens(
+  tokens: NoteToken[],
+  variables: Variable[],
+  options: {
+    previous?: NoteToken[];
+    rotationStart?: Record<string, number>;
+    compute?: (name: string) => string | undefined;
+  } = {},
+): NoteToken[] {
+  const earlierReferences = referenceTokens(options.previous || []);
+  const rotation: Record<string, number> = { ...options.rotationStart };
+  let referenceIndex = 0;
+
+  return tokens.map(token => {
+    if (token.type !== "variable" && token.type !== "value") return token;
+
+    const index = referenceIndex++;
+    if (token.type === "value") return token;
+
+    const earlier = earlierValue(earlierReferences, index, token.variable);
+    if (earlier) return earlier;
+
+    const computed = options.compute?.(token.variable);
+    if (computed !== undefined) {
+      return { type: "value", variable: token.variable, value: computed, source: "computed" };
+    }
+
+    // Built-ins and expression variables stay unresolved until they can be computed
+    const variable = variables.find(v => v.name === token.variable);
+    if (!variable || variable.expression) return token;
+
+    const position = rotation[variable.name] ?? 0;
+    if (variable.selectionPolicy === "rotate") {
+      rotation[variable.name] = position + 1;
+    }
+    return { type: "value", variable: variable.name, value: pickVariableValue(variable, position), source: variable.selectionPolicy };
+  });
+}
@@ -0,0 +1,132 @@
+import type { ImportedVariable, Variable, VariableImportMode, VariableValue } from "./schema";
+import { BUILTIN_VARIABLES } from "./builtin-variables";
+import { findTags } from "./tags";
+
+// A variable mention in raw note text: either a bare /name or a value picked from the autocomplete
+export interface VariableReference {
+  start: number;
+  end: number;
+  variable: string;
+  pickedValue?: string;
+}
+
+// While editing, values picked from the autocomplete are wrapped in zero-width spaces.
+// The markers never reach storage: saved notes keep picks as value tokens instead.
+export const PICKED_VALUE_MARKER = "\u200B";
+const PICKED_VALUE_PATTERN = /\u200B([^\u200B]+)\u200B/g;
+
+// Finds references to the session's variables and the built-ins, in order of appearance
+export function findVariableReferences(text: string, variables: Variable[]): VariableReference[] {
+  const references: VariableReference[] = [];
+
+  let picked;
+  PICKED_VALUE_PATTERN.lastIndex = 0;
+  while ((picked = PICKED_VALUE_PATTERN.exec(text)) !== null) {
+    const value = picked[1];
+    const owner = variables.find(variable => findVariableValue(variable, value));
+    references.push({
+      start: picked.index,
+      end: picked.index + picked[0].length,
+      variable: owner?.name ?? "",
+      pickedValue: value,
+    });
+  }
+
+  const names = variables.map(variable => variable.name);
+  BUILTIN_VARIABLES.forEach(builtin => {
+    if (!names.includes(builtin.name)) names.push(builtin.name);
+  });
+
+  // The "/" in a nested tag like #proj/alpha isn't a reference
+  const tags = findTags(text);
+
+  names.forEach(name => {
+    // Namespaced names like acme.user have dots in them, and /acme mustn't match the start of /acme.user
+    const regex = new RegExp(`/${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?!\\w|\\.\\w)`, 'g');
+    let match;
+    while ((match = regex.exec(text)) !== null) {
+      const start = match.index;
+      // A picked value could itself contain something that looks like a reference
+      if (references.some(reference => reference.pickedValue !== undefined && start >= reference.start && start < reference.end)) continue;
+      if (tags.some(tag => start > tag.start && start < tag.end)) continue;
+      references.push({ start, end: start + match[0].length, variable: name });
+    }
+  });
+
+  return references.sort((a, b) => a.start - b.start);
+}
+
+// A value with nothing but its text, as plain-string values become
+export function toVariableValue(value: string): VariableValue {
+  return { value, aliases: [], description: null, attributes: {}, archived: false };
+}
+
+// The entry for `value` itself; aliases don't count, as notes always hold the value
+export function findVariableValue(variable: Pick<Variable, "values">, value: string): VariableValue | undefined {
+  return (variable.values || []).find(entry => entry.value === value);
+}
+
+// Values that can still be picked: everything but the archived ones, as plain text
+export function activeVariableValues(variable: Pick<Variable, "values">): string[] {
+  return (variable.values || []).filter(entry => !entry.archived).map(entry => entry.value);
+}
+
+// What a value is offered for when `searchTerm` has been typed: its text, or failing that the
+// first alias containing the term. Undefined when neither does.
+export function matchVariableValue(entry: VariableValue, searchTerm: string): string | undefined {
+  const term = searchTerm.toLowerCase();
+  return [entry.value, ...entry.aliases].find(text => text.toLowerCase().includes(term));
+}
+
+// Combines value lists by their text, e.g. when merging sessions or importing. Values already in
+// `existing` keep their details and pick up any new aliases and attributes; the rest are appended.
+export function mergeVariableValues(existing: VariableValue[], added: VariableValue[]): VariableValue[] {
+  const merged = existing.map(entry => ({ ...entry }));
+  added.forEach(entry => {
+    const index = merged.findIndex(other => other.value === entry.value);
+    if (index === -1) {
+      merged.push(entry);
+      return;
+    }
+    const current = merged[index];
+    merged[index] = {
+      ...current,
+      aliases: Array.from(new Set([...current.aliases, ...entry.aliases])),
+      description: current.description ?? entry.description,
+      attributes: { ...entry.attributes, ...current.attributes },
+    };
+  });
+  return merged;
+}
+
+// An existing variable once `imported` has been imported into it: merging adds the imported values
+// and keeps the variable's settings, replacing takes the imported values and whichever settings
+// the import gives
+export function applyVariableImport<T extends Variable>(target: T, imported: ImportedVariable, mode: VariableImportMode): T {
+  if (mode === "merge") {
+    return { ...target, values: mergeVariableValues(target.values || [], imported.values || []) };
+  }
+  return {
+    ...target,
+    values: imported.values || [],
+    ...(imported.defaultValue !== undefined && { defaultValue: imported.defaultValue }),
+    ...(imported.selectionPolicy !== undefined && { selectionPolicy: imported.selectionPolicy }),
+    ...(imported.expression !== undefined && { expression: imported.expression }),
+  };
+}
+
+// Chooses a value for a bare reference according to the variable's selection policy.
+// `rotation` is the rotate policy's position; callers advance it once per reference.
+export function pickVariableValue(variable: Variable, rotation = 0, random: () => number = Math.random): string {
+  const values = activeVariableValues(variable);
+  if (values.length === 0) return variable.name;
+
+  switch (variable.selectionPolicy) {
+    case "rotate":
+      return values[rotation % values.length];
+    case "random":
+      return values[Math.floor(random() * values.length)];
+    default:
+      return variable.defaultValue && values.includes(variable.defaultValue) ? variable.defaultValue : values[0];
+  }
+}